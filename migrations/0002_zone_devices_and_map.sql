@@ -0,0 +1,7 @@
+-- Zones became the source of truth for which taps and sensors the crons and dashboard use
+
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS sensor_device_id TEXT;  -- Tuya soil sensor device ID (optional)
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS plant_type TEXT;
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS plant_date DATE;
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS map_polygon JSONB;      -- [[x, y], ...] percentages of the property map image
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ; -- set when a zone is retired; history is kept
@@ -0,0 +1,6 @@
+-- When a run is due to stop. Written by every start (manual, scheduled, automated) and used
+-- by the water-check cron to stop overdue taps - it was missing from the original schema.
+
+ALTER TABLE watering_events ADD COLUMN IF NOT EXISTS scheduled_end_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_watering_events_open ON watering_events(zone_id) WHERE ended_at IS NULL;
@@ -0,0 +1,39 @@
+-- Household users with roles, recurring schedules, and who started each manual run
+
+-- Users - household members; PINs are stored as scrypt hashes (scrypt:<salt>:<hash>)
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'gardener', 'viewer')),
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Schedules - user-defined recurring waterings (trigger 'scheduled')
+CREATE TABLE IF NOT EXISTS schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id TEXT NOT NULL REFERENCES zones(id),
+  days_of_week INTEGER[] NOT NULL,    -- 0 = Sunday ... 6 = Saturday
+  start_time TEXT NOT NULL CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'), -- HH:MM, Australia/Melbourne
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 1 AND 120),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  skip_if_rain BOOLEAN NOT NULL DEFAULT TRUE,
+  last_run_at TIMESTAMPTZ,            -- last time it fired (or was skipped for rain)
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_zone_id ON schedules(zone_id);
+
+ALTER TABLE watering_events ADD COLUMN IF NOT EXISTS actor TEXT; -- household user who started a manual run
+
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on schedules" ON schedules;
+CREATE POLICY "Allow all operations on schedules" ON schedules FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON schedules TO anon, authenticated;
+
+-- users holds PIN hashes and roles: no policy and no grants, so the public anon key can't read
+-- or change it. The server reads it with the service role key (SUPABASE_SERVICE_ROLE_KEY).
+REVOKE ALL ON users FROM anon, authenticated;
@@ -0,0 +1,6 @@
+-- Continuous soil logging (sensor-ingest cron): sensor battery level, and an index for
+-- "latest reading for this zone", which the cron checks to skip unchanged reports
+
+ALTER TABLE soil_readings ADD COLUMN IF NOT EXISTS battery INTEGER; -- percent, when the sensor reports it
+
+CREATE INDEX IF NOT EXISTS idx_soil_readings_zone_captured ON soil_readings(zone_id, captured_at DESC);
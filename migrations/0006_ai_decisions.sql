@@ -0,0 +1,35 @@
+-- AI decision log: every auto-water decision with its inputs, the model's raw output and what was done
+
+CREATE TABLE IF NOT EXISTS ai_decisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id TEXT NOT NULL REFERENCES zones(id),
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Inputs
+  moisture_percent DECIMAL(5,2) NOT NULL,
+  soil_temperature DECIMAL(5,2),
+  weather_snapshot_id UUID REFERENCES weather_snapshots(id),
+  last_watered_days_ago INTEGER,
+  waterings_this_week INTEGER NOT NULL,
+  prompt_version TEXT NOT NULL,
+  -- Model output: raw text (null when the model wasn't called) and the parsed, clamped decision
+  raw_response TEXT,
+  should_water BOOLEAN NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  confidence TEXT NOT NULL,
+  fallback_used BOOLEAN NOT NULL DEFAULT FALSE, -- threshold rule used instead of the model
+  -- Outcome
+  action TEXT NOT NULL CHECK (action IN ('started', 'none', 'error')),
+  watering_event_id UUID REFERENCES watering_events(id),
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_decided_at ON ai_decisions(decided_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_zone_id ON ai_decisions(zone_id);
+
+ALTER TABLE ai_decisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on ai_decisions" ON ai_decisions;
+CREATE POLICY "Allow all operations on ai_decisions" ON ai_decisions FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON ai_decisions TO anon, authenticated;
@@ -0,0 +1,4 @@
+-- Rules engine: which engine made each decision, and why the rules vetoed an AI decision to water
+
+ALTER TABLE ai_decisions ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'ai' CHECK (mode IN ('ai', 'rules'));
+ALTER TABLE ai_decisions ADD COLUMN IF NOT EXISTS veto_reason TEXT; -- hard rule the AI's decision broke
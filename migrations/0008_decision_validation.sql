@@ -0,0 +1,3 @@
+-- Structured AI output: why model replies were rejected before a decision was made
+
+ALTER TABLE ai_decisions ADD COLUMN IF NOT EXISTS validation_error TEXT; -- one entry per rejected attempt
@@ -0,0 +1,7 @@
+-- Plant profiles: preset, water needs, soil and sun per zone, fed into the AI prompts
+
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS plant_preset TEXT; -- key of PLANT_PRESETS in src/lib/plants.ts
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS water_needs TEXT CHECK (water_needs IN ('low', 'medium', 'high'));
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS soil_type TEXT
+  CHECK (soil_type IN ('sand', 'sandy_loam', 'loam', 'clay_loam', 'clay', 'potting_mix'));
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS sun_exposure TEXT CHECK (sun_exposure IN ('full_sun', 'part_shade', 'full_shade'));
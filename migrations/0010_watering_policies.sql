@@ -0,0 +1,34 @@
+-- Seasonal watering policies: per-zone frequency caps, durations and moisture thresholds
+-- for a season or a custom date range, applied by the auto-water decision logic
+
+CREATE TABLE IF NOT EXISTS watering_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id TEXT NOT NULL REFERENCES zones(id),
+  season TEXT NOT NULL CHECK (season IN ('summer', 'autumn', 'winter', 'spring', 'custom')),
+  -- Custom ranges only, "MM-DD" inclusive; a range may wrap the new year (e.g. 12-01 to 02-15)
+  start_date TEXT CHECK (start_date ~ '^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'),
+  end_date TEXT CHECK (end_date ~ '^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'),
+  max_waterings_per_week INTEGER NOT NULL CHECK (max_waterings_per_week BETWEEN 0 AND 7),
+  min_duration_minutes INTEGER NOT NULL CHECK (min_duration_minutes BETWEEN 1 AND 120),
+  max_duration_minutes INTEGER NOT NULL CHECK (max_duration_minutes BETWEEN 1 AND 120),
+  -- Soil moisture bands (%): below critical waters regardless of frequency, above adequate never waters
+  critical_moisture INTEGER NOT NULL CHECK (critical_moisture BETWEEN 0 AND 100),
+  dry_moisture INTEGER NOT NULL CHECK (dry_moisture BETWEEN 0 AND 100),
+  adequate_moisture INTEGER NOT NULL CHECK (adequate_moisture BETWEEN 0 AND 100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (min_duration_minutes <= max_duration_minutes),
+  CHECK (critical_moisture < dry_moisture AND dry_moisture < adequate_moisture),
+  CHECK ((season = 'custom') = (start_date IS NOT NULL AND end_date IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_watering_policies_zone_id ON watering_policies(zone_id);
+-- One policy per zone per named season; custom ranges are unlimited
+CREATE UNIQUE INDEX IF NOT EXISTS idx_watering_policies_zone_season
+  ON watering_policies(zone_id, season) WHERE season <> 'custom';
+
+ALTER TABLE watering_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on watering_policies" ON watering_policies;
+CREATE POLICY "Allow all operations on watering_policies" ON watering_policies FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON watering_policies TO anon, authenticated;
@@ -0,0 +1,19 @@
+-- Water restrictions: the household's ruleset (Permanent Water Use Rules or a restriction stage)
+-- that every watering start is checked against. A single row with id 'household'.
+
+CREATE TABLE IF NOT EXISTS water_restrictions (
+  id TEXT PRIMARY KEY DEFAULT 'household' CHECK (id = 'household'),
+  stage TEXT NOT NULL CHECK (stage IN ('none', 'permanent', 'stage_1', 'stage_2', 'stage_3', 'stage_4')),
+  allowed_windows JSONB NOT NULL DEFAULT '[]', -- [{ "start": "HH:MM", "end": "HH:MM" }], Australia/Melbourne
+  allowed_days INTEGER[] NOT NULL,             -- 0 = Sunday ... 6 = Saturday
+  odd_even TEXT CHECK (odd_even IN ('odd', 'even')),
+  max_minutes_per_day INTEGER CHECK (max_minutes_per_day BETWEEN 1 AND 1440), -- per zone
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE water_restrictions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on water_restrictions" ON water_restrictions;
+CREATE POLICY "Allow all operations on water_restrictions" ON water_restrictions FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON water_restrictions TO anon, authenticated;
@@ -0,0 +1,20 @@
+-- Rain delays: "don't water until ..." for every zone or one zone, set from the dashboard.
+-- Auto-water and schedules skip while one is in force; manual runs are unaffected.
+
+CREATE TABLE IF NOT EXISTS rain_delays (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id TEXT REFERENCES zones(id), -- NULL: every zone
+  ends_at TIMESTAMPTZ NOT NULL,      -- cancelling a delay sets this to the time it was cancelled
+  reason TEXT,
+  created_by TEXT,                   -- household user who set it
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rain_delays_ends_at ON rain_delays(ends_at DESC);
+
+ALTER TABLE rain_delays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on rain_delays" ON rain_delays;
+CREATE POLICY "Allow all operations on rain_delays" ON rain_delays FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON rain_delays TO anon, authenticated;
@@ -0,0 +1,5 @@
+-- Close the users table (PIN hashes and roles) to the public anon key on databases that ran
+-- 0004 when it still allowed everything. The server reads it with the service role key.
+
+DROP POLICY IF EXISTS "Allow all operations on users" ON users;
+REVOKE ALL ON users FROM anon, authenticated;
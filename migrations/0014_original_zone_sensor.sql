@@ -0,0 +1,6 @@
+-- Before zones were configurable the soil sensor for the original zone was hard-coded; link it,
+-- or auto-water would skip that zone as having no sensor. Its own migration so databases that
+-- already ran 0002 get it too; a sensor set since is left alone.
+
+UPDATE zones SET sensor_device_id = 'bf455b6fdac1b8d5b9kagj'
+  WHERE id = 'zone-1' AND device_id = 'bf9d467329b87e8748kbam' AND sensor_device_id IS NULL;
@@ -0,0 +1,98 @@
+// Applies the numbered SQL files in migrations/ that the database hasn't run yet.
+//
+//   npm run migrate            apply pending migrations
+//   npm run migrate -- --status  list applied / pending without changing anything
+//
+// Connects with DATABASE_URL (Supabase: Project Settings > Database > Connection string),
+// read from the environment or .env.local. Applied versions are recorded in schema_migrations;
+// each migration runs in its own transaction.
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import pg from "pg";
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "migrations");
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+function loadMigrations() {
+  return readdirSync(MIGRATIONS_DIR)
+    .map((file) => {
+      const match = file.match(MIGRATION_FILE);
+      return match ? { version: match[1], name: match[2], file } : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.version.localeCompare(b.version));
+}
+
+async function main() {
+  try {
+    process.loadEnvFile(".env.local");
+  } catch {
+    // No .env.local - rely on the environment
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL is not set");
+    process.exit(1);
+  }
+
+  const statusOnly = process.argv.includes("--status");
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+
+  try {
+    // The app reads this table with the anon key for its startup drift check
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS "Allow reading schema_migrations" ON schema_migrations;
+      CREATE POLICY "Allow reading schema_migrations" ON schema_migrations FOR SELECT USING (true);
+      GRANT SELECT ON schema_migrations TO anon, authenticated;
+    `);
+
+    const { rows } = await client.query("SELECT version FROM schema_migrations");
+    const applied = new Set(rows.map((row) => row.version));
+    const migrations = loadMigrations();
+    const pending = migrations.filter((m) => !applied.has(m.version));
+
+    if (statusOnly) {
+      for (const m of migrations) {
+        console.log(`${applied.has(m.version) ? "applied" : "pending"}  ${m.file}`);
+      }
+      return;
+    }
+
+    if (pending.length === 0) {
+      console.log("Database is up to date");
+      return;
+    }
+
+    for (const m of pending) {
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, m.file), "utf8");
+      console.log(`Applying ${m.file}`);
+      try {
+        await client.query("BEGIN");
+        await client.query(sql);
+        await client.query("INSERT INTO schema_migrations (version, name) VALUES ($1, $2)", [m.version, m.name]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(`${m.file} failed: ${error.message}`);
+      }
+    }
+
+    console.log(`Applied ${pending.length} migration(s)`);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
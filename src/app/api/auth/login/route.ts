@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { getUsers, getUserByName } from "@/lib/storage";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  REMEMBERED_SESSION_MAX_AGE_SECONDS,
+  BOOTSTRAP_OWNER,
+  isAuthConfigured,
+  verifyPin,
+  createSessionToken,
+  type SessionUser,
+} from "@/lib/auth";
+import { getClientIp, getLoginRetryAfter, recordLoginFailure, recordLoginSuccess } from "@/lib/login-throttle";
+
+export async function POST(request: Request) {
+  try {
+    if (!isAuthConfigured()) {
+      return NextResponse.json(
+        { error: "Login not configured. Set SESSION_SECRET." },
+        { status: 503 }
+      );
+    }
+
+    const { name, pin, remember } = await request.json();
+    const ip = getClientIp(request);
+
+    // getUsers throws if storage can't be read (caught below as a 500), so an empty list
+    // really means no household users yet
+    const bootstrap = (await getUsers()).length === 0;
+    // The owner PIN ignores the name, so it's throttled as one account whatever name is sent
+    const attemptName = bootstrap ? null : typeof name === "string" ? name : "";
+
+    // Checked before the PIN, so a locked-out guesser learns nothing from further attempts
+    const retryAfterSeconds = getLoginRetryAfter(ip, attemptName);
+    if (retryAfterSeconds) {
+      return NextResponse.json(
+        { error: `Too many attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`, retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+      );
+    }
+
+    if (typeof pin !== "string") {
+      recordLoginFailure(ip, attemptName);
+      return NextResponse.json({ error: "Incorrect PIN" }, { status: 401 });
+    }
+
+    let user: SessionUser | null = null;
+
+    if (bootstrap) {
+      // The APP_PIN_HASH owner PIN gets in to create them
+      if (!process.env.APP_PIN_HASH) {
+        return NextResponse.json(
+          { error: "No users configured. Set APP_PIN_HASH to log in as the owner." },
+          { status: 503 }
+        );
+      }
+      if (verifyPin(pin, process.env.APP_PIN_HASH)) {
+        user = BOOTSTRAP_OWNER;
+      }
+    } else {
+      if (typeof name !== "string" || !name.trim()) {
+        return NextResponse.json({ error: "Enter your name" }, { status: 400 });
+      }
+      const account = await getUserByName(name.trim());
+      if (account && verifyPin(pin, account.pin_hash)) {
+        user = { id: account.id, name: account.name, role: account.role };
+      }
+    }
+
+    if (!user) {
+      recordLoginFailure(ip, attemptName);
+      return NextResponse.json({ error: "Incorrect name or PIN" }, { status: 401 });
+    }
+
+    recordLoginSuccess(ip, attemptName);
+
+    const maxAge = remember ? REMEMBERED_SESSION_MAX_AGE_SECONDS : SESSION_MAX_AGE_SECONDS;
+    const response = NextResponse.json({ authenticated: true, user });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(user, maxAge), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      // Without "remember", the cookie is dropped when the browser closes
+      maxAge: remember ? maxAge : undefined,
+    });
+    return response;
+  } catch (error) {
+    console.error("Login error:", error);
+    return NextResponse.json({ error: "Login failed, please try again" }, { status: 500 });
+  }
+}
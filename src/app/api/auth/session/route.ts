@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getUsers } from "@/lib/storage";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (user) {
+      return NextResponse.json({ authenticated: true, user });
+    }
+
+    // Tells the login screen whether to ask for a name (household users) or just the owner PIN
+    const usersConfigured = (await getUsers()).length > 0;
+    return NextResponse.json({ authenticated: false, user: null, usersConfigured });
+  } catch (error) {
+    console.error("Session error:", error);
+    return NextResponse.json({ error: "Failed to check session" }, { status: 500 });
+  }
+}
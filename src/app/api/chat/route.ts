@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { getWateringHistory, getLastWateredForZones, isSupabaseConfigured } from "@/lib/supabase";
+import { getWateringHistory, getLastWateredForZones, getZones } from "@/lib/storage";
+import { describePlantProfile } from "@/lib/plants";
+import { fetchWeatherData } from "@/lib/weather";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
@@ -11,11 +13,11 @@ interface ChatMessage {
 
 async function getSystemContext(): Promise<string> {
   let context = `You are a helpful garden assistant for a smart watering system in Mount Eliza, Victoria, Australia.
-The system controls a Zigbee smart water tap for the "Front Right Garden Hedges" zone, which has Leighton Green hedges planted on 13/12/2025.
+The system controls Zigbee smart water taps for one or more garden zones, listed below.
 
 Your role is to:
 - Answer questions about watering history and schedules
-- Provide gardening advice for Leighton Green hedges
+- Provide gardening advice for the plants in each zone
 - Help the user understand their garden's water needs
 - Give recommendations based on weather and soil conditions
 
@@ -23,51 +25,64 @@ Be concise and friendly. Use Australian date formats (DD/MM/YYYY).
 
 `;
 
-  // Add real-time data if Supabase is configured
-  if (isSupabaseConfigured()) {
-    try {
-      const [history, lastWatered] = await Promise.all([
-        getWateringHistory(10),
-        getLastWateredForZones(),
-      ]);
-
-      if (history.length > 0) {
-        context += "\n--- RECENT WATERING HISTORY ---\n";
-        history.slice(0, 5).forEach((event) => {
-          const start = new Date(event.started_at);
-          const duration = event.duration_seconds
-            ? `${Math.floor(event.duration_seconds / 60)}m ${event.duration_seconds % 60}s`
-            : "in progress";
-          context += `- ${start.toLocaleDateString("en-AU")} at ${start.toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })}: Duration ${duration}\n`;
+  // Add real-time data from storage
+  try {
+    const [history, lastWatered, zones] = await Promise.all([
+      getWateringHistory(10),
+      getLastWateredForZones(),
+      getZones(),
+    ]);
+
+    if (zones.length > 0) {
+      context += "\n--- WATERING ZONES ---\n";
+      zones.forEach((zone) => {
+        context += `- ${zone.name}${zone.sensor_device_id ? ", has soil sensor" : ""}\n`;
+        describePlantProfile(zone).forEach((line) => {
+          context += `  ${line}\n`;
         });
-      }
+      });
+    }
+
+    if (history.length > 0) {
+      context += "\n--- RECENT WATERING HISTORY ---\n";
+      history.slice(0, 5).forEach((event) => {
+        const start = new Date(event.started_at);
+        const duration = event.duration_seconds
+          ? `${Math.floor(event.duration_seconds / 60)}m ${event.duration_seconds % 60}s`
+          : "in progress";
+        const zoneName = event.zones?.name ?? event.zone_id;
+        context += `- ${zoneName}, ${start.toLocaleDateString("en-AU")} at ${start.toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })}: Duration ${duration}\n`;
+      });
+    }
 
-      const zone1LastWatered = lastWatered["zone-1"];
-      if (zone1LastWatered) {
-        const lastDate = new Date(zone1LastWatered);
+    if (Object.keys(lastWatered).length > 0) {
+      context += "\n";
+      zones.forEach((zone) => {
+        const zoneLastWatered = lastWatered[zone.id];
+        if (!zoneLastWatered) return;
+        const lastDate = new Date(zoneLastWatered);
         const now = new Date();
         const daysSince = Math.floor((now.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-        context += `\nLast watered: ${lastDate.toLocaleDateString("en-AU")} at ${lastDate.toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })} (${daysSince} days ago)\n`;
-      } else {
-        context += "\nNo watering history recorded yet.\n";
-      }
-
-      // Calculate stats
-      const totalEvents = history.length;
-      const totalDuration = history.reduce((sum, e) => sum + (e.duration_seconds || 0), 0);
-      context += `\nTotal watering events: ${totalEvents}`;
-      context += `\nTotal watering time: ${Math.round(totalDuration / 60)} minutes\n`;
-
-    } catch (error) {
-      console.error("Error fetching context data:", error);
+        context += `${zone.name} last watered: ${lastDate.toLocaleDateString("en-AU")} at ${lastDate.toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })} (${daysSince} days ago)\n`;
+      });
+    } else {
+      context += "\nNo watering history recorded yet.\n";
     }
+
+    // Calculate stats
+    const totalEvents = history.length;
+    const totalDuration = history.reduce((sum, e) => sum + (e.duration_seconds || 0), 0);
+    context += `\nTotal watering events: ${totalEvents}`;
+    context += `\nTotal watering time: ${Math.round(totalDuration / 60)} minutes\n`;
+
+  } catch (error) {
+    console.error("Error fetching context data:", error);
   }
 
-  // Add weather context by fetching from our weather API
+  // Add weather context (fetched directly, /api/* requires a session)
   try {
-    const weatherResponse = await fetch(`${process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000'}/api/weather`);
-    if (weatherResponse.ok) {
-      const weather = await weatherResponse.json();
+    const weather = await fetchWeatherData();
+    if (weather) {
       context += "\n--- CURRENT WEATHER ---\n";
       context += `Temperature: ${weather.current.temperature}°C\n`;
       context += `Conditions: ${weather.current.weatherDescription}\n`;
@@ -80,12 +95,6 @@ Be concise and friendly. Use Australian date formats (DD/MM/YYYY).
     // Weather fetch failed, continue without it
   }
 
-  context += "\n--- PLANT INFO ---\n";
-  context += "Zone: Front Right Garden Hedges\n";
-  context += "Plant: Leighton Green (Cupressocyparis leylandii)\n";
-  context += "Planted: 13/12/2025\n";
-  context += "Care notes: Leighton Greens are fast-growing evergreen hedging plants. They need regular watering especially when young. Water deeply 2-3 times per week in summer, less in winter. They prefer well-drained soil and can tolerate some drought once established.\n";
-
   return context;
 }
 
@@ -1,102 +1,171 @@
 import { NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { getDeviceStatus, turnOnDevice } from "@/lib/tuya";
+import { authorizeCronRequest } from "@/lib/cron";
+import { GoogleGenerativeAI, SchemaType, type ResponseSchema } from "@google/generative-ai";
+import { getDeviceStatus, parseSoilSensorStatus } from "@/lib/devices";
+import { describePlantProfile } from "@/lib/plants";
+import { getActivePolicy, type ActivePolicy } from "@/lib/policies";
+import { recordSoilReading } from "@/lib/sensors";
+import { getZoneWaterBalances } from "@/lib/water-balance";
+import { describeRainDelay, getRainDelayFor } from "@/lib/rain-delay";
+import { getRestrictionViolation } from "@/lib/restrictions";
+import { getMelbourneTime } from "@/lib/time";
+import { getActiveRestrictions, recordWeatherSnapshot, startWatering } from "@/lib/watering";
+import { fetchWeatherData, type WeatherData } from "@/lib/weather";
 import {
-  startScheduledWatering,
-  hasActiveAutomatedWatering,
-  logSoilReading,
+  clampDuration,
+  decideByRules,
+  getDecisionMode,
+  getVetoReason,
+  parseWateringDecision,
+  type DecisionInputs,
+  type DecisionMode,
+  type WateringDecision,
+} from "@/lib/watering-rules";
+import {
+  hasActiveWatering,
+  logAiDecision,
   getWateringHistory,
   getLastWateredForZones,
-} from "@/lib/supabase";
+  getRainDelays,
+  getWateringPolicies,
+  getZones,
+  type AiDecision,
+  type RainDelay,
+  type WateringPolicy,
+  type Zone,
+} from "@/lib/storage";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
-const SOIL_SENSOR_DEVICE_ID = "bf455b6fdac1b8d5b9kagj";
-const FRONT_TAP_DEVICE_ID = "bf9d467329b87e8748kbam";
-const ZONE_ID = "zone-1";
-const ZONE_NAME = "Front Right Garden Hedges";
+// Stored with every logged decision - bump when the prompt or its rules change
+const PROMPT_VERSION = "5";
+
+// Melbourne hours auto-water may start runs in (from 6 AM, until 10 PM)
+const AUTO_WATER_HOURS = { start: 6, end: 22 };
+
+// A reply that fails validation is asked for again this many times before falling back to the rules
+const MAX_DECISION_RETRIES = 1;
+
+// Gemini's JSON mode constrains the reply to this shape; parseWateringDecision still checks
+// values the schema can't express (duration range, non-empty reason)
+function decisionSchema(policy: ActivePolicy): ResponseSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      shouldWater: { type: SchemaType.BOOLEAN },
+      durationMinutes: {
+        type: SchemaType.INTEGER,
+        description: `0 if not watering, otherwise ${policy.min_duration_minutes}-${policy.max_duration_minutes}`,
+      },
+      reason: { type: SchemaType.STRING, description: "Brief explanation referencing which rule applied" },
+      confidence: { type: SchemaType.STRING, format: "enum", enum: ["high", "medium", "low"] },
+    },
+    required: ["shouldWater", "durationMinutes", "reason", "confidence"],
+  };
+}
 
-// Watering constraints - deep watering philosophy for root growth
-const MAX_WATERING_DURATION = 60; // Maximum watering session length
-const MIN_WATERING_DURATION = 30; // STRICT minimum - never water less than this
-const TARGET_WATERINGS_PER_WEEK = 3; // Target 2-3 waterings per week, not daily
+interface AIDecisionResult {
+  decision: WateringDecision;
+  rawResponse: string | null; // null when the model wasn't called
+  fallbackUsed: boolean;
+  validationError: string | null; // why rejected replies failed validation, one per attempt
+}
 
-// Verify cron secret to prevent unauthorized access
-function verifyCronSecret(request: Request): boolean {
-  const authHeader = request.headers.get("authorization");
-  const cronSecret = process.env.CRON_SECRET;
+interface DecisionOutcome extends AIDecisionResult {
+  mode: DecisionMode;
+  vetoReason: string | null;
+}
 
-  if (!cronSecret) {
-    console.warn("CRON_SECRET not set - allowing request without auth");
-    return true;
-  }
+interface ZoneResult {
+  zoneId: string;
+  zoneName: string;
+  success: boolean;
+  action: "started" | "none" | "skipped" | "error";
+  reason?: string;
+  error?: string;
+  details?: string;
+  moisture?: number;
+  temperature?: number | null;
+  aiDecision?: WateringDecision;
+  decisionId?: string | null;
+  eventId?: string | null;
+  scheduledEndTime?: string;
+}
 
-  return authHeader === `Bearer ${cronSecret}`;
+function describeWaterBalance({ waterBalance, weather }: DecisionInputs): string {
+  if (!waterBalance || !weather) return "- Not available (no weather data)";
+  return [
+    `- Reference evapotranspiration (ET0): ${weather.evapotranspiration.last7days}mm over the last 7 days, ${weather.evapotranspiration.today}mm forecast today`,
+    `- Crop coefficient: ${waterBalance.cropCoefficient} (plant water use = ET0 x coefficient)`,
+    `- Estimated root-zone depletion: ${waterBalance.depletionMm}mm of ${waterBalance.capacityMm}mm available (${waterBalance.depletionPercent}%)`,
+    `- Stress point: ${waterBalance.readilyAvailableMm}mm depletion`,
+    `- Forecast plant water use today: ${waterBalance.todayCropEt}mm`,
+  ].join("\n");
 }
 
-interface WateringDecision {
-  shouldWater: boolean;
-  durationMinutes: number;
-  reason: string;
-  confidence: "high" | "medium" | "low";
+// The rules engine's decision, marked as a stand-in for the AI
+function fallbackDecision(inputs: DecisionInputs, why: string): WateringDecision {
+  const decision = decideByRules(inputs);
+  return { ...decision, reason: `${why}, using rules: ${decision.reason}`, confidence: "low" };
 }
 
 async function getAIWateringDecision(
-  moisture: number,
+  zone: Zone,
   temperature: number | null,
-  weatherData: unknown,
-  lastWateredDaysAgo: number | null,
+  inputs: DecisionInputs,
   recentHistory: unknown[]
-): Promise<WateringDecision> {
+): Promise<AIDecisionResult> {
+  const { moisture, lastWateredDaysAgo, wateringsThisWeek, weather: weatherData, policy } = inputs;
+  const durations = `${policy.min_duration_minutes}-${policy.max_duration_minutes}`;
+
   if (!process.env.GEMINI_API_KEY) {
-    // Fallback to simple logic if no API key
-    const shouldWater = moisture < 35;
     return {
-      shouldWater,
-      durationMinutes: shouldWater ? 30 : 0,
-      reason: "Gemini API not configured - using fallback threshold of 35%",
-      confidence: "low",
+      decision: fallbackDecision(inputs, "Gemini API not configured"),
+      rawResponse: null,
+      fallbackUsed: true,
+      validationError: null,
     };
   }
 
   const model = genAI.getGenerativeModel({
     model: "gemini-2.0-flash-exp",
+    generationConfig: {
+      responseMimeType: "application/json",
+      responseSchema: decisionSchema(policy),
+    },
   });
 
-  // Count waterings in the last 7 days
-  const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  const wateringsThisWeek = recentHistory.filter(event => {
-    const eventDate = new Date((event as { started_at?: string }).started_at || 0);
-    return eventDate > oneWeekAgo;
-  }).length;
-
   const prompt = `You are an expert gardener analyzing soil moisture data for automated watering.
 
 === STRICT RULES (MUST FOLLOW) ===
 
-RULE 1 - WATERING FREQUENCY: Water ONLY 2-3 times per week, NOT daily.
+RULE 1 - WATERING FREQUENCY: Water at most ${policy.max_waterings_per_week} times per week, NOT daily.
 - Waterings this week so far: ${wateringsThisWeek}
-- Target: ${TARGET_WATERINGS_PER_WEEK} waterings per week maximum
-- If already watered ${TARGET_WATERINGS_PER_WEEK}+ times this week, DO NOT WATER unless soil is critically dry (<20%)
+- Target: ${policy.max_waterings_per_week} waterings per week maximum
+- If already watered ${policy.max_waterings_per_week}+ times this week, DO NOT WATER unless soil is critically dry (<${policy.critical_moisture}%)
 - Last watered: ${lastWateredDaysAgo !== null ? `${lastWateredDaysAgo} days ago` : "Unknown"}
 - If watered yesterday or today, DO NOT WATER again unless emergency
 
-RULE 2 - DURATION: If watering, MUST be between ${MIN_WATERING_DURATION}-${MAX_WATERING_DURATION} minutes.
-- NEVER suggest less than ${MIN_WATERING_DURATION} minutes
-- Short waterings (under 30 min) create shallow roots - this is BAD
+RULE 2 - DURATION: If watering, MUST be between ${durations} minutes.
+- NEVER suggest less than ${policy.min_duration_minutes} minutes
+- Short waterings create shallow roots - this is BAD
 - Deep watering encourages root growth - this is the goal
 
 RULE 3 - SKIP WATERING if any of these are true:
-- Already watered 3+ times this week
-- Watered within the last 2 days AND soil moisture > 25%
+- Already watered ${policy.max_waterings_per_week}+ times this week
+- Watered within the last 2 days AND soil moisture is ${policy.critical_moisture}% or more
 - Rain expected in next 24 hours
-- Soil moisture > 40%
+- Soil moisture > ${policy.adequate_moisture}%
+
+=== SEASONAL POLICY ===
+- Active policy: ${policy.label}
+- The limits in RULES 1-3 and the moisture guidelines below come from this policy
 
 === PLANT INFORMATION ===
-- Plant: Leighton Green hedges (Cupressocyparis leylandii)
+- Zone: ${zone.name}
 - Location: Mount Eliza, Victoria, Australia
-- Planted: 13/12/2025 (about 1 month old - still establishing)
-- Zone: Front Right Garden Hedges
+${describePlantProfile(zone).map((line) => `- ${line}`).join("\n")}
+- Newly planted and establishing plants need more consistent moisture; established plants with low water needs tolerate drier soil
 
 === CURRENT CONDITIONS ===
 - Soil Moisture: ${moisture}%
@@ -104,6 +173,9 @@ RULE 3 - SKIP WATERING if any of these are true:
 - Waterings this week: ${wateringsThisWeek}
 - Last Watered: ${lastWateredDaysAgo !== null ? `${lastWateredDaysAgo} days ago` : "Unknown"}
 
+=== SOIL WATER BALANCE (FAO-56) ===
+${describeWaterBalance(inputs)}
+
 === WEATHER DATA ===
 ${JSON.stringify(weatherData, null, 2)}
 
@@ -111,87 +183,302 @@ ${JSON.stringify(weatherData, null, 2)}
 ${JSON.stringify(recentHistory.slice(0, 5), null, 2)}
 
 === SOIL MOISTURE GUIDELINES ===
-- Below 20%: CRITICAL - water immediately (${MIN_WATERING_DURATION}-${MAX_WATERING_DURATION} min)
-- 20-30%: Dry - water if not watered in last 2 days (${MIN_WATERING_DURATION}-${MAX_WATERING_DURATION} min)
-- 30-40%: Adequate - only water if last watering was 3+ days ago
-- Above 40%: Good - DO NOT water
+- Below ${policy.critical_moisture}%: CRITICAL - water immediately (${durations} min)
+- ${policy.critical_moisture}-${policy.dry_moisture}%: Dry - water if not watered in last 2 days (${durations} min)
+- ${policy.dry_moisture}-${policy.adequate_moisture}%: Adequate - only water if the water balance depletion is past the stress point (without a water balance: if last watering was 3+ days ago)
+- Above ${policy.adequate_moisture}%: Good - DO NOT water
 
 === DECISION ===
 Based on the STRICT RULES above, respond in JSON format only:
 {
   "shouldWater": true/false,
-  "durationMinutes": number (0 if not watering, MUST be ${MIN_WATERING_DURATION}-${MAX_WATERING_DURATION} if watering),
+  "durationMinutes": number (0 if not watering, MUST be ${durations} if watering),
   "reason": "Brief explanation referencing which rule applied",
   "confidence": "high/medium/low"
 }`;
 
+  let responseText: string | null = null;
+  let lastError: string | undefined;
+  const validationErrors: string[] = [];
   try {
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
-
-    // Extract JSON from response (handle markdown code blocks)
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
-
-    const decision = JSON.parse(jsonMatch[0]) as WateringDecision;
+    for (let attempt = 0; attempt <= MAX_DECISION_RETRIES; attempt++) {
+      const retryNote = lastError
+        ? `\n\nYour previous response was rejected: ${lastError}. Respond again following the schema.`
+        : "";
+      const result = await model.generateContent(prompt + retryNote);
+      responseText = result.response.text();
+
+      const { value, error } = parseWateringDecision(responseText, policy);
+      if (value) {
+        return {
+          decision: clampDuration(value, policy),
+          rawResponse: responseText,
+          fallbackUsed: false,
+          validationError: validationErrors.length > 0 ? validationErrors.join("; ") : null,
+        };
+      }
 
-    // Enforce constraints
-    if (decision.durationMinutes > MAX_WATERING_DURATION) {
-      decision.durationMinutes = MAX_WATERING_DURATION;
-    }
-    if (decision.shouldWater && decision.durationMinutes < MIN_WATERING_DURATION) {
-      decision.durationMinutes = MIN_WATERING_DURATION;
+      lastError = error;
+      console.warn(`Invalid AI decision (attempt ${attempt + 1}): ${error}`);
+      validationErrors.push(`Attempt ${attempt + 1}: ${error}`);
     }
-
-    return decision;
   } catch (error) {
     console.error("Gemini API error:", error);
-    // Fallback logic
-    const shouldWater = moisture < 30;
+  }
+
+  const failedValidation = validationErrors.length > MAX_DECISION_RETRIES;
+  return {
+    decision: fallbackDecision(inputs, failedValidation ? "AI output failed validation" : "AI analysis failed"),
+    rawResponse: responseText,
+    fallbackUsed: true,
+    validationError: validationErrors.length > 0 ? validationErrors.join("; ") : null,
+  };
+}
+
+// Decide with the rules engine (DECISION_MODE=rules) or the AI. An AI decision to water
+// that breaks a hard rule is vetoed and replaced by a decision not to water.
+async function getWateringDecision(
+  zone: Zone,
+  temperature: number | null,
+  inputs: DecisionInputs,
+  recentHistory: unknown[]
+): Promise<DecisionOutcome> {
+  const mode = getDecisionMode();
+  if (mode === "rules") {
     return {
-      shouldWater,
-      durationMinutes: shouldWater ? 30 : 0,
-      reason: `AI analysis failed, using fallback: moisture ${moisture}% ${shouldWater ? "below" : "above"} 30% threshold`,
-      confidence: "low",
+      mode,
+      decision: decideByRules(inputs),
+      rawResponse: null,
+      fallbackUsed: false,
+      validationError: null,
+      vetoReason: null,
     };
   }
-}
 
-async function fetchWeatherData(): Promise<unknown> {
-  try {
-    const baseUrl = process.env.VERCEL_URL
-      ? `https://${process.env.VERCEL_URL}`
-      : process.env.NEXT_PUBLIC_VERCEL_URL
-        ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
-        : "http://localhost:3000";
-
-    const response = await fetch(`${baseUrl}/api/weather`);
-    if (response.ok) {
-      return await response.json();
-    }
-  } catch (error) {
-    console.error("Failed to fetch weather:", error);
+  const result = await getAIWateringDecision(zone, temperature, inputs, recentHistory);
+  const vetoReason = getVetoReason(result.decision, inputs);
+  if (!vetoReason) {
+    return { ...result, mode, vetoReason: null };
   }
-  return null;
+
+  return {
+    ...result,
+    mode,
+    vetoReason,
+    decision: {
+      shouldWater: false,
+      durationMinutes: 0,
+      reason: `Vetoed by rules (${vetoReason}); AI wanted ${result.decision.durationMinutes} min: ${result.decision.reason}`,
+      confidence: "high",
+    },
+  };
 }
 
-// Check if current time is within allowed watering hours (6 AM - 10 PM Melbourne time)
-function isWithinWateringHours(): { allowed: boolean; currentHour: number } {
-  const now = new Date();
-  // Convert to Melbourne time
-  const melbourneTime = new Date(now.toLocaleString("en-US", { timeZone: "Australia/Melbourne" }));
-  const currentHour = melbourneTime.getHours();
+// Read the zone's sensor, ask for a decision and start the zone's tap if needed
+async function checkZone(
+  zone: Zone,
+  weatherData: WeatherData | null,
+  weatherSnapshotId: string | null,
+  lastWateredMap: Record<string, string>,
+  zonePolicies: WateringPolicy[],
+  log: (message: string) => void
+): Promise<ZoneResult> {
+  const result = { zoneId: zone.id, zoneName: zone.name };
+  const zoneLog = (message: string) => log(`[${zone.name}] ${message}`);
+
+  if (!zone.sensor_device_id) {
+    zoneLog("No soil sensor linked, skipping");
+    return { ...result, success: true, action: "skipped", reason: "No soil sensor linked" };
+  }
+
+  // Check if watering is already in progress
+  const isWatering = await hasActiveWatering(zone.id);
+  if (isWatering) {
+    zoneLog("Watering already in progress, skipping");
+    return { ...result, success: true, action: "skipped", reason: "Watering already in progress" };
+  }
+
+  // Get soil moisture level
+  const { device: sensorDevice, error: sensorError } = await getDeviceStatus(zone.sensor_device_id);
+
+  if (sensorError || !sensorDevice) {
+    zoneLog(`Failed to get soil sensor status: ${sensorError}`);
+    return {
+      ...result,
+      success: false,
+      action: "error",
+      error: "Failed to read soil sensor",
+      details: sensorError,
+    };
+  }
+
+  const reading = parseSoilSensorStatus(sensorDevice);
+  const { moisture, temperature } = reading;
+
+  zoneLog(`Current moisture: ${moisture}%, temperature: ${temperature !== null ? temperature + "°C" : "N/A"}`);
+
+  if (moisture === null) {
+    zoneLog("Could not read moisture level");
+    return { ...result, success: false, action: "error", error: "Could not read moisture level" };
+  }
+
+  // Log the soil reading unless the sensor-ingest cron already stored the same one
+  await recordSoilReading(zone.id, reading);
+
+  const history = await getWateringHistory(10, zone.id);
+
+  // Calculate days since last watered
+  let lastWateredDaysAgo: number | null = null;
+  const lastWatered = lastWateredMap[zone.id];
+  if (lastWatered) {
+    const lastDate = new Date(lastWatered);
+    lastWateredDaysAgo = Math.floor((Date.now() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  zoneLog(`Last watered: ${lastWateredDaysAgo !== null ? lastWateredDaysAgo + " days ago" : "unknown"}`);
+
+  // Count waterings in the last 7 days
+  const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const wateringsThisWeek = history.filter((event) => new Date(event.started_at) > oneWeekAgo).length;
+
+  const waterBalance = weatherData ? (await getZoneWaterBalances([zone], weatherData))[zone.id] ?? null : null;
+  if (waterBalance) {
+    zoneLog(`Water balance: ${waterBalance.depletionMm}mm depleted of ${waterBalance.capacityMm}mm (stress at ${waterBalance.readilyAvailableMm}mm)`);
+  }
+
+  const policy = getActivePolicy(zonePolicies);
+  zoneLog(
+    `Policy: ${policy.label} - up to ${policy.max_waterings_per_week} runs a week of ${policy.min_duration_minutes}-${policy.max_duration_minutes} min, moisture bands ${policy.critical_moisture}/${policy.dry_moisture}/${policy.adequate_moisture}%`
+  );
+
+  const inputs: DecisionInputs = {
+    moisture,
+    lastWateredDaysAgo,
+    wateringsThisWeek,
+    weather: weatherData,
+    waterBalance,
+    policy,
+  };
+
+  zoneLog(getDecisionMode() === "rules" ? "Applying watering rules..." : "Consulting Gemini AI for watering decision...");
+  const outcome = await getWateringDecision(zone, temperature, inputs, history);
+  const { decision } = outcome;
+
+  if (outcome.validationError) {
+    zoneLog(`AI reply failed validation: ${outcome.validationError}`);
+  }
+  if (outcome.vetoReason) {
+    zoneLog(`AI decision vetoed: ${outcome.vetoReason}`);
+  }
+  zoneLog(`Decision (${outcome.mode}): shouldWater=${decision.shouldWater}, duration=${decision.durationMinutes}min, confidence=${decision.confidence}`);
+  zoneLog(`Reason: ${decision.reason}`);
+
+  // Persist the decision with its inputs and what came of it, for the Decisions page
+  const recordDecision = (
+    action: AiDecision["action"],
+    eventId: string | null = null,
+    error: string | null = null
+  ) =>
+    logAiDecision({
+      zone_id: zone.id,
+      moisture_percent: moisture,
+      soil_temperature: temperature,
+      weather_snapshot_id: weatherSnapshotId,
+      last_watered_days_ago: lastWateredDaysAgo,
+      waterings_this_week: wateringsThisWeek,
+      prompt_version: PROMPT_VERSION,
+      raw_response: outcome.rawResponse,
+      should_water: decision.shouldWater,
+      duration_minutes: decision.durationMinutes,
+      reason: decision.reason,
+      confidence: decision.confidence,
+      fallback_used: outcome.fallbackUsed,
+      mode: outcome.mode,
+      veto_reason: outcome.vetoReason,
+      validation_error: outcome.validationError,
+      action,
+      watering_event_id: eventId,
+      error,
+    });
+
+  if (!decision.shouldWater) {
+    const decisionId = await recordDecision("none");
+    return { ...result, success: true, action: "none", moisture, temperature, aiDecision: decision, decisionId };
+  }
+
+  // Check if the tap is online
+  const { device: tapDevice, error: tapError } = await getDeviceStatus(zone.device_id);
+  if (tapError || !tapDevice || !tapDevice.online) {
+    zoneLog(`Tap is offline or unavailable: ${tapError}`);
+    const decisionId = await recordDecision("error", null, `Tap is offline${tapError ? `: ${tapError}` : ""}`);
+    return {
+      ...result,
+      success: false,
+      action: "error",
+      error: "Tap is offline",
+      details: tapError,
+      aiDecision: decision,
+      decisionId,
+    };
+  }
+
+  // Turn on the water with the tap's countdown set, and log the run
+  zoneLog(`Turning on water for ${decision.durationMinutes} minutes`);
+  const started = await startWatering(zone, decision.durationMinutes, "automated", null, weatherSnapshotId);
+
+  if (started.restricted) {
+    const reason = started.error ?? "Refused by the water restrictions";
+    zoneLog(reason);
+    const decisionId = await recordDecision("none", null, reason);
+    return {
+      ...result,
+      success: true,
+      action: "skipped",
+      reason,
+      moisture,
+      temperature,
+      aiDecision: decision,
+      decisionId,
+    };
+  }
+
+  if (!started.success) {
+    zoneLog(`Failed to turn on water: ${started.error}`);
+    const decisionId = await recordDecision("error", null, `Failed to turn on water: ${started.error}`);
+    return {
+      ...result,
+      success: false,
+      action: "error",
+      error: "Failed to turn on water",
+      details: started.error,
+      aiDecision: decision,
+      decisionId,
+    };
+  }
 
-  // Allow watering between 6 AM (6) and 10 PM (22)
-  const allowed = currentHour >= 6 && currentHour < 22;
-  return { allowed, currentHour };
+  if (!started.countdownSet) {
+    zoneLog("Tap countdown could not be set - water-check cron will stop it");
+  }
+  zoneLog(`Watering started, event ID: ${started.eventId}, scheduled to stop in ${decision.durationMinutes} minutes`);
+  const decisionId = await recordDecision("started", started.eventId ?? null);
+
+  return {
+    ...result,
+    success: true,
+    action: "started",
+    moisture,
+    temperature,
+    aiDecision: decision,
+    decisionId,
+    eventId: started.eventId,
+    scheduledEndTime: started.scheduledEndAt,
+  };
 }
 
 export async function GET(request: Request) {
-  if (!verifyCronSecret(request)) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = authorizeCronRequest(request, "auto-water");
+  if (denied) {
+    return denied;
   }
 
   const logs: string[] = [];
@@ -201,159 +488,105 @@ export async function GET(request: Request) {
   };
 
   try {
-    // Check if within allowed watering hours
-    const { allowed, currentHour } = isWithinWateringHours();
-    if (!allowed) {
-      log(`Outside watering hours (current hour: ${currentHour}, allowed: 6 AM - 10 PM Melbourne time)`);
+    // Auto-water's own daytime hours, whatever the restrictions allow (manual runs aren't limited)
+    const currentHour = getMelbourneTime().hour;
+    if (currentHour < AUTO_WATER_HOURS.start || currentHour >= AUTO_WATER_HOURS.end) {
+      log(`Outside auto-water hours (current hour: ${currentHour}, allowed: 6 AM - 10 PM Melbourne time)`);
       return NextResponse.json({
         success: true,
         action: "skipped",
-        reason: `Outside watering hours (${currentHour}:00). Watering only allowed 6 AM - 10 PM.`,
+        reason: `Outside auto-water hours (${currentHour}:00). Auto-water only runs 6 AM - 10 PM.`,
         currentHour,
         logs,
       });
     }
 
-    log(`Within watering hours (${currentHour}:00 Melbourne time)`);
-    log("Starting AI-powered moisture check");
-
-    // Check if watering is already in progress
-    const isWatering = await hasActiveAutomatedWatering(ZONE_ID);
-    if (isWatering) {
-      log("Watering already in progress, skipping");
+    // Don't ask about any zone while the water restrictions rule out watering right now;
+    // startWatering still checks each run's length and the daily limit
+    const blocked = getRestrictionViolation(await getActiveRestrictions(), new Date(), 0);
+    if (blocked) {
+      log(`${blocked} (current hour: ${currentHour})`);
       return NextResponse.json({
         success: true,
         action: "skipped",
-        reason: "Watering already in progress",
+        reason: blocked,
+        currentHour,
         logs,
       });
     }
 
-    // Get soil moisture level
-    const { device: sensorDevice, error: sensorError } = await getDeviceStatus(SOIL_SENSOR_DEVICE_ID);
+    log(`Within allowed watering times (${currentHour}:00 Melbourne time)`);
 
-    if (sensorError || !sensorDevice) {
-      log(`Failed to get soil sensor status: ${sensorError}`);
-      return NextResponse.json({
-        success: false,
-        error: "Failed to read soil sensor",
-        details: sensorError,
-        logs,
-      }, { status: 500 });
+    // Fail closed: without the delays, a zone under one could be watered
+    let rainDelays: RainDelay[];
+    try {
+      rainDelays = await getRainDelays(new Date().toISOString());
+    } catch (error) {
+      const reason = `Couldn't check rain delays (${error instanceof Error ? error.message : error}) - not watering`;
+      log(reason);
+      return NextResponse.json({ success: false, action: "skipped", reason, logs }, { status: 500 });
     }
-
-    // Parse moisture value from sensor
-    const getStatusValue = (codes: string[]): number | null => {
-      for (const code of codes) {
-        const status = sensorDevice.status.find((s) => s.code === code);
-        if (status !== undefined && status.value !== undefined) {
-          return typeof status.value === "number" ? status.value : Number(status.value);
-        }
-      }
-      return null;
-    };
-
-    const moisture = getStatusValue(["humidity", "soil_humidity", "humidity_value", "moisture"]);
-    const temperatureRaw = getStatusValue(["temp_current", "temperature", "temp_value"]);
-    const temperature = temperatureRaw !== null ? temperatureRaw / 10 : null;
-
-    log(`Current moisture: ${moisture}%, temperature: ${temperature !== null ? temperature + "°C" : "N/A"}`);
-
-    if (moisture === null) {
-      log("Could not read moisture level");
+    const allZonesDelay = getRainDelayFor(rainDelays, null);
+    if (allZonesDelay) {
+      const reason = describeRainDelay(allZonesDelay);
+      log(`${reason} - skipping every zone`);
       return NextResponse.json({
-        success: false,
-        error: "Could not read moisture level",
+        success: true,
+        action: "skipped",
+        reason,
         logs,
-      }, { status: 500 });
-    }
-
-    // Log the soil reading to database
-    await logSoilReading(ZONE_ID, moisture, temperature ?? undefined);
-
-    // Gather context for AI decision
-    const [weatherData, history, lastWateredMap] = await Promise.all([
-      fetchWeatherData(),
-      getWateringHistory(10, ZONE_ID),
-      getLastWateredForZones(),
-    ]);
-
-    // Calculate days since last watered
-    let lastWateredDaysAgo: number | null = null;
-    const lastWatered = lastWateredMap[ZONE_ID];
-    if (lastWatered) {
-      const lastDate = new Date(lastWatered);
-      lastWateredDaysAgo = Math.floor((Date.now() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
+      });
     }
 
-    log(`Last watered: ${lastWateredDaysAgo !== null ? lastWateredDaysAgo + " days ago" : "unknown"}`);
-
-    // Get AI decision
-    log("Consulting Gemini AI for watering decision...");
-    const decision = await getAIWateringDecision(
-      moisture,
-      temperature,
-      weatherData,
-      lastWateredDaysAgo,
-      history
-    );
-
-    log(`AI Decision: shouldWater=${decision.shouldWater}, duration=${decision.durationMinutes}min, confidence=${decision.confidence}`);
-    log(`AI Reason: ${decision.reason}`);
+    log("Starting AI-powered moisture check");
 
-    if (!decision.shouldWater) {
+    const zones = await getZones();
+    if (zones.length === 0) {
+      log("No zones configured");
       return NextResponse.json({
         success: true,
         action: "none",
-        moisture,
-        temperature,
-        aiDecision: decision,
+        reason: "No zones configured",
         logs,
       });
     }
 
-    // Check if the tap is online
-    const { device: tapDevice, error: tapError } = await getDeviceStatus(FRONT_TAP_DEVICE_ID);
-    if (tapError || !tapDevice || !tapDevice.online) {
-      log(`Front tap is offline or unavailable: ${tapError}`);
-      return NextResponse.json({
-        success: false,
-        error: "Front tap is offline",
-        details: tapError,
-        aiDecision: decision,
-        logs,
-      }, { status: 500 });
-    }
+    log(`Checking ${zones.length} zone(s)`);
 
-    // Turn on the water
-    log(`Turning on water for ${decision.durationMinutes} minutes`);
-    const turnOnResult = await turnOnDevice(FRONT_TAP_DEVICE_ID);
+    // Gather shared context for AI decisions
+    const [weatherData, lastWateredMap, policies] = await Promise.all([
+      fetchWeatherData(),
+      getLastWateredForZones(),
+      getWateringPolicies(),
+    ]);
 
-    if (!turnOnResult.success) {
-      log(`Failed to turn on water: ${turnOnResult.error}`);
-      return NextResponse.json({
-        success: false,
-        error: "Failed to turn on water",
-        details: turnOnResult.error,
-        aiDecision: decision,
-        logs,
-      }, { status: 500 });
+    // The conditions every decision in this run was made under; runs started below link to it
+    const weatherSnapshotId = await recordWeatherSnapshot(weatherData);
+    log(weatherSnapshotId ? `Weather snapshot ${weatherSnapshotId} captured` : "No weather snapshot captured");
+
+    const results: ZoneResult[] = [];
+    for (const zone of zones) {
+      const delay = getRainDelayFor(rainDelays, zone.id);
+      if (delay) {
+        const reason = describeRainDelay(delay);
+        log(`[${zone.name}] ${reason}, skipping`);
+        results.push({ zoneId: zone.id, zoneName: zone.name, success: true, action: "skipped", reason });
+        continue;
+      }
+
+      const zonePolicies = policies.filter((policy) => policy.zone_id === zone.id);
+      results.push(await checkZone(zone, weatherData, weatherSnapshotId, lastWateredMap, zonePolicies, log));
     }
 
-    // Log the scheduled watering to database
-    const eventId = await startScheduledWatering(ZONE_ID, ZONE_NAME, FRONT_TAP_DEVICE_ID, decision.durationMinutes);
-    log(`Watering started, event ID: ${eventId}, scheduled to stop in ${decision.durationMinutes} minutes`);
+    const failed = results.filter((r) => !r.success);
 
     return NextResponse.json({
-      success: true,
-      action: "started",
-      moisture,
-      temperature,
-      aiDecision: decision,
-      eventId,
-      scheduledEndTime: new Date(Date.now() + decision.durationMinutes * 60 * 1000).toISOString(),
+      success: failed.length === 0,
+      action: results.some((r) => r.action === "started") ? "started" : "none",
+      weatherSnapshotId,
+      results,
       logs,
-    });
+    }, { status: failed.length > 0 ? 500 : 200 });
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
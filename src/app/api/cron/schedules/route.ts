@@ -0,0 +1,171 @@
+import { NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/lib/cron";
+import { recordWeatherSnapshot, startWatering } from "@/lib/watering";
+import { fetchWeatherData, type WeatherData } from "@/lib/weather";
+import { getMelbourneTime } from "@/lib/time";
+import { isScheduleDue, getRainSkipReason } from "@/lib/schedules";
+import { describeRainDelay, getRainDelayFor } from "@/lib/rain-delay";
+import {
+  getSchedules,
+  getZones,
+  hasActiveWatering,
+  getRainDelays,
+  updateSchedule,
+  type RainDelay,
+  type Schedule,
+} from "@/lib/storage";
+
+interface ScheduleResult {
+  scheduleId: string;
+  zoneId: string;
+  success: boolean;
+  action: "started" | "skipped" | "error";
+  reason?: string;
+  error?: string;
+  eventId?: string | null;
+  scheduledEndTime?: string;
+}
+
+// Starts user-defined schedules that are due. Run every 5 minutes; a schedule
+// fires once per Melbourne day within SCHEDULE_WINDOW_MINUTES of its start time.
+export async function GET(request: Request) {
+  const denied = authorizeCronRequest(request, "schedules");
+  if (denied) {
+    return denied;
+  }
+
+  const logs: string[] = [];
+  const log = (message: string) => {
+    console.log(`[schedules] ${message}`);
+    logs.push(`${new Date().toISOString()} - ${message}`);
+  };
+
+  try {
+    const now = getMelbourneTime();
+    const schedules = await getSchedules();
+    const due = schedules.filter((schedule) => isScheduleDue(schedule, now));
+
+    if (due.length === 0) {
+      log(`No schedules due at ${now.date} ${String(now.hour).padStart(2, "0")}:${String(now.minute).padStart(2, "0")} Melbourne time`);
+      return NextResponse.json({ success: true, action: "none", results: [], logs });
+    }
+
+    log(`${due.length} schedule(s) due`);
+
+    // Fail closed: without the delays, a zone under one could be watered. Nothing is marked as
+    // run, so the schedules retry on the next tick.
+    let rainDelays: RainDelay[];
+    try {
+      rainDelays = await getRainDelays(new Date().toISOString());
+    } catch (error) {
+      const reason = `Couldn't check rain delays (${error instanceof Error ? error.message : error}) - not watering`;
+      log(reason);
+      return NextResponse.json({ success: false, action: "skipped", reason, results: [], logs }, { status: 500 });
+    }
+
+    const zones = await getZones();
+    // Used for the rain check and captured once as the weather snapshot for every run started below
+    const weather: WeatherData | null = await fetchWeatherData();
+    let weatherSnapshotId: string | null | undefined;
+
+    const markRun = (schedule: Schedule) =>
+      updateSchedule(schedule.id, { last_run_at: new Date().toISOString() });
+
+    const results: ScheduleResult[] = [];
+    for (const schedule of due) {
+      const result = { scheduleId: schedule.id, zoneId: schedule.zone_id };
+      const zone = zones.find((z) => z.id === schedule.zone_id);
+
+      if (!zone) {
+        log(`Schedule ${schedule.id}: zone ${schedule.zone_id} not found or archived, skipping`);
+        results.push({ ...result, success: true, action: "skipped", reason: "Zone not found or archived" });
+        continue;
+      }
+
+      const zoneLog = (message: string) => log(`[${zone.name}] ${message}`);
+
+      // hasActiveWatering reads a storage error as busy, so a failed read can't start a second run.
+      // Not marked as run, so it retries on the next cron tick within the window.
+      if (await hasActiveWatering(zone.id)) {
+        zoneLog("Watering already in progress, skipping for now");
+        results.push({ ...result, success: true, action: "skipped", reason: "Watering already in progress" });
+        continue;
+      }
+
+      // Set by hand, so it applies whether or not the schedule skips for rain
+      const delay = getRainDelayFor(rainDelays, zone.id);
+      if (delay) {
+        zoneLog(`${describeRainDelay(delay)}, skipping`);
+        await markRun(schedule);
+        results.push({ ...result, success: true, action: "skipped", reason: describeRainDelay(delay) });
+        continue;
+      }
+
+      if (schedule.skip_if_rain) {
+        if (!weather) {
+          zoneLog("Weather unavailable - running schedule without rain check");
+        } else {
+          const rainReason = getRainSkipReason(weather);
+          if (rainReason) {
+            zoneLog(`Skipping for rain: ${rainReason}`);
+            await markRun(schedule);
+            results.push({ ...result, success: true, action: "skipped", reason: `Rain: ${rainReason}` });
+            continue;
+          }
+        }
+      }
+
+      zoneLog(`Starting scheduled watering for ${schedule.duration_minutes} minutes`);
+      if (weatherSnapshotId === undefined) {
+        weatherSnapshotId = await recordWeatherSnapshot(weather);
+      }
+      const started = await startWatering(zone, schedule.duration_minutes, "scheduled", null, weatherSnapshotId);
+
+      if (started.restricted) {
+        // Marked as run: retrying within the window would only be refused again
+        const reason = started.error ?? "Refused by the water restrictions";
+        zoneLog(reason);
+        await markRun(schedule);
+        results.push({ ...result, success: true, action: "skipped", reason });
+        continue;
+      }
+
+      if (!started.success) {
+        zoneLog(`Failed to turn on water: ${started.error}`);
+        results.push({ ...result, success: false, action: "error", error: started.error });
+        continue;
+      }
+
+      await markRun(schedule);
+      if (!started.countdownSet) {
+        zoneLog("Tap countdown could not be set - water-check cron will stop it");
+      }
+      zoneLog(`Watering started, event ID: ${started.eventId}`);
+      results.push({
+        ...result,
+        success: true,
+        action: "started",
+        eventId: started.eventId,
+        scheduledEndTime: started.scheduledEndAt,
+      });
+    }
+
+    const failed = results.filter((r) => !r.success);
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      action: results.some((r) => r.action === "started") ? "started" : "none",
+      results,
+      logs,
+    }, { status: failed.length > 0 ? 500 : 200 });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    log(`Error: ${errorMessage}`);
+    return NextResponse.json({
+      success: false,
+      error: errorMessage,
+      logs,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/lib/cron";
+import { getDeviceStatus, parseSoilSensorStatus } from "@/lib/devices";
+import { recordSoilReading } from "@/lib/sensors";
+import { getZones } from "@/lib/storage";
+
+interface SensorResult {
+  zoneId: string;
+  zoneName: string;
+  success: boolean;
+  action: "recorded" | "unchanged" | "error";
+  moisture?: number | null;
+  temperature?: number | null;
+  battery?: number | null;
+  error?: string;
+}
+
+// Logs a soil reading for every zone with a linked sensor, independent of auto-water,
+// so the soil history is a continuous time series. Run every 15 minutes.
+export async function GET(request: Request) {
+  const denied = authorizeCronRequest(request, "sensor-ingest");
+  if (denied) {
+    return denied;
+  }
+
+  const logs: string[] = [];
+  const log = (message: string) => {
+    console.log(`[sensor-ingest] ${message}`);
+    logs.push(`${new Date().toISOString()} - ${message}`);
+  };
+
+  try {
+    const zones = (await getZones()).filter((zone) => zone.sensor_device_id);
+
+    if (zones.length === 0) {
+      log("No zones with a soil sensor linked");
+      return NextResponse.json({ success: true, action: "none", results: [], logs });
+    }
+
+    const results: SensorResult[] = [];
+    for (const zone of zones) {
+      const result = { zoneId: zone.id, zoneName: zone.name };
+      const zoneLog = (message: string) => log(`[${zone.name}] ${message}`);
+
+      const { device, error } = await getDeviceStatus(zone.sensor_device_id!);
+      if (error || !device) {
+        zoneLog(`Failed to read soil sensor: ${error}`);
+        results.push({ ...result, success: false, action: "error", error: error || "Failed to read soil sensor" });
+        continue;
+      }
+
+      const reading = parseSoilSensorStatus(device);
+      if (reading.moisture === null) {
+        zoneLog("Sensor reported no moisture level");
+        results.push({ ...result, success: false, action: "error", error: "Could not read moisture level" });
+        continue;
+      }
+
+      const outcome = await recordSoilReading(zone.id, reading);
+      if (outcome === "failed") {
+        zoneLog("Failed to store soil reading");
+        results.push({ ...result, success: false, action: "error", error: "Failed to store soil reading", ...reading });
+        continue;
+      }
+
+      zoneLog(
+        `${outcome === "recorded" ? "Recorded" : "Unchanged"}: moisture ${reading.moisture}%, ` +
+          `temperature ${reading.temperature !== null ? reading.temperature + "°C" : "N/A"}, ` +
+          `battery ${reading.battery !== null ? reading.battery + "%" : "N/A"}`
+      );
+      results.push({ ...result, success: true, action: outcome, ...reading });
+    }
+
+    const failed = results.filter((r) => !r.success);
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      action: results.some((r) => r.action === "recorded") ? "recorded" : "none",
+      results,
+      logs,
+    }, { status: failed.length > 0 ? 500 : 200 });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    log(`Error: ${errorMessage}`);
+    return NextResponse.json({
+      success: false,
+      error: errorMessage,
+      logs,
+    }, { status: 500 });
+  }
+}
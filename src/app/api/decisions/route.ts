@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getAiDecisions } from "@/lib/storage";
+
+// Auto-water decision log, newest first
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, 500);
+    const zoneId = searchParams.get("zoneId") || undefined;
+
+    const decisions = await getAiDecisions(limit, zoneId);
+    return NextResponse.json({ decisions });
+  } catch (error) {
+    console.error("Decisions API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch decisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDeviceStatus, turnOnDevice, turnOffDevice } from "@/lib/tuya";
-import { logWateringStart, logWateringEnd } from "@/lib/supabase";
+import { getDeviceStatus, isDeviceOn } from "@/lib/devices";
+import { getZone } from "@/lib/storage";
+import { startWatering, stopWatering, DEFAULT_MANUAL_DURATION, MAX_MANUAL_DURATION } from "@/lib/watering";
+import { getSessionUser } from "@/lib/auth";
 
 export async function GET(
   request: NextRequest,
@@ -18,13 +20,11 @@ export async function GET(
       );
     }
 
-    const isOn = device.status.find((s) => s.code === "switch")?.value ?? false;
-
     return NextResponse.json({
       id: device.id,
       name: device.name,
       online: device.online,
-      isOn: isOn,
+      isOn: isDeviceOn(device),
       status: device.status,
     });
   } catch (error) {
@@ -44,40 +44,63 @@ export async function POST(
 
   try {
     const body = await request.json();
-    const { action, zoneId, zoneName, eventId } = body;
+    const { action, zoneId } = body;
 
-    let result: { success: boolean; error?: string };
-    let wateringEventId: string | null = null;
+    if (action !== "on" && action !== "off") {
+      return NextResponse.json(
+        { error: "Invalid action. Use 'on' or 'off'" },
+        { status: 400 }
+      );
+    }
 
-    if (action === "on") {
-      result = await turnOnDevice(deviceId);
+    const zone = zoneId ? await getZone(zoneId) : null;
+    if (!zone || zone.device_id !== deviceId) {
+      return NextResponse.json(
+        { error: "zoneId must be a zone using this device" },
+        { status: 400 }
+      );
+    }
 
-      // Log watering start to database and get event ID
-      if (result.success && zoneId && zoneName) {
-        try {
-          wateringEventId = await logWateringStart(zoneId, zoneName, deviceId, "manual");
-        } catch (err) {
-          console.error("Failed to log watering start:", err);
-        }
+    if (action === "on") {
+      const durationMinutes = body.durationMinutes ?? DEFAULT_MANUAL_DURATION;
+      if (
+        typeof durationMinutes !== "number" ||
+        !Number.isInteger(durationMinutes) ||
+        durationMinutes < 1 ||
+        durationMinutes > MAX_MANUAL_DURATION
+      ) {
+        return NextResponse.json(
+          { error: `durationMinutes must be a whole number from 1 to ${MAX_MANUAL_DURATION}` },
+          { status: 400 }
+        );
       }
-    } else if (action === "off") {
-      result = await turnOffDevice(deviceId);
 
-      // Log watering end to database
-      if (result.success && eventId) {
-        try {
-          await logWateringEnd(eventId);
-        } catch (err) {
-          console.error("Failed to log watering end:", err);
-        }
+      const actor = (await getSessionUser(request))?.name ?? null;
+      const result = await startWatering(zone, durationMinutes, "manual", actor);
+      if (result.restricted) {
+        return NextResponse.json({ error: result.error }, { status: 403 });
       }
-    } else {
-      return NextResponse.json(
-        { error: "Invalid action. Use 'on' or 'off'" },
-        { status: 400 }
-      );
+      if (result.busy) {
+        return NextResponse.json({ error: result.error }, { status: 409 });
+      }
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error || "Failed to control device" },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        action,
+        eventId: result.eventId ?? null,
+        durationMinutes,
+        scheduledEndAt: result.scheduledEndAt,
+        countdownSet: result.countdownSet,
+      });
     }
 
+    const result = await stopWatering(zone);
     if (!result.success) {
       return NextResponse.json(
         { error: result.error || "Failed to control device" },
@@ -85,7 +108,7 @@ export async function POST(
       );
     }
 
-    return NextResponse.json({ success: true, action, eventId: wateringEventId });
+    return NextResponse.json({ success: true, action, closedEvents: result.closed });
   } catch (error) {
     console.error("Error controlling device:", error);
     return NextResponse.json(
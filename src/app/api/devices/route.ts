@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { listDevices } from "@/lib/devices";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("kind");
+
+    const { devices, error } = await listDevices();
+
+    if (error) {
+      return NextResponse.json(
+        { error: `Failed to list devices: ${error}` },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      devices: kind ? devices.filter((d) => d.kind === kind) : devices,
+    });
+  } catch (error) {
+    console.error("Error listing devices:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
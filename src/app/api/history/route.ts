@@ -1,28 +1,30 @@
 import { NextResponse } from "next/server";
-import { getWateringHistory, getRecentWeatherSnapshots, getLastWateredForZones, closeStaleWateringEvents, isSupabaseConfigured } from "@/lib/supabase";
+import { getWateringEffectiveness, summarizeEffectivenessByZone } from "@/lib/effectiveness";
+import { getWateringHistory, getRecentWeatherSnapshots, getLastWateredForZones, getActiveWateringEvents, closeStaleWateringEvents } from "@/lib/storage";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
 
 export async function GET(request: Request) {
   try {
-    if (!isSupabaseConfigured()) {
-      return NextResponse.json(
-        { error: "Database not configured" },
-        { status: 503 }
-      );
-    }
-
-    // Auto-close any stale watering events (started >4 hours ago without ending)
+    // Auto-close any runs that passed their scheduled end >4 hours ago without being reconciled
     await closeStaleWateringEvents();
 
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get("limit") || "50");
+    const requestedLimit = parseInt(searchParams.get("limit") || "", 10);
+    const limit = Number.isNaN(requestedLimit) ? DEFAULT_LIMIT : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
     const zoneId = searchParams.get("zoneId") || undefined;
 
-    const [wateringEvents, weatherSnapshots, lastWateredByZone] = await Promise.all([
+    const [wateringEvents, weatherSnapshots, lastWateredByZone, activeEvents] = await Promise.all([
       getWateringHistory(limit, zoneId),
       getRecentWeatherSnapshots(10),
       getLastWateredForZones(),
+      getActiveWateringEvents(zoneId),
     ]);
 
+    // Moisture gain / time to peak / drying rate for each run, from the soil readings around it
+    const effectiveness = await getWateringEffectiveness(wateringEvents);
+
     // Calculate statistics
     const totalEvents = wateringEvents.length;
     const totalDuration = wateringEvents.reduce(
@@ -39,9 +41,11 @@ export async function GET(request: Request) {
     );
 
     return NextResponse.json({
-      events: wateringEvents,
+      events: wateringEvents.map((event) => ({ ...event, effectiveness: effectiveness[event.id] })),
       weatherSnapshots,
       lastWateredByZone,
+      activeEvents,
+      effectivenessByZone: summarizeEffectivenessByZone(wateringEvents, effectiveness),
       stats: {
         totalEvents,
         totalDurationSeconds: totalDuration,
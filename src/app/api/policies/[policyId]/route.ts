@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getWateringPolicies,
+  getWateringPolicy,
+  updateWateringPolicy,
+  deleteWateringPolicy,
+  getZone,
+} from "@/lib/storage";
+import { checkWateringPolicy, parseWateringPolicyInput } from "@/lib/policies";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  const { policyId } = await params;
+
+  const policy = await getWateringPolicy(policyId);
+  if (!policy) {
+    return NextResponse.json({ error: "Watering policy not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ policy });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  const { policyId } = await params;
+
+  try {
+    const { value, error } = parseWateringPolicyInput(await request.json(), true);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const existing = await getWateringPolicy(policyId);
+    if (!existing) {
+      return NextResponse.json({ error: "Watering policy not found" }, { status: 404 });
+    }
+
+    // Thresholds and durations are checked against each other on the policy as it will be saved
+    const merged = { ...existing, ...value };
+    const conflict = checkWateringPolicy(merged);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 400 });
+    }
+
+    const zone = await getZone(merged.zone_id);
+    if (!zone || (value.zone_id && zone.archived_at)) {
+      return NextResponse.json({ error: `Zone "${merged.zone_id}" not found` }, { status: 400 });
+    }
+
+    if (merged.season !== "custom") {
+      const others = await getWateringPolicies(merged.zone_id);
+      if (others.some((policy) => policy.id !== policyId && policy.season === merged.season)) {
+        return NextResponse.json({ error: `${zone.name} already has a ${merged.season} policy` }, { status: 409 });
+      }
+    }
+
+    const policy = await updateWateringPolicy(policyId, value);
+    if (!policy) {
+      return NextResponse.json({ error: "Failed to update watering policy" }, { status: 500 });
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error updating watering policy:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  const { policyId } = await params;
+
+  if (!(await getWateringPolicy(policyId))) {
+    return NextResponse.json({ error: "Watering policy not found" }, { status: 404 });
+  }
+
+  // The zone falls back to the built-in default for the season
+  if (!(await deleteWateringPolicy(policyId))) {
+    return NextResponse.json({ error: "Failed to delete watering policy" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
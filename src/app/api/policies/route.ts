@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getWateringPolicies, createWateringPolicy, getZone, type WateringPolicy } from "@/lib/storage";
+import { parseWateringPolicyInput } from "@/lib/policies";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const zoneId = searchParams.get("zoneId") || undefined;
+
+    const policies = await getWateringPolicies(zoneId);
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error("Policies API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch watering policies" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { value, error } = parseWateringPolicyInput(await request.json(), false);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const zone = await getZone(value.zone_id as string);
+    if (!zone || zone.archived_at) {
+      return NextResponse.json(
+        { error: `Zone "${value.zone_id}" not found` },
+        { status: 400 }
+      );
+    }
+
+    // One policy per zone per season; custom ranges can be added freely
+    const existing = await getWateringPolicies(zone.id);
+    if (value.season !== "custom" && existing.some((policy) => policy.season === value.season)) {
+      return NextResponse.json(
+        { error: `${zone.name} already has a ${value.season} policy` },
+        { status: 409 }
+      );
+    }
+
+    const policy = await createWateringPolicy({
+      ...(value as Omit<WateringPolicy, "id" | "created_at">),
+      zone_id: zone.id,
+    });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "Failed to create watering policy" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    console.error("Policies API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
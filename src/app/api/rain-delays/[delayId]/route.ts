@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endRainDelay, getRainDelays } from "@/lib/storage";
+
+// Cancels a delay that is still in force; it stays on record, ended now
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ delayId: string }> }
+) {
+  const { delayId } = await params;
+
+  try {
+    const active = await getRainDelays(new Date().toISOString());
+    if (!active.some((delay) => delay.id === delayId)) {
+      return NextResponse.json({ error: "Rain delay not found or already over" }, { status: 404 });
+    }
+
+    const delay = await endRainDelay(delayId);
+    if (!delay) {
+      return NextResponse.json({ error: "Failed to cancel rain delay" }, { status: 500 });
+    }
+
+    return NextResponse.json({ delay });
+  } catch (error) {
+    console.error("Rain delays API error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel rain delay" },
+      { status: 500 }
+    );
+  }
+}
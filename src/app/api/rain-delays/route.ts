@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRainDelay, getRainDelays, getZone } from "@/lib/storage";
+import { getRainDelayEnd, parseRainDelayInput } from "@/lib/rain-delay";
+import { getSessionUser } from "@/lib/auth";
+
+// Delays still in force, newest first
+export async function GET() {
+  try {
+    const delays = await getRainDelays(new Date().toISOString());
+    return NextResponse.json({ delays });
+  } catch (error) {
+    console.error("Rain delays API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rain delays" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { value, error } = parseRainDelayInput(await request.json());
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (value.zone_id) {
+      const zone = await getZone(value.zone_id);
+      if (!zone || zone.archived_at) {
+        return NextResponse.json(
+          { error: `Zone "${value.zone_id}" not found` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const delay = await createRainDelay({
+      zone_id: value.zone_id,
+      ends_at: getRainDelayEnd(value.days),
+      reason: value.reason,
+      created_by: (await getSessionUser(request))?.name ?? null,
+    });
+
+    if (!delay) {
+      return NextResponse.json(
+        { error: "Failed to create rain delay" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ delay }, { status: 201 });
+  } catch (error) {
+    console.error("Rain delays API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
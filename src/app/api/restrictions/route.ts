@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getWaterRestrictions, saveWaterRestrictions } from "@/lib/storage";
+import { DEFAULT_RESTRICTIONS, parseWaterRestrictionsInput } from "@/lib/restrictions";
+
+export async function GET() {
+  try {
+    const stored = await getWaterRestrictions();
+    return NextResponse.json({
+      restrictions: stored ?? DEFAULT_RESTRICTIONS,
+      isDefault: stored === null,
+    });
+  } catch (error) {
+    console.error("Restrictions API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch water restrictions" },
+      { status: 500 }
+    );
+  }
+}
+
+// The ruleset is replaced as a whole: pick a stage and adjust its preset
+export async function PUT(request: Request) {
+  try {
+    const { value, error } = parseWaterRestrictionsInput(await request.json());
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const restrictions = await saveWaterRestrictions(value);
+    if (!restrictions) {
+      return NextResponse.json(
+        { error: "Failed to save water restrictions" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ restrictions, isDefault: false });
+  } catch (error) {
+    console.error("Restrictions API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
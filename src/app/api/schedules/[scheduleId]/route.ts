@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSchedule, updateSchedule, deleteSchedule, getZone } from "@/lib/storage";
+import { parseScheduleInput } from "@/lib/schedules";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const { scheduleId } = await params;
+
+  const schedule = await getSchedule(scheduleId);
+  if (!schedule) {
+    return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ schedule });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const { scheduleId } = await params;
+
+  try {
+    const { value, error } = parseScheduleInput(await request.json(), true);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!(await getSchedule(scheduleId))) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    if (value.zone_id) {
+      const zone = await getZone(value.zone_id);
+      if (!zone || zone.archived_at) {
+        return NextResponse.json({ error: `Zone "${value.zone_id}" not found` }, { status: 400 });
+      }
+    }
+
+    const schedule = await updateSchedule(scheduleId, value);
+    if (!schedule) {
+      return NextResponse.json({ error: "Failed to update schedule" }, { status: 500 });
+    }
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("Error updating schedule:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const { scheduleId } = await params;
+
+  if (!(await getSchedule(scheduleId))) {
+    return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  }
+
+  // Runs a schedule already started stay in watering_events as "scheduled" events
+  if (!(await deleteSchedule(scheduleId))) {
+    return NextResponse.json({ error: "Failed to delete schedule" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
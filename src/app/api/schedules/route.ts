@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { getSchedules, createSchedule, getZone } from "@/lib/storage";
+import { parseScheduleInput } from "@/lib/schedules";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const zoneId = searchParams.get("zoneId") || undefined;
+
+    const schedules = await getSchedules(zoneId);
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error("Schedules API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { value, error } = parseScheduleInput(await request.json(), false);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const zone = await getZone(value.zone_id as string);
+    if (!zone || zone.archived_at) {
+      return NextResponse.json(
+        { error: `Zone "${value.zone_id}" not found` },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await createSchedule({
+      ...value,
+      zone_id: zone.id,
+      days_of_week: value.days_of_week as number[],
+      start_time: value.start_time as string,
+      duration_minutes: value.duration_minutes as number,
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Failed to create schedule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    console.error("Schedules API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { bucketSoilReadings, parseSoilHistoryQuery } from "@/lib/sensors";
+import { getSoilReadingsBetween, getWateringEventsBetween, getZone } from "@/lib/storage";
+
+// Soil moisture / temperature history for one zone, averaged into buckets, with the
+// zone's watering runs over the same range so the chart can overlay them.
+//   GET /api/soil-readings?zoneId=front&range=7d&bucket=2h
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const zoneId = searchParams.get("zoneId");
+    if (!zoneId) {
+      return NextResponse.json({ error: "zoneId is required" }, { status: 400 });
+    }
+
+    const { value: query, error } = parseSoilHistoryQuery(searchParams);
+    if (!query) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const zone = await getZone(zoneId);
+    if (!zone) {
+      return NextResponse.json({ error: "Zone not found" }, { status: 404 });
+    }
+
+    const [readings, events] = await Promise.all([
+      getSoilReadingsBetween(zone.id, query.from, query.to),
+      getWateringEventsBetween(query.from, query.to, zone.id),
+    ]);
+
+    return NextResponse.json({
+      zoneId: zone.id,
+      ...query,
+      points: bucketSoilReadings(readings, query.bucket),
+      wateringEvents: events.map((event) => ({
+        id: event.id,
+        startedAt: event.started_at,
+        // Open runs are drawn up to their scheduled end
+        endedAt: event.ended_at ?? event.scheduled_end_at ?? null,
+        trigger: event.trigger,
+      })),
+    });
+  } catch (error) {
+    console.error("Soil readings API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch soil readings" },
+      { status: 500 }
+    );
+  }
+}
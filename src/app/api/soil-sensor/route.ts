@@ -1,58 +1,67 @@
 import { NextResponse } from "next/server";
-import { getDeviceStatus } from "@/lib/tuya";
-
-const SOIL_SENSOR_DEVICE_ID = "bf455b6fdac1b8d5b9kagj";
+import { getDeviceStatus, parseSoilSensorStatus } from "@/lib/devices";
+import { getZones } from "@/lib/storage";
 
 export interface SoilSensorData {
   id: string;
   name: string;
+  zoneId: string;
+  zoneName: string;
+  plantType: string | null;
   online: boolean;
   moisture: number | null;
   temperature: number | null;
   battery: number | null;
   lastUpdated: string;
+  error?: string;
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const { device, error } = await getDeviceStatus(SOIL_SENSOR_DEVICE_ID);
+    const { searchParams } = new URL(request.url);
+    const zoneId = searchParams.get("zoneId");
 
-    if (error || !device) {
-      return NextResponse.json(
-        { error: error || "Failed to get soil sensor status" },
-        { status: 500 }
-      );
-    }
+    const zones = (await getZones()).filter(
+      (zone) => zone.sensor_device_id && (!zoneId || zone.id === zoneId)
+    );
 
-    // Parse the status values from the device
-    // Common Tuya soil sensor codes: humidity/soil_humidity, temp_current/temperature, battery_percentage/battery_state
-    const getStatusValue = (codes: string[]): number | null => {
-      for (const code of codes) {
-        const status = device.status.find((s) => s.code === code);
-        if (status !== undefined && status.value !== undefined) {
-          return typeof status.value === "number" ? status.value : Number(status.value);
-        }
-      }
-      return null;
-    };
+    const sensors: SoilSensorData[] = await Promise.all(
+      zones.map(async (zone) => {
+        const sensorDeviceId = zone.sensor_device_id as string;
+        const { device, error } = await getDeviceStatus(sensorDeviceId);
+        const base = {
+          zoneId: zone.id,
+          zoneName: zone.name,
+          plantType: zone.plant_type ?? null,
+          lastUpdated: new Date().toISOString(),
+        };
 
-    const moisture = getStatusValue(["humidity", "soil_humidity", "humidity_value", "moisture"]);
-    const temperature = getStatusValue(["temp_current", "temperature", "temp_value"]);
-    const battery = getStatusValue(["battery_percentage", "battery_state", "battery", "va_battery"]);
+        if (error || !device) {
+          return {
+            ...base,
+            id: sensorDeviceId,
+            name: zone.name,
+            online: false,
+            moisture: null,
+            temperature: null,
+            battery: null,
+            error: error || "Failed to get soil sensor status",
+          };
+        }
 
-    const sensorData: SoilSensorData = {
-      id: device.id,
-      name: device.name,
-      online: device.online,
-      moisture,
-      temperature: temperature !== null ? temperature / 10 : null, // Tuya often sends temp * 10
-      battery,
-      lastUpdated: new Date().toISOString(),
-    };
+        return {
+          ...base,
+          id: device.id,
+          name: device.name,
+          online: device.online,
+          ...parseSoilSensorStatus(device),
+        };
+      })
+    );
 
-    return NextResponse.json(sensorData);
+    return NextResponse.json({ sensors });
   } catch (error) {
-    console.error("Error fetching soil sensor:", error);
+    console.error("Error fetching soil sensors:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Internal server error" },
       { status: 500 }
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUsers, getUserByName, updateUser, deleteUser } from "@/lib/storage";
+import { parseUserInput, toPublicUser } from "@/lib/users";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  try {
+    const { value, error } = parseUserInput(await request.json(), true);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const users = await getUsers();
+    const existing = users.find((u) => u.id === userId);
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (value.name) {
+      const sameName = await getUserByName(value.name);
+      if (sameName && sameName.id !== userId) {
+        return NextResponse.json({ error: `User "${value.name}" already exists` }, { status: 409 });
+      }
+    }
+
+    // Keep at least one owner, or nobody could manage users again
+    const owners = users.filter((u) => u.role === "owner");
+    if (existing.role === "owner" && value.role && value.role !== "owner" && owners.length === 1) {
+      return NextResponse.json({ error: "There must be at least one owner" }, { status: 409 });
+    }
+
+    const user = await updateUser(userId, value);
+    if (!user) {
+      return NextResponse.json({ error: "Failed to update user" }, { status: 500 });
+    }
+
+    return NextResponse.json({ user: toPublicUser(user) });
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  try {
+    const users = await getUsers();
+    const existing = users.find((u) => u.id === userId);
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (existing.role === "owner" && users.filter((u) => u.role === "owner").length === 1) {
+      return NextResponse.json({ error: "There must be at least one owner" }, { status: 409 });
+    }
+
+    // Watering events keep the actor's name, so history still shows who watered
+    if (!(await deleteUser(userId))) {
+      return NextResponse.json({ error: "Failed to delete user" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting user:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
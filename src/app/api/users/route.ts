@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getUsers, getUserByName, createUser, type AppUser } from "@/lib/storage";
+import { parseUserInput, toPublicUser } from "@/lib/users";
+
+export async function GET() {
+  try {
+    const users = await getUsers();
+    return NextResponse.json({ users: users.map(toPublicUser) });
+  } catch (error) {
+    console.error("Users API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { value, error } = parseUserInput(await request.json(), false);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // The first user ends the APP_PIN_HASH owner, so they must be an owner themselves, or nobody
+    // could manage users again
+    if (value.role !== "owner" && (await getUsers()).length === 0) {
+      return NextResponse.json(
+        { error: "The first user must be an owner" },
+        { status: 409 }
+      );
+    }
+
+    if (await getUserByName(value.name as string)) {
+      return NextResponse.json(
+        { error: `User "${value.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const user = await createUser(value as Omit<AppUser, "id" | "created_at">);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Failed to create user" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+  } catch (error) {
+    console.error("Users API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
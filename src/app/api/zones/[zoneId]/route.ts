@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZone, updateZone, archiveZone, hasActiveWatering } from "@/lib/storage";
+import { parseZoneInput } from "@/lib/zones";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const { zoneId } = await params;
+
+  const zone = await getZone(zoneId);
+  if (!zone) {
+    return NextResponse.json({ error: "Zone not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ zone });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const { zoneId } = await params;
+
+  try {
+    const { value, error } = parseZoneInput(await request.json(), true);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!(await getZone(zoneId))) {
+      return NextResponse.json({ error: "Zone not found" }, { status: 404 });
+    }
+
+    if (value.archived_at && (await hasActiveWatering(zoneId))) {
+      return NextResponse.json(
+        { error: "Stop watering this zone before archiving it" },
+        { status: 409 }
+      );
+    }
+
+    const zone = await updateZone(zoneId, value);
+    if (!zone) {
+      return NextResponse.json({ error: "Failed to update zone" }, { status: 500 });
+    }
+
+    return NextResponse.json({ zone });
+  } catch (error) {
+    console.error("Error updating zone:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ zoneId: string }> }
+) {
+  const { zoneId } = await params;
+
+  if (!(await getZone(zoneId))) {
+    return NextResponse.json({ error: "Zone not found" }, { status: 404 });
+  }
+
+  // Zones are archived rather than deleted so their watering history is kept
+  if (await hasActiveWatering(zoneId)) {
+    return NextResponse.json(
+      { error: "Stop watering this zone before archiving it" },
+      { status: 409 }
+    );
+  }
+
+  const zone = await archiveZone(zoneId);
+  if (!zone) {
+    return NextResponse.json({ error: "Failed to archive zone" }, { status: 500 });
+  }
+
+  return NextResponse.json({ zone });
+}
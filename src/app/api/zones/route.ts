@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { getZones, getZone, createZone } from "@/lib/storage";
+import { parseZoneInput } from "@/lib/zones";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get("includeArchived") === "true";
+
+    const zones = await getZones({ includeArchived });
+    return NextResponse.json({ zones });
+  } catch (error) {
+    console.error("Zones API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch zones" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { value, error } = parseZoneInput(await request.json(), false);
+    if (error || !value) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const zoneId = value.id as string;
+    if (await getZone(zoneId)) {
+      return NextResponse.json(
+        { error: `Zone "${zoneId}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const zone = await createZone({
+      ...value,
+      id: zoneId,
+      name: value.name as string,
+      device_id: value.device_id as string,
+    });
+
+    if (!zone) {
+      return NextResponse.json(
+        { error: "Failed to create zone" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ zone }, { status: 201 });
+  } catch (error) {
+    console.error("Zones API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,22 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import Image from "next/image";
-import PinLock from "@/components/PinLock";
-
-const FRONT_TAP_DEVICE_ID = "bf9d467329b87e8748kbam";
+import PinLock, { type SessionUser } from "@/components/PinLock";
+import ZoneManager from "@/components/ZoneManager";
+import DecisionLog from "@/components/DecisionLog";
+import PolicyManager from "@/components/PolicyManager";
+import RestrictionSettings from "@/components/RestrictionSettings";
+import ScheduleManager from "@/components/ScheduleManager";
+import SoilHistoryChart from "@/components/SoilHistoryChart";
+import UserManager from "@/components/UserManager";
+import { RAIN_DELAY_DAYS, formatDelayEnd } from "@/lib/rain-delay";
+import { apiFetch } from "@/lib/api-client";
 
 interface WaterZone {
   id: string;
   deviceId: string;
+  sensorDeviceId?: string | null;
   name: string;
   isWatering: boolean;
   lastWatered: string | null;
@@ -16,7 +24,18 @@ interface WaterZone {
   online: boolean;
   plantType?: string;
   plantDate?: string;
-  currentEventId?: string | null;
+  mapPolygon?: Array<[number, number]> | null;
+  scheduledEndAt?: string | null;
+}
+
+interface ZoneRecord {
+  id: string;
+  device_id: string;
+  name: string;
+  sensor_device_id?: string | null;
+  plant_type?: string | null;
+  plant_date?: string | null;
+  map_polygon?: Array<[number, number]> | null;
 }
 
 interface DeviceStatus {
@@ -48,12 +67,26 @@ interface WeatherData {
     tempMin: number;
     precipitationSum: number;
     precipitationProbability: number;
+    et0: number;
   }>;
+  evapotranspiration: {
+    today: number;
+    last7days: number;
+  };
   wateringRecommendation: {
     shouldWater: boolean;
     reason: string;
     urgency: "none" | "low" | "medium" | "high";
   };
+  // Per-zone soil water balance, keyed by zone ID
+  waterBalance?: Record<string, {
+    cropCoefficient: number;
+    capacityMm: number;
+    readilyAvailableMm: number;
+    depletionMm: number;
+    depletionPercent: number;
+    todayCropEt: number;
+  }>;
 }
 
 interface WateringEventWithZone {
@@ -63,12 +96,49 @@ interface WateringEventWithZone {
   ended_at?: string;
   duration_seconds?: number;
   trigger: string;
+  actor?: string | null;
   zones?: { name: string };
+  effectiveness?: WateringEffectiveness;
+  // Conditions when the run started
+  weather_snapshots?: {
+    temperature: number;
+    humidity: number;
+    weather_description: string;
+    wind_speed: number;
+    rainfall_last_24h: number;
+    rainfall_last_7days: number;
+  } | null;
+}
+
+interface WateringEffectiveness {
+  status: "analysed" | "in_progress" | "no_readings";
+  baselineMoisture: number | null;
+  peakMoisture: number | null;
+  moistureGain: number | null;
+  timeToPeakMinutes: number | null;
+  decayPerDay: number | null;
+}
+
+interface ZoneEffectiveness {
+  runs: number;
+  averageGain: number;
+  averageGainPerMinute: number;
+  averageTimeToPeakMinutes: number;
+  averageDecayPerDay: number | null;
+}
+
+interface ActiveWateringEvent {
+  id: string;
+  zone_id: string;
+  started_at: string;
+  scheduled_end_at: string | null;
 }
 
 interface HistoryData {
   events: WateringEventWithZone[];
   lastWateredByZone: Record<string, string>;
+  activeEvents: ActiveWateringEvent[];
+  effectivenessByZone: Record<string, ZoneEffectiveness>;
   stats: {
     totalEvents: number;
     totalDurationSeconds: number;
@@ -77,6 +147,26 @@ interface HistoryData {
   };
 }
 
+interface RainDelayRecord {
+  id: string;
+  zone_id: string | null;
+  ends_at: string;
+  reason: string | null;
+  created_by: string | null;
+}
+
+const MANUAL_DURATION_OPTIONS = [5, 10, 15, 20, 30, 45, 60];
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const formatCountdown = (scheduledEndAt: string, now: number) => {
+  const remaining = Math.max(0, Math.round((new Date(scheduledEndAt).getTime() - now) / 1000));
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
 interface ChatMessage {
   role: "user" | "assistant";
   content: string;
@@ -85,32 +175,26 @@ interface ChatMessage {
 interface SoilSensorData {
   id: string;
   name: string;
+  zoneId: string;
+  zoneName: string;
+  plantType: string | null;
   online: boolean;
   moisture: number | null;
   temperature: number | null;
   battery: number | null;
   lastUpdated: string;
+  error?: string;
 }
 
 export default function Dashboard() {
-  const [zones, setZones] = useState<WaterZone[]>([
-    {
-      id: "zone-1",
-      deviceId: FRONT_TAP_DEVICE_ID,
-      name: "Front Right Garden Hedges",
-      isWatering: false,
-      lastWatered: null,
-      moistureLevel: null,
-      online: false,
-      plantType: "Leighton Greens",
-      plantDate: "13/12/2025",
-    },
-  ]);
+  const [zones, setZones] = useState<WaterZone[]>([]);
+  const [zonesLoaded, setZonesLoaded] = useState(false);
 
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isControlling, setIsControlling] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState<"home" | "soil" | "rain" | "weather" | "history" | "chat">("home");
+  const [controlError, setControlError] = useState("");
+  const [currentPage, setCurrentPage] = useState<"home" | "soil" | "rain" | "weather" | "history" | "decisions" | "chat" | "zones" | "schedules" | "policies" | "restrictions" | "users">("home");
   const [selectedZone, setSelectedZone] = useState<string | null>(null);
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [weatherLoading, setWeatherLoading] = useState(false);
@@ -121,26 +205,64 @@ export default function Dashboard() {
   const [chatLoading, setChatLoading] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const [soilSensor, setSoilSensor] = useState<SoilSensorData | null>(null);
+  const [soilSensors, setSoilSensors] = useState<SoilSensorData[] | null>(null);
   const [soilSensorLoading, setSoilSensorLoading] = useState(false);
+  const [manualDuration, setManualDuration] = useState(15);
+  const [rainDelays, setRainDelays] = useState<RainDelayRecord[]>([]);
+  const [rainDelayDays, setRainDelayDays] = useState(3);
+  const [rainDelayZone, setRainDelayZone] = useState(""); // "" for every zone
+  const [rainDelaySaving, setRainDelaySaving] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+
+  // The API enforces roles too; this just hides what the user can't do
+  const isOwner = currentUser?.role === "owner";
+  const canWater = isOwner || currentUser?.role === "gardener";
+  // Nothing is fetched until PinLock reports a session, so the API never sees a signed-out request
+  const signedIn = currentUser !== null;
+
+  const fetchZones = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/zones");
+      if (response.ok) {
+        const data: { zones: ZoneRecord[] } = await response.json();
 
-  useEffect(() => {
-    const savedEventIds = localStorage.getItem("wateringEventIds");
-    if (savedEventIds) {
-      try {
-        const eventIds: Record<string, string> = JSON.parse(savedEventIds);
         setZones((prev) =>
-          prev.map((zone) => ({
-            ...zone,
-            currentEventId: eventIds[zone.id] || null,
-          }))
+          data.zones.map((record) => {
+            const existing = prev.find((z) => z.id === record.id);
+            return {
+              isWatering: false,
+              lastWatered: null,
+              moistureLevel: null,
+              online: false,
+              scheduledEndAt: null,
+              ...existing,
+              id: record.id,
+              deviceId: record.device_id,
+              sensorDeviceId: record.sensor_device_id,
+              name: record.name,
+              plantType: record.plant_type || undefined,
+              plantDate: record.plant_date
+                ? new Date(record.plant_date).toLocaleDateString("en-AU")
+                : undefined,
+              mapPolygon: record.map_polygon,
+            };
+          })
         );
-      } catch (e) {
-        console.error("Failed to parse saved event IDs:", e);
       }
+    } catch (error) {
+      console.error("Failed to fetch zones:", error);
+    } finally {
+      setZonesLoaded(true);
     }
   }, []);
 
+  // Stable key so device polling only restarts when the set of taps changes
+  const deviceIdsKey = useMemo(
+    () => Array.from(new Set(zones.map((z) => z.deviceId))).join(","),
+    [zones]
+  );
+
   const sendChatMessage = async () => {
     if (!chatInput.trim() || chatLoading) return;
 
@@ -151,7 +273,7 @@ export default function Dashboard() {
     setChatLoading(true);
 
     try {
-      const response = await fetch("/api/chat", {
+      const response = await apiFetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ messages: newMessages }),
@@ -180,7 +302,7 @@ export default function Dashboard() {
   const fetchHistory = useCallback(async () => {
     setHistoryLoading(true);
     try {
-      const response = await fetch("/api/history");
+      const response = await apiFetch("/api/history");
       if (response.ok) {
         const data: HistoryData = await response.json();
         setHistory(data);
@@ -188,10 +310,17 @@ export default function Dashboard() {
         if (data.lastWateredByZone) {
           setZones((prev) =>
             prev.map((zone) => {
+              // Latest open run for this zone drives the countdown
+              const activeEvent = data.activeEvents
+                ?.filter((e) => e.zone_id === zone.id && e.scheduled_end_at)
+                .sort((a, b) => b.started_at.localeCompare(a.started_at))[0];
+              const scheduledEndAt = activeEvent?.scheduled_end_at ?? null;
+
               const lastWatered = data.lastWateredByZone[zone.id];
               if (lastWatered) {
                 return {
                   ...zone,
+                  scheduledEndAt,
                   lastWatered: new Date(lastWatered).toLocaleString("en-AU", {
                     day: "numeric",
                     month: "short",
@@ -200,7 +329,7 @@ export default function Dashboard() {
                   }),
                 };
               }
-              return zone;
+              return { ...zone, scheduledEndAt };
             })
           );
         }
@@ -212,23 +341,35 @@ export default function Dashboard() {
     }
   }, []);
 
+  const fetchRainDelays = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/rain-delays");
+      if (response.ok) {
+        const data: { delays: RainDelayRecord[] } = await response.json();
+        setRainDelays(data.delays);
+      }
+    } catch (error) {
+      console.error("Failed to fetch rain delays:", error);
+    }
+  }, []);
+
   const fetchSoilSensor = useCallback(async () => {
     setSoilSensorLoading(true);
     try {
-      const response = await fetch("/api/soil-sensor");
+      const response = await apiFetch("/api/soil-sensor");
       if (response.ok) {
-        const data: SoilSensorData = await response.json();
-        setSoilSensor(data);
+        const data: { sensors: SoilSensorData[] } = await response.json();
+        setSoilSensors(data.sensors);
 
-        // Update zone moisture level with sensor data
-        if (data.moisture !== null) {
-          setZones((prev) =>
-            prev.map((zone) => ({
-              ...zone,
-              moistureLevel: data.moisture,
-            }))
-          );
-        }
+        // Update each zone's moisture level with its sensor data
+        setZones((prev) =>
+          prev.map((zone) => {
+            const sensor = data.sensors.find((s) => s.zoneId === zone.id);
+            return sensor && sensor.moisture !== null
+              ? { ...zone, moistureLevel: sensor.moisture }
+              : zone;
+          })
+        );
       }
     } catch (error) {
       console.error("Failed to fetch soil sensor:", error);
@@ -240,7 +381,7 @@ export default function Dashboard() {
   const fetchWeather = useCallback(async () => {
     setWeatherLoading(true);
     try {
-      const response = await fetch("/api/weather");
+      const response = await apiFetch("/api/weather");
       if (response.ok) {
         const data: WeatherData = await response.json();
         setWeather(data);
@@ -253,80 +394,114 @@ export default function Dashboard() {
   }, []);
 
   const fetchDeviceStatus = useCallback(async () => {
+    const deviceIds = deviceIdsKey ? deviceIdsKey.split(",") : [];
     try {
-      const response = await fetch(`/api/device/${FRONT_TAP_DEVICE_ID}`);
-      if (response.ok) {
-        const data: DeviceStatus = await response.json();
-        setZones((prev) =>
-          prev.map((zone) =>
-            zone.deviceId === data.id
-              ? { ...zone, isWatering: data.isOn, online: data.online }
-              : zone
-          )
-        );
-        setIsConnected(true);
-      } else {
-        setIsConnected(false);
-      }
-    } catch (error) {
-      console.error("Failed to fetch device status:", error);
-      setIsConnected(false);
+      const results = await Promise.all(
+        deviceIds.map(async (deviceId) => {
+          try {
+            const response = await apiFetch(`/api/device/${deviceId}`);
+            return response.ok ? ((await response.json()) as DeviceStatus) : null;
+          } catch (error) {
+            console.error("Failed to fetch device status:", error);
+            return null;
+          }
+        })
+      );
+
+      const statuses = results.filter((r): r is DeviceStatus => r !== null);
+      setZones((prev) =>
+        prev.map((zone) => {
+          const status = statuses.find((s) => s.id === zone.deviceId);
+          if (!status) return zone;
+          return {
+            ...zone,
+            isWatering: status.isOn,
+            online: status.online,
+            scheduledEndAt: status.isOn ? zone.scheduledEndAt : null,
+          };
+        })
+      );
+      setIsConnected(statuses.length > 0);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [deviceIdsKey]);
 
   useEffect(() => {
+    if (!signedIn) return;
+    fetchZones();
+  }, [signedIn, fetchZones]);
+
+  useEffect(() => {
+    if (!signedIn || !zonesLoaded) return;
     fetchDeviceStatus();
     const interval = setInterval(fetchDeviceStatus, 30000);
     return () => clearInterval(interval);
-  }, [fetchDeviceStatus]);
+  }, [signedIn, zonesLoaded, fetchDeviceStatus]);
 
   useEffect(() => {
+    if (!signedIn) return;
     fetchHistory();
-  }, [fetchHistory]);
+  }, [signedIn, fetchHistory]);
+
+  // Refreshed like the soil sensors, so delays set on another device appear and ended ones go
+  useEffect(() => {
+    if (!signedIn) return;
+    fetchRainDelays();
+    const interval = setInterval(fetchRainDelays, 60000);
+    return () => clearInterval(interval);
+  }, [signedIn, fetchRainDelays]);
+
+  // Tick once a second while any zone has a countdown running
+  const hasCountdown = zones.some((z) => z.isWatering && z.scheduledEndAt);
+  useEffect(() => {
+    if (!hasCountdown) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasCountdown]);
 
   useEffect(() => {
+    if (!signedIn) return;
     fetchSoilSensor();
     const interval = setInterval(fetchSoilSensor, 60000); // Refresh every minute
     return () => clearInterval(interval);
-  }, [fetchSoilSensor]);
+  }, [signedIn, fetchSoilSensor]);
 
   useEffect(() => {
-    if ((currentPage === "rain" || currentPage === "weather") && !weather && !weatherLoading) {
+    if (signedIn && (currentPage === "rain" || currentPage === "weather") && !weather && !weatherLoading) {
       fetchWeather();
     }
-  }, [currentPage, weather, weatherLoading, fetchWeather]);
+  }, [signedIn, currentPage, weather, weatherLoading, fetchWeather]);
 
   useEffect(() => {
-    if (currentPage === "history" && !history && !historyLoading) {
+    if (signedIn && currentPage === "history" && !history && !historyLoading) {
       fetchHistory();
     }
-  }, [currentPage, history, historyLoading, fetchHistory]);
+  }, [signedIn, currentPage, history, historyLoading, fetchHistory]);
 
-  const toggleWatering = async (zoneId: string) => {
+  const toggleWatering = async (zoneId: string, durationMinutes: number = manualDuration) => {
     const zone = zones.find((z) => z.id === zoneId);
     if (!zone) return;
 
     setIsControlling(zoneId);
+    setControlError("");
     const newState = !zone.isWatering;
 
     try {
-      const response = await fetch(`/api/device/${zone.deviceId}`, {
+      const response = await apiFetch(`/api/device/${zone.deviceId}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           action: newState ? "on" : "off",
           zoneId: zone.id,
-          zoneName: zone.name,
-          eventId: newState ? undefined : zone.currentEventId,
+          durationMinutes: newState ? durationMinutes : undefined,
         }),
       });
 
       if (response.ok) {
         const data = await response.json();
-        const newEventId = newState ? data.eventId : null;
 
+        setNow(Date.now());
         setZones((prev) =>
           prev.map((z) =>
             z.id === zoneId
@@ -334,30 +509,17 @@ export default function Dashboard() {
                   ...z,
                   isWatering: newState,
                   lastWatered: newState ? z.lastWatered : new Date().toLocaleString(),
-                  currentEventId: newEventId,
+                  scheduledEndAt: newState ? data.scheduledEndAt ?? null : null,
                 }
               : z
           )
         );
 
-        try {
-          const savedEventIds = localStorage.getItem("wateringEventIds");
-          const eventIds: Record<string, string> = savedEventIds ? JSON.parse(savedEventIds) : {};
-          if (newEventId) {
-            eventIds[zoneId] = newEventId;
-          } else {
-            delete eventIds[zoneId];
-          }
-          localStorage.setItem("wateringEventIds", JSON.stringify(eventIds));
-        } catch (e) {
-          console.error("Failed to save event ID to localStorage:", e);
-        }
-
-        if (!newState) {
-          setTimeout(() => fetchHistory(), 1000);
-        }
+        setTimeout(() => fetchHistory(), 1000);
       } else {
-        console.error("Failed to control device");
+        // e.g. refused by the water restrictions
+        const data = await response.json().catch(() => ({}));
+        setControlError(data.error || `Failed to control ${zone.name}`);
       }
     } catch (error) {
       console.error("Error controlling device:", error);
@@ -366,6 +528,45 @@ export default function Dashboard() {
     }
   };
 
+  // Auto-water and schedules hold off until the delay ends; manual runs still work
+  const startRainDelay = async () => {
+    setRainDelaySaving(true);
+    setControlError("");
+    try {
+      const response = await apiFetch("/api/rain-delays", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zone_id: rainDelayZone || null, days: rainDelayDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setControlError(data.error || "Failed to set rain delay");
+        return;
+      }
+      await fetchRainDelays();
+    } catch (error) {
+      console.error("Error setting rain delay:", error);
+      setControlError("Failed to set rain delay");
+    } finally {
+      setRainDelaySaving(false);
+    }
+  };
+
+  const cancelRainDelay = async (delayId: string) => {
+    setControlError("");
+    try {
+      const response = await apiFetch(`/api/rain-delays/${delayId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setControlError(data.error || "Failed to cancel rain delay");
+      }
+      await fetchRainDelays();
+    } catch (error) {
+      console.error("Error cancelling rain delay:", error);
+      setControlError("Failed to cancel rain delay");
+    }
+  };
+
   const waterAll = async () => {
     for (const zone of zones) {
       if (!zone.isWatering) {
@@ -411,11 +612,28 @@ export default function Dashboard() {
     { id: "weather", label: "Weather", icon: "M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" },
     { id: "rain", label: "Rainfall", icon: "M3 15a4 4 0 004 4h9a5 5 0 10-.1-9.999 5.002 5.002 0 10-9.78 2.096A4.001 4.001 0 003 15z" },
     { id: "history", label: "History", icon: "M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" },
+    { id: "decisions", label: "Decisions", icon: "M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" },
     { id: "soil", label: "Soil", icon: "M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" },
-  ];
+    { id: "schedules", label: "Schedules", icon: "M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" },
+    { id: "policies", label: "Policies", icon: "M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" },
+    { id: "restrictions", label: "Restrictions", icon: "M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" },
+    { id: "zones", label: "Zones", icon: "M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7", ownerOnly: true },
+    { id: "users", label: "Users", icon: "M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z", ownerOnly: true },
+  ].filter((item) => !item.ownerOnly || isOwner);
+
+  // The session ended under us (401): stop the refresh timers until PinLock signs in again
+  const signOut = useCallback(() => setCurrentUser(null), []);
+
+  const logout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      window.location.reload();
+    }
+  };
 
   return (
-    <PinLock>
+    <PinLock onAuthenticated={setCurrentUser} onSignedOut={signOut}>
     <div className="min-h-screen bg-[#f5f0e8] lg:flex">
       {/* Mobile Header */}
       <header className="lg:hidden fixed top-0 left-0 right-0 z-30 bg-[#1a1a2e] text-white p-4 flex items-center justify-between shadow-lg">
@@ -516,6 +734,25 @@ export default function Dashboard() {
           ))}
         </nav>
 
+        {/* Signed-in User */}
+        {currentUser && (
+          <div className={`flex items-center ${sidebarCollapsed ? 'lg:justify-center' : 'justify-between'} gap-2 px-4 py-3 border-t border-white/10`}>
+            <div className={sidebarCollapsed ? 'lg:hidden' : ''}>
+              <div className="text-white text-sm font-medium">{currentUser.name}</div>
+              <div className="text-gray-400 text-xs capitalize">{currentUser.role}</div>
+            </div>
+            <button
+              onClick={logout}
+              className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+              title="Log out"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+              </svg>
+            </button>
+          </div>
+        )}
+
         {/* Collapse Toggle - Desktop only */}
         <button
           onClick={() => setSidebarCollapsed(!sidebarCollapsed)}
@@ -538,17 +775,60 @@ export default function Dashboard() {
               <p className="text-gray-500">Welcome back to your smart garden</p>
             </div>
 
+            {/* Rain Delay Banner */}
+            {rainDelays.length > 0 && (
+              <div className="mb-4 space-y-2">
+                {rainDelays.map((delay) => (
+                  <div
+                    key={delay.id}
+                    className="bg-sky-50 border-2 border-sky-200 text-sky-800 rounded-2xl p-4 flex items-center justify-between gap-4"
+                  >
+                    <div className="text-sm">
+                      <span className="font-semibold">
+                        Rain delay: {delay.zone_id ? zones.find((z) => z.id === delay.zone_id)?.name ?? delay.zone_id : "All zones"}
+                      </span>
+                      {" - "}no automatic or scheduled watering until {formatDelayEnd(delay.ends_at)}
+                      {delay.reason && <span className="text-sky-600"> ({delay.reason})</span>}
+                      {delay.created_by && <span className="text-sky-600"> · set by {delay.created_by}</span>}
+                    </div>
+                    {canWater && (
+                      <button
+                        onClick={() => cancelRainDelay(delay.id)}
+                        className="px-4 py-2 rounded-xl text-sm font-medium text-sky-700 hover:bg-sky-100 shrink-0"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Bento Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
 
               {/* Quick Actions - Spans 2 columns */}
               <div className="md:col-span-2 lg:col-span-2 bg-white rounded-3xl shadow-sm p-4 sm:p-6">
-                <h2 className="text-lg font-semibold text-gray-800 mb-4">Quick Actions</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-800">Quick Actions</h2>
+                  <label className="flex items-center gap-2 text-sm text-gray-500">
+                    Run for
+                    <select
+                      value={manualDuration}
+                      onChange={(e) => setManualDuration(Number(e.target.value))}
+                      className="bg-gray-50 border border-gray-200 rounded-xl px-2 py-1 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {MANUAL_DURATION_OPTIONS.map((minutes) => (
+                        <option key={minutes} value={minutes}>{`${minutes} min`}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
                 <div className="grid grid-cols-2 gap-2 sm:gap-3">
                   <button
                     className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white py-3 sm:py-4 px-3 sm:px-6 rounded-2xl font-medium transition-all flex items-center justify-center gap-2 sm:gap-3 shadow-lg shadow-blue-500/25 text-sm sm:text-base"
                     onClick={waterAll}
-                    disabled={!isConnected || isControlling !== null}
+                    disabled={!canWater || !isConnected || isControlling !== null}
                   >
                     <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
@@ -558,7 +838,7 @@ export default function Dashboard() {
                   <button
                     className="bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:from-red-300 disabled:to-red-400 text-white py-3 sm:py-4 px-3 sm:px-6 rounded-2xl font-medium transition-all flex items-center justify-center gap-2 sm:gap-3 shadow-lg shadow-red-500/25 text-sm sm:text-base"
                     onClick={stopAll}
-                    disabled={!isConnected || isControlling !== null}
+                    disabled={!canWater || !isConnected || isControlling !== null}
                   >
                     <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -567,6 +847,41 @@ export default function Dashboard() {
                     Stop All
                   </button>
                 </div>
+                {canWater && (
+                  <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                    Rain delay
+                    <select
+                      value={rainDelayZone}
+                      onChange={(e) => setRainDelayZone(e.target.value)}
+                      className="bg-gray-50 border border-gray-200 rounded-xl px-2 py-1 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">All zones</option>
+                      {zones.map((zone) => (
+                        <option key={zone.id} value={zone.id}>{zone.name}</option>
+                      ))}
+                    </select>
+                    for
+                    <select
+                      value={rainDelayDays}
+                      onChange={(e) => setRainDelayDays(Number(e.target.value))}
+                      className="bg-gray-50 border border-gray-200 rounded-xl px-2 py-1 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {RAIN_DELAY_DAYS.map((days) => (
+                        <option key={days} value={days}>{days === 1 ? "1 day" : `${days} days`}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={startRainDelay}
+                      disabled={rainDelaySaving}
+                      className="px-4 py-1.5 rounded-xl font-medium bg-sky-100 text-sky-700 hover:bg-sky-200 disabled:opacity-50"
+                    >
+                      {rainDelaySaving ? "Saving..." : "Delay"}
+                    </button>
+                  </div>
+                )}
+                {controlError && (
+                  <div className="mt-3 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-3 text-sm">{controlError}</div>
+                )}
               </div>
 
               {/* Status Card */}
@@ -606,17 +921,28 @@ export default function Dashboard() {
                     className="w-full h-auto rounded-2xl"
                     priority
                   />
-                  <button
-                    onClick={() => setSelectedZone("zone-1")}
-                    className="absolute bg-blue-500/40 border-2 border-blue-500 hover:bg-blue-500/60 transition-colors cursor-pointer rounded-lg"
-                    style={{
-                      bottom: "8%",
-                      right: "4%",
-                      width: "48%",
-                      height: "10%",
-                    }}
-                    title="Front Right Garden Hedges"
-                  />
+                  <div className="absolute inset-0 px-6">
+                  <svg
+                    className="w-full h-full"
+                    viewBox="0 0 100 100"
+                    preserveAspectRatio="none"
+                  >
+                    {zones
+                      .filter((zone) => zone.mapPolygon && zone.mapPolygon.length >= 3)
+                      .map((zone) => (
+                        <polygon
+                          key={zone.id}
+                          points={zone.mapPolygon!.map(([x, y]) => `${x},${y}`).join(" ")}
+                          onClick={() => setSelectedZone(zone.id)}
+                          className="fill-blue-500/40 stroke-blue-500 hover:fill-blue-500/60 transition-colors cursor-pointer"
+                          strokeWidth={2}
+                          vectorEffect="non-scaling-stroke"
+                        >
+                          <title>{zone.name}</title>
+                        </polygon>
+                      ))}
+                  </svg>
+                  </div>
                 </div>
                 <div className="p-4">
                   <div className="flex items-center justify-center gap-6 text-xs">
@@ -658,7 +984,7 @@ export default function Dashboard() {
                         e.stopPropagation();
                         toggleWatering(zone.id);
                       }}
-                      disabled={!isConnected || isControlling === zone.id}
+                      disabled={!canWater || !isConnected || isControlling === zone.id}
                       className={`w-16 h-8 rounded-full transition-colors relative ${
                         zone.isWatering ? "bg-blue-500" : "bg-gray-300"
                       } ${isControlling === zone.id ? "opacity-50" : ""} ${!isConnected ? "opacity-50 cursor-not-allowed" : ""}`}
@@ -712,12 +1038,32 @@ export default function Dashboard() {
                       <svg className="w-5 h-5 animate-bounce" fill="currentColor" viewBox="0 0 24 24">
                         <path d="M12 2c-5.33 4.55-8 8.48-8 11.8 0 4.98 3.8 8.2 8 8.2s8-3.22 8-8.2c0-3.32-2.67-7.25-8-11.8zm0 18c-3.35 0-6-2.57-6-6.2 0-2.34 1.95-5.44 6-9.14 4.05 3.7 6 6.79 6 9.14 0 3.63-2.65 6.2-6 6.2z" />
                       </svg>
-                      <span className="text-sm font-medium">Watering in progress...</span>
+                      <span className="text-sm font-medium">
+                        {zone.scheduledEndAt
+                          ? `Watering - ${formatCountdown(zone.scheduledEndAt, now)} remaining`
+                          : "Watering in progress..."}
+                      </span>
                     </div>
                   )}
                 </div>
               ))}
 
+              {/* No Zones Yet */}
+              {zonesLoaded && zones.length === 0 && (
+                <div className="md:col-span-2 lg:col-span-2 bg-white rounded-3xl shadow-sm p-4 sm:p-6 text-center">
+                  <h3 className="font-semibold text-gray-800 mb-1">No zones configured</h3>
+                  <p className="text-sm text-gray-500 mb-3">Add a zone to link a tap and soil sensor.</p>
+                  {isOwner && (
+                    <button
+                      onClick={() => setCurrentPage("zones")}
+                      className="text-sm font-medium text-blue-500 hover:text-blue-600"
+                    >
+                      Manage Zones
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Statistics Bento */}
               <div className="bg-[#e8d5c4] rounded-3xl shadow-sm p-4 sm:p-6">
                 <h3 className="text-xs sm:text-sm font-medium text-[#8b7355] mb-2 sm:mb-3">This Week</h3>
@@ -828,7 +1174,11 @@ export default function Dashboard() {
                       <div className="flex items-center justify-between p-4 bg-gray-50 rounded-2xl">
                         <span className="text-gray-600">Status</span>
                         <span className={`font-semibold ${zone.isWatering ? "text-blue-500" : "text-gray-500"}`}>
-                          {zone.isWatering ? "Watering" : "Idle"}
+                          {zone.isWatering
+                            ? zone.scheduledEndAt
+                              ? `Watering (${formatCountdown(zone.scheduledEndAt, now)} left)`
+                              : "Watering"
+                            : "Idle"}
                         </span>
                       </div>
 
@@ -888,9 +1238,34 @@ export default function Dashboard() {
                         )}
                       </div>
 
+                      {!zone.isWatering && (
+                        <div>
+                          <span className="block text-sm text-gray-600 mb-2">Duration</span>
+                          <div className="grid grid-cols-4 gap-2">
+                            {MANUAL_DURATION_OPTIONS.map((minutes) => (
+                              <button
+                                key={minutes}
+                                onClick={() => setManualDuration(minutes)}
+                                className={`py-2 rounded-xl text-sm font-medium transition-colors ${
+                                  manualDuration === minutes
+                                    ? "bg-blue-500 text-white"
+                                    : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+                                }`}
+                              >
+                                {minutes}m
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {controlError && (
+                        <div className="bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-3 text-sm">{controlError}</div>
+                      )}
+
                       <button
                         onClick={() => toggleWatering(zone.id)}
-                        disabled={!isConnected || isControlling === zone.id}
+                        disabled={!canWater || !isConnected || isControlling === zone.id}
                         className={`w-full py-4 rounded-2xl font-semibold transition-all ${
                           zone.isWatering
                             ? "bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white shadow-lg shadow-red-500/25"
@@ -908,7 +1283,7 @@ export default function Dashboard() {
                         ) : zone.isWatering ? (
                           "Stop Watering"
                         ) : (
-                          "Start Watering"
+                          `Start Watering (${manualDuration} min)`
                         )}
                       </button>
                     </div>
@@ -972,6 +1347,61 @@ export default function Dashboard() {
                   <div className="text-4xl font-bold">{weather.recentRainfall.last7days} mm</div>
                 </div>
 
+                {/* Evapotranspiration */}
+                <div className="bg-gradient-to-br from-amber-400 to-orange-500 rounded-3xl p-6 text-white">
+                  <h3 className="text-amber-100 text-sm font-medium mb-2">Evaporation (ET0) Last 7 Days</h3>
+                  <div className="text-4xl font-bold">{weather.evapotranspiration.last7days} mm</div>
+                  <div className="text-sm text-amber-100 mt-1">{weather.evapotranspiration.today} mm forecast today</div>
+                </div>
+
+                <div className="bg-white rounded-3xl p-6">
+                  <h3 className="text-gray-500 text-sm font-medium mb-2">Rain minus Evaporation</h3>
+                  <div className={`text-4xl font-bold ${weather.recentRainfall.last7days >= weather.evapotranspiration.last7days ? "text-green-600" : "text-orange-600"}`}>
+                    {Math.round((weather.recentRainfall.last7days - weather.evapotranspiration.last7days) * 10) / 10} mm
+                  </div>
+                  <div className="text-sm text-gray-500 mt-1">Last 7 days</div>
+                </div>
+
+                {/* Zone Water Balance */}
+                {weather.waterBalance && zones.some((zone) => weather.waterBalance?.[zone.id]) && (
+                  <div className="md:col-span-2 bg-white rounded-3xl p-6">
+                    <h2 className="text-lg font-semibold text-gray-800 mb-1">Soil Water Balance</h2>
+                    <p className="text-sm text-gray-500 mb-4">
+                      Estimated water used from each zone&apos;s root zone since it was last topped up by rain or watering
+                    </p>
+                    <div className="space-y-4">
+                      {zones.map((zone) => {
+                        const balance = weather.waterBalance?.[zone.id];
+                        if (!balance) return null;
+                        const stressed = balance.depletionMm >= balance.readilyAvailableMm;
+                        return (
+                          <div key={zone.id}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                              <span className="font-medium text-gray-800">{zone.name}</span>
+                              <span className={stressed ? "text-orange-600" : "text-gray-600"}>
+                                {balance.depletionMm} / {balance.capacityMm} mm used
+                              </span>
+                            </div>
+                            <div className="relative h-3 bg-blue-100 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full rounded-full ${stressed ? "bg-orange-500" : "bg-blue-500"}`}
+                                style={{ width: `${Math.min(100, balance.depletionPercent)}%` }}
+                              />
+                              <div
+                                className="absolute top-0 h-full w-0.5 bg-gray-700"
+                                style={{ left: `${(balance.readilyAvailableMm / balance.capacityMm) * 100}%` }}
+                              />
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                              Crop coefficient {balance.cropCoefficient} · uses ~{balance.todayCropEt} mm today · stress past {balance.readilyAvailableMm} mm
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Current Conditions */}
                 <div className="md:col-span-2 bg-white rounded-3xl p-6">
                   <h2 className="text-lg font-semibold text-gray-800 mb-4">Current Conditions</h2>
@@ -1261,7 +1691,7 @@ export default function Dashboard() {
               <p className="text-gray-500">Monitor soil conditions across your garden</p>
             </div>
 
-            {soilSensorLoading && !soilSensor && (
+            {soilSensorLoading && !soilSensors && (
               <div className="flex items-center justify-center py-12">
                 <svg className="w-8 h-8 animate-spin text-green-500" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -1270,164 +1700,175 @@ export default function Dashboard() {
               </div>
             )}
 
-            {soilSensor && (
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {/* Sensor Header */}
-                <div className="md:col-span-3 bg-gradient-to-r from-green-500 to-emerald-600 rounded-3xl p-6 text-white">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <div className="flex items-center gap-2 mb-2">
-                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <span className="font-medium">{soilSensor.name}</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <span className={`w-2 h-2 rounded-full ${soilSensor.online ? "bg-green-300" : "bg-red-300"}`} />
-                        <span className="text-sm text-green-100">
-                          {soilSensor.online ? "Online" : "Offline"}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-green-100 text-sm">Last updated</div>
-                      <div className="text-sm">
-                        {new Date(soilSensor.lastUpdated).toLocaleTimeString("en-AU", {
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
+            {soilSensors && soilSensors.length > 0 && (
+              <div className="space-y-8">
+                {soilSensors.map((soilSensor) => (
+                  <div key={soilSensor.zoneId} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {/* Sensor Header */}
+                    <div className="md:col-span-3 bg-gradient-to-r from-green-500 to-emerald-600 rounded-3xl p-6 text-white">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="flex items-center gap-2 mb-2">
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            <span className="font-medium">{soilSensor.name}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className={`w-2 h-2 rounded-full ${soilSensor.online ? "bg-green-300" : "bg-red-300"}`} />
+                            <span className="text-sm text-green-100">
+                              {soilSensor.online ? "Online" : "Offline"}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-green-100 text-sm">Last updated</div>
+                          <div className="text-sm">
+                            {new Date(soilSensor.lastUpdated).toLocaleTimeString("en-AU", {
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })}
+                          </div>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </div>
 
-                {/* Moisture Card */}
-                <div className="bg-white rounded-3xl p-6">
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className="p-3 bg-blue-100 rounded-2xl">
-                      <svg className="w-6 h-6 text-blue-600" fill="currentColor" viewBox="0 0 24 24">
-                        <path d="M12 2c-5.33 4.55-8 8.48-8 11.8 0 4.98 3.8 8.2 8 8.2s8-3.22 8-8.2c0-3.32-2.67-7.25-8-11.8z" />
-                      </svg>
-                    </div>
-                    <div>
-                      <div className="text-sm text-gray-500">Soil Moisture</div>
-                      <div className="text-2xl font-bold text-gray-800">
-                        {soilSensor.moisture !== null ? `${soilSensor.moisture}%` : "--"}
+                    {/* Moisture Card */}
+                    <div className="bg-white rounded-3xl p-6">
+                      <div className="flex items-center gap-3 mb-4">
+                        <div className="p-3 bg-blue-100 rounded-2xl">
+                          <svg className="w-6 h-6 text-blue-600" fill="currentColor" viewBox="0 0 24 24">
+                            <path d="M12 2c-5.33 4.55-8 8.48-8 11.8 0 4.98 3.8 8.2 8 8.2s8-3.22 8-8.2c0-3.32-2.67-7.25-8-11.8z" />
+                          </svg>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-500">Soil Moisture</div>
+                          <div className="text-2xl font-bold text-gray-800">
+                            {soilSensor.moisture !== null ? `${soilSensor.moisture}%` : "--"}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-3">
-                    <div
-                      className={`h-3 rounded-full transition-all ${
-                        soilSensor.moisture !== null && soilSensor.moisture < 25
-                          ? "bg-red-500"
-                          : soilSensor.moisture !== null && soilSensor.moisture < 50
-                            ? "bg-yellow-500"
-                            : "bg-green-500"
-                      }`}
-                      style={{ width: `${soilSensor.moisture || 0}%` }}
-                    />
-                  </div>
-                  <div className="flex justify-between text-xs text-gray-500 mt-2">
-                    <span>Dry</span>
-                    <span>Optimal</span>
-                    <span>Wet</span>
-                  </div>
-                </div>
-
-                {/* Temperature Card */}
-                <div className="bg-white rounded-3xl p-6">
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className="p-3 bg-orange-100 rounded-2xl">
-                      <svg className="w-6 h-6 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                      </svg>
-                    </div>
-                    <div>
-                      <div className="text-sm text-gray-500">Soil Temperature</div>
-                      <div className="text-2xl font-bold text-gray-800">
-                        {soilSensor.temperature !== null ? `${soilSensor.temperature.toFixed(1)}°C` : "--"}
+                      <div className="w-full bg-gray-200 rounded-full h-3">
+                        <div
+                          className={`h-3 rounded-full transition-all ${
+                            soilSensor.moisture !== null && soilSensor.moisture < 25
+                              ? "bg-red-500"
+                              : soilSensor.moisture !== null && soilSensor.moisture < 50
+                                ? "bg-yellow-500"
+                                : "bg-green-500"
+                          }`}
+                          style={{ width: `${soilSensor.moisture || 0}%` }}
+                        />
+                      </div>
+                      <div className="flex justify-between text-xs text-gray-500 mt-2">
+                        <span>Dry</span>
+                        <span>Optimal</span>
+                        <span>Wet</span>
                       </div>
                     </div>
-                  </div>
-                  <div className="text-sm text-gray-500">
-                    {soilSensor.temperature !== null && soilSensor.temperature < 10
-                      ? "Cold - root growth slowed"
-                      : soilSensor.temperature !== null && soilSensor.temperature > 30
-                        ? "Hot - water more frequently"
-                        : "Ideal for plant growth"}
-                  </div>
-                </div>
 
-                {/* Battery Card */}
-                <div className="bg-white rounded-3xl p-6">
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className={`p-3 rounded-2xl ${
-                      soilSensor.battery !== null && soilSensor.battery < 20
-                        ? "bg-red-100"
-                        : "bg-green-100"
-                    }`}>
-                      <svg className={`w-6 h-6 ${
-                        soilSensor.battery !== null && soilSensor.battery < 20
-                          ? "text-red-600"
-                          : "text-green-600"
-                      }`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7h14a2 2 0 012 2v6a2 2 0 01-2 2H3a2 2 0 01-2-2V9a2 2 0 012-2zm18 4v2" />
-                      </svg>
-                    </div>
-                    <div>
-                      <div className="text-sm text-gray-500">Battery Level</div>
-                      <div className="text-2xl font-bold text-gray-800">
-                        {soilSensor.battery !== null ? `${soilSensor.battery}%` : "--"}
+                    {/* Temperature Card */}
+                    <div className="bg-white rounded-3xl p-6">
+                      <div className="flex items-center gap-3 mb-4">
+                        <div className="p-3 bg-orange-100 rounded-2xl">
+                          <svg className="w-6 h-6 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                          </svg>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-500">Soil Temperature</div>
+                          <div className="text-2xl font-bold text-gray-800">
+                            {soilSensor.temperature !== null ? `${soilSensor.temperature.toFixed(1)}°C` : "--"}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {soilSensor.temperature !== null && soilSensor.temperature < 10
+                          ? "Cold - root growth slowed"
+                          : soilSensor.temperature !== null && soilSensor.temperature > 30
+                            ? "Hot - water more frequently"
+                            : "Ideal for plant growth"}
                       </div>
                     </div>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-3">
-                    <div
-                      className={`h-3 rounded-full transition-all ${
-                        soilSensor.battery !== null && soilSensor.battery < 20
-                          ? "bg-red-500"
-                          : soilSensor.battery !== null && soilSensor.battery < 50
-                            ? "bg-yellow-500"
-                            : "bg-green-500"
-                      }`}
-                      style={{ width: `${soilSensor.battery || 0}%` }}
-                    />
-                  </div>
-                </div>
 
-                {/* Linked Zone */}
-                <div className="md:col-span-3 bg-white rounded-3xl p-6">
-                  <h2 className="text-lg font-semibold text-gray-800 mb-4">Linked Zone</h2>
-                  <div className="flex items-center justify-between p-4 bg-gray-50 rounded-2xl">
-                    <div className="flex items-center gap-4">
-                      <div className="p-3 bg-blue-100 rounded-2xl">
-                        <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
-                        </svg>
+                    {/* Battery Card */}
+                    <div className="bg-white rounded-3xl p-6">
+                      <div className="flex items-center gap-3 mb-4">
+                        <div className={`p-3 rounded-2xl ${
+                          soilSensor.battery !== null && soilSensor.battery < 20
+                            ? "bg-red-100"
+                            : "bg-green-100"
+                        }`}>
+                          <svg className={`w-6 h-6 ${
+                            soilSensor.battery !== null && soilSensor.battery < 20
+                              ? "text-red-600"
+                              : "text-green-600"
+                          }`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7h14a2 2 0 012 2v6a2 2 0 01-2 2H3a2 2 0 01-2-2V9a2 2 0 012-2zm18 4v2" />
+                          </svg>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-500">Battery Level</div>
+                          <div className="text-2xl font-bold text-gray-800">
+                            {soilSensor.battery !== null ? `${soilSensor.battery}%` : "--"}
+                          </div>
+                        </div>
                       </div>
-                      <div>
-                        <div className="font-medium text-gray-800">Front Right Garden Hedges</div>
-                        <div className="text-sm text-gray-500">Leighton Greens</div>
+                      <div className="w-full bg-gray-200 rounded-full h-3">
+                        <div
+                          className={`h-3 rounded-full transition-all ${
+                            soilSensor.battery !== null && soilSensor.battery < 20
+                              ? "bg-red-500"
+                              : soilSensor.battery !== null && soilSensor.battery < 50
+                                ? "bg-yellow-500"
+                                : "bg-green-500"
+                          }`}
+                          style={{ width: `${soilSensor.battery || 0}%` }}
+                        />
                       </div>
                     </div>
-                    <div className="text-right">
-                      <div className="text-sm text-gray-500">Current Moisture</div>
-                      <div className={`font-semibold ${
-                        soilSensor.moisture !== null && soilSensor.moisture < 25
-                          ? "text-red-600"
-                          : soilSensor.moisture !== null && soilSensor.moisture < 50
-                            ? "text-yellow-600"
-                            : "text-green-600"
-                      }`}>
-                        {soilSensor.moisture !== null ? `${soilSensor.moisture}%` : "--"}
+
+                    {/* Linked Zone */}
+                    <div className="md:col-span-3 bg-white rounded-3xl p-6">
+                      <h2 className="text-lg font-semibold text-gray-800 mb-4">Linked Zone</h2>
+                      <div className="flex items-center justify-between p-4 bg-gray-50 rounded-2xl">
+                        <div className="flex items-center gap-4">
+                          <div className="p-3 bg-blue-100 rounded-2xl">
+                            <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                            </svg>
+                          </div>
+                          <div>
+                            <div className="font-medium text-gray-800">{soilSensor.zoneName}</div>
+                            {soilSensor.plantType && (
+                              <div className="text-sm text-gray-500">{soilSensor.plantType}</div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-sm text-gray-500">Current Moisture</div>
+                          <div className={`font-semibold ${
+                            soilSensor.moisture !== null && soilSensor.moisture < 25
+                              ? "text-red-600"
+                              : soilSensor.moisture !== null && soilSensor.moisture < 50
+                                ? "text-yellow-600"
+                                : "text-green-600"
+                          }`}>
+                            {soilSensor.moisture !== null ? `${soilSensor.moisture}%` : "--"}
+                          </div>
+                        </div>
                       </div>
                     </div>
+
+                    {/* Moisture / Temperature History */}
+                    <div className="md:col-span-3">
+                      <SoilHistoryChart zoneId={soilSensor.zoneId} />
+                    </div>
                   </div>
-                </div>
+                ))}
 
                 {/* Refresh Button */}
-                <div className="md:col-span-3 text-center">
+                <div className="text-center">
                   <button
                     onClick={fetchSoilSensor}
                     disabled={soilSensorLoading}
@@ -1439,15 +1880,21 @@ export default function Dashboard() {
               </div>
             )}
 
-            {!soilSensor && !soilSensorLoading && (
+            {(!soilSensors || soilSensors.length === 0) && !soilSensorLoading && (
               <div className="bg-amber-50 border-2 border-amber-200 rounded-3xl p-8 text-center">
                 <div className="w-16 h-16 mx-auto bg-amber-100 rounded-full flex items-center justify-center mb-4">
                   <svg className="w-8 h-8 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                 </div>
-                <h2 className="text-xl font-semibold text-gray-800 mb-2">Sensor Not Connected</h2>
-                <p className="text-gray-600 mb-4">Unable to connect to the soil sensor. Check that it&apos;s online in the Tuya app.</p>
+                <h2 className="text-xl font-semibold text-gray-800 mb-2">
+                  {soilSensors ? "No Sensors Linked" : "Sensor Not Connected"}
+                </h2>
+                <p className="text-gray-600 mb-4">
+                  {soilSensors
+                    ? "None of your zones have a soil sensor linked yet."
+                    : "Unable to connect to the soil sensor. Check that it's online in the Tuya app."}
+                </p>
                 <button
                   onClick={fetchSoilSensor}
                   className="text-amber-600 hover:text-amber-700 font-medium"
@@ -1499,6 +1946,42 @@ export default function Dashboard() {
                   <div className="text-3xl font-bold">{Math.round(history.stats.averageDurationSeconds / 60)}m</div>
                 </div>
 
+                {/* Run Effectiveness */}
+                {Object.keys(history.effectivenessByZone).length > 0 && (
+                  <div className="col-span-2 md:col-span-4 bg-white rounded-3xl p-6">
+                    <h2 className="text-lg font-semibold text-gray-800 mb-1">Run Effectiveness</h2>
+                    <p className="text-sm text-gray-500 mb-4">Average soil moisture response per zone, from sensor readings around each run</p>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="pb-2 font-medium">Zone</th>
+                            <th className="pb-2 font-medium text-right">Runs</th>
+                            <th className="pb-2 font-medium text-right">Gain</th>
+                            <th className="pb-2 font-medium text-right">Per minute</th>
+                            <th className="pb-2 font-medium text-right">Peak after</th>
+                            <th className="pb-2 font-medium text-right">Drying</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {Object.entries(history.effectivenessByZone).map(([zoneId, summary]) => (
+                            <tr key={zoneId} className="border-t border-gray-100 text-gray-800">
+                              <td className="py-2">{zones.find((z) => z.id === zoneId)?.name || zoneId}</td>
+                              <td className="py-2 text-right">{summary.runs}</td>
+                              <td className="py-2 text-right">{summary.averageGain}%</td>
+                              <td className="py-2 text-right">{summary.averageGainPerMinute}%</td>
+                              <td className="py-2 text-right">{formatMinutes(summary.averageTimeToPeakMinutes)}</td>
+                              <td className="py-2 text-right">
+                                {summary.averageDecayPerDay !== null ? `${summary.averageDecayPerDay}%/day` : "--"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
                 {/* Recent Events */}
                 <div className="col-span-2 md:col-span-4 bg-white rounded-3xl p-6">
                   <h2 className="text-lg font-semibold text-gray-800 mb-4">Recent Watering Events</h2>
@@ -1518,6 +2001,7 @@ export default function Dashboard() {
                         const duration = event.duration_seconds
                           ? `${Math.floor(event.duration_seconds / 60)}m ${event.duration_seconds % 60}s`
                           : "In progress";
+                        const effect = event.effectiveness;
 
                         return (
                           <div
@@ -1533,13 +2017,31 @@ export default function Dashboard() {
                                   {" at "}
                                   {startDate.toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })}
                                 </div>
+                                {event.weather_snapshots && (
+                                  <div className="text-xs text-gray-500 mt-1">
+                                    {`${Math.round(event.weather_snapshots.temperature)}°C, ${event.weather_snapshots.weather_description}, `}
+                                    {`${event.weather_snapshots.humidity}% humidity, ${event.weather_snapshots.rainfall_last_24h}mm rain last 24h`}
+                                  </div>
+                                )}
+                                {effect?.status === "analysed" && (
+                                  <div className="text-xs text-gray-500 mt-1">
+                                    <span className={effect.moistureGain! > 0 ? "text-green-600" : "text-red-600"}>
+                                      {effect.moistureGain! > 0 ? "+" : ""}{effect.moistureGain}% moisture
+                                    </span>
+                                    {` (${effect.baselineMoisture}% → ${effect.peakMoisture}%), peak after ${formatMinutes(effect.timeToPeakMinutes!)}`}
+                                    {effect.decayPerDay !== null && `, drying ${effect.decayPerDay}%/day`}
+                                  </div>
+                                )}
                               </div>
                             </div>
                             <div className="text-right">
                               <div className={`font-medium ${event.ended_at ? "text-gray-800" : "text-blue-500"}`}>
                                 {duration}
                               </div>
-                              <div className="text-sm text-gray-500 capitalize">{event.trigger}</div>
+                              <div className="text-sm text-gray-500">
+                                <span className="capitalize">{event.trigger}</span>
+                                {event.actor && ` by ${event.actor}`}
+                              </div>
                             </div>
                           </div>
                         );
@@ -1582,6 +2084,30 @@ export default function Dashboard() {
             )}
           </div>
         )}
+        {/* Zones Page */}
+        {currentPage === "zones" && isOwner && (
+          <ZoneManager
+            onZonesChanged={() => {
+              fetchZones();
+              fetchSoilSensor();
+            }}
+          />
+        )}
+
+        {/* Decisions Page */}
+        {currentPage === "decisions" && <DecisionLog />}
+
+        {/* Schedules Page */}
+        {currentPage === "schedules" && <ScheduleManager canEdit={isOwner} />}
+
+        {/* Watering Policies Page */}
+        {currentPage === "policies" && <PolicyManager canEdit={isOwner} />}
+
+        {/* Water Restrictions Page */}
+        {currentPage === "restrictions" && <RestrictionSettings canEdit={isOwner} />}
+
+        {/* Users Page */}
+        {currentPage === "users" && isOwner && <UserManager currentUserId={currentUser?.id ?? null} />}
       </main>
     </div>
     </PinLock>
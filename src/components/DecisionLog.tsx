@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api-client";
+
+interface DecisionRecord {
+  id: string;
+  zone_id: string;
+  decided_at: string;
+  moisture_percent: number;
+  soil_temperature: number | null;
+  last_watered_days_ago: number | null;
+  waterings_this_week: number;
+  prompt_version: string;
+  raw_response: string | null;
+  should_water: boolean;
+  duration_minutes: number;
+  reason: string;
+  confidence: "high" | "medium" | "low";
+  fallback_used: boolean;
+  mode: "ai" | "rules";
+  veto_reason: string | null;
+  validation_error: string | null;
+  action: "started" | "none" | "error";
+  error: string | null;
+  zones?: { name: string } | null;
+  weather_snapshots?: {
+    temperature: number;
+    humidity: number;
+    weather_description: string;
+    rainfall_last_24h: number;
+    rainfall_last_7days: number;
+  } | null;
+}
+
+const ACTION_STYLES: Record<DecisionRecord["action"], { label: string; dot: string; text: string }> = {
+  started: { label: "Watered", dot: "bg-blue-500", text: "text-blue-600" },
+  none: { label: "Not watered", dot: "bg-gray-400", text: "text-gray-600" },
+  error: { label: "Failed", dot: "bg-red-500", text: "text-red-600" },
+};
+
+function describeAction(decision: DecisionRecord): string {
+  if (decision.action === "started") return `Watered for ${decision.duration_minutes} min`;
+  if (decision.action === "error") return `Wanted ${decision.duration_minutes} min - ${decision.error || "failed to start"}`;
+  return "Not watered";
+}
+
+export default function DecisionLog() {
+  const [decisions, setDecisions] = useState<DecisionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const fetchDecisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiFetch("/api/decisions?limit=100");
+      const data = await response.json();
+      if (response.ok) {
+        setDecisions(data.decisions);
+        setError("");
+      } else {
+        setError(data.error || "Failed to load decisions");
+      }
+    } catch (err) {
+      console.error("Failed to fetch decisions:", err);
+      setError("Failed to load decisions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDecisions();
+  }, [fetchDecisions]);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Decisions</h1>
+        <p className="text-gray-500">Why the garden was or wasn&apos;t watered on each auto-water run</p>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-4 text-sm">{error}</div>
+      )}
+
+      {loading && decisions.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <svg className="w-8 h-8 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+        </div>
+      ) : decisions.length === 0 ? (
+        <div className="bg-white rounded-3xl p-8 text-center text-gray-500">
+          No decisions yet. Each auto-water run logs one per zone with a soil sensor.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {decisions.map((decision) => {
+            const style = ACTION_STYLES[decision.action];
+            const decidedAt = new Date(decision.decided_at);
+            const weather = decision.weather_snapshots;
+
+            return (
+              <div key={decision.id} className="bg-white rounded-3xl shadow-sm p-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <div className={`w-3 h-3 rounded-full mt-1.5 ${style.dot}`} />
+                    <div>
+                      <div className="font-semibold text-gray-800">{decision.zones?.name || decision.zone_id}</div>
+                      <div className="text-sm text-gray-500">
+                        {decidedAt.toLocaleDateString("en-AU", { weekday: "short", day: "numeric", month: "short" })}
+                        {" at "}
+                        {decidedAt.toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className={`font-medium ${style.text}`}>{describeAction(decision)}</div>
+                    <div className="text-xs text-gray-500 capitalize">
+                      {decision.mode === "rules" ? "Rules engine" : `${decision.confidence} confidence`}
+                      {decision.fallback_used && <span className="ml-1 normal-case text-amber-600">(fallback rule)</span>}
+                      {decision.veto_reason && <span className="ml-1 normal-case text-red-600">(vetoed)</span>}
+                    </div>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-700 mt-3">{decision.reason}</p>
+                {decision.validation_error && (
+                  <p className="text-xs text-amber-700 mt-1">Rejected model output: {decision.validation_error}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2 mt-3 text-xs">
+                  <span className="bg-blue-50 text-blue-700 rounded-lg px-2 py-1">Moisture {decision.moisture_percent}%</span>
+                  {decision.soil_temperature !== null && (
+                    <span className="bg-orange-50 text-orange-700 rounded-lg px-2 py-1">Soil {decision.soil_temperature}°C</span>
+                  )}
+                  <span className="bg-gray-100 text-gray-700 rounded-lg px-2 py-1">
+                    Last watered {decision.last_watered_days_ago !== null ? `${decision.last_watered_days_ago}d ago` : "unknown"}
+                  </span>
+                  <span className="bg-gray-100 text-gray-700 rounded-lg px-2 py-1">{decision.waterings_this_week} this week</span>
+                  {weather ? (
+                    <span className="bg-sky-50 text-sky-700 rounded-lg px-2 py-1">
+                      {Math.round(weather.temperature)}°C {weather.weather_description}, {weather.rainfall_last_24h}mm / 24h, {weather.rainfall_last_7days}mm / 7d
+                    </span>
+                  ) : (
+                    <span className="bg-gray-100 text-gray-500 rounded-lg px-2 py-1">No weather data</span>
+                  )}
+                </div>
+
+                {decision.raw_response && (
+                  <details className="mt-3">
+                    <summary className="text-xs text-gray-500 cursor-pointer">
+                      Model output (prompt v{decision.prompt_version})
+                    </summary>
+                    <pre className="mt-2 bg-gray-50 rounded-xl p-3 text-xs text-gray-700 whitespace-pre-wrap break-words">
+                      {decision.raw_response}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="text-center">
+            <button
+              onClick={fetchDecisions}
+              disabled={loading}
+              className="text-blue-500 hover:text-blue-600 text-sm font-medium disabled:opacity-50"
+            >
+              {loading ? "Refreshing..." : "Refresh Decisions"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,72 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import Image from "next/image";
+import { SESSION_EXPIRED_EVENT } from "@/lib/api-client";
 
-const PIN_CODE = "110171";
-const STORAGE_KEY = "watering_app_auth";
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: "owner" | "gardener" | "viewer";
+}
 
 interface PinLockProps {
   children: React.ReactNode;
+  onAuthenticated?: (user: SessionUser) => void;
+  // Called when an API call finds the session has ended
+  onSignedOut?: () => void;
 }
 
-export default function PinLock({ children }: PinLockProps) {
+// Not secret - just saves retyping your name on a shared household device
+const LAST_NAME_KEY = "watering_app_last_user";
+
+export default function PinLock({ children, onAuthenticated, onSignedOut }: PinLockProps) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [usersConfigured, setUsersConfigured] = useState(false);
+  const [name, setName] = useState("");
   const [pin, setPin] = useState("");
   const [error, setError] = useState("");
   const [rememberBrowser, setRememberBrowser] = useState(true);
+  const [verifying, setVerifying] = useState(false);
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
+  // The session cookie is HTTP-only, so ask the server whether it's still valid
+  const checkSession = useCallback(() => {
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.authenticated) {
+          onAuthenticated?.(data.user);
+        } else {
+          setUsersConfigured(data.usersConfigured === true);
+          setName(localStorage.getItem(LAST_NAME_KEY) || "");
+        }
+        setIsAuthenticated(data.authenticated === true);
+      })
+      .catch(() => setIsAuthenticated(false));
+  }, [onAuthenticated]);
+
+  useEffect(() => {
+    checkSession();
+  }, [checkSession]);
+
+  // An API call got a 401 (session expired or revoked) - back to the PIN screen. Only while
+  // signed in: a late reply after logging out is no news.
   useEffect(() => {
-    // Check if browser is remembered
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored === "authenticated") {
-      setIsAuthenticated(true);
-    } else {
+    if (!isAuthenticated) return;
+    const handleExpired = () => {
+      onSignedOut?.();
       setIsAuthenticated(false);
-    }
-  }, []);
+      setPin("");
+      setError("Your session has ended. Please log in again.");
+      checkSession(); // picks up whether to ask for a name
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, [isAuthenticated, checkSession, onSignedOut]);
 
   const handlePinChange = (index: number, value: string) => {
-    if (!/^\d*$/.test(value)) return; // Only allow digits
+    if (verifying || !/^\d*$/.test(value)) return; // Only allow digits
 
     const newPin = pin.split("");
     newPin[index] = value;
@@ -53,17 +91,33 @@ export default function PinLock({ children }: PinLockProps) {
     }
   };
 
-  const verifyPin = (enteredPin: string) => {
-    if (enteredPin === PIN_CODE) {
-      if (rememberBrowser) {
-        localStorage.setItem(STORAGE_KEY, "authenticated");
+  const verifyPin = async (enteredPin: string) => {
+    setVerifying(true);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, pin: enteredPin, remember: rememberBrowser }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        if (usersConfigured) localStorage.setItem(LAST_NAME_KEY, name);
+        onAuthenticated?.(data.user);
+        setIsAuthenticated(true);
+        return;
       }
-      setIsAuthenticated(true);
-    } else {
-      setError("Incorrect PIN");
-      setPin("");
-      inputRefs.current[0]?.focus();
+
+      setError(data.error || "Incorrect PIN");
+    } catch (err) {
+      console.error("Login error:", err);
+      setError("Connection error. Please try again.");
+    } finally {
+      setVerifying(false);
     }
+
+    setPin("");
+    inputRefs.current[0]?.focus();
   };
 
   // Show nothing while checking auth status
@@ -96,7 +150,24 @@ export default function PinLock({ children }: PinLockProps) {
           <h1 className="text-2xl font-bold text-center text-gray-800 mb-2">
             The Water App
           </h1>
-          <p className="text-gray-500 text-center mb-8">Enter PIN to continue</p>
+          <p className="text-gray-500 text-center mb-8">
+            {usersConfigured ? "Enter your name and PIN to continue" : "Enter PIN to continue"}
+          </p>
+
+          {/* Household users log in by name; the owner PIN alone works until users are added */}
+          {usersConfigured && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError("");
+              }}
+              placeholder="Your name"
+              autoComplete="username"
+              className="w-full mb-4 px-4 py-3 rounded-xl border-2 border-gray-200 text-gray-800 focus:border-green-500 focus:outline-none transition-colors"
+            />
+          )}
 
           {/* PIN Input */}
           <div className="flex justify-center gap-2 mb-6">
@@ -113,7 +184,7 @@ export default function PinLock({ children }: PinLockProps) {
                 className={`w-12 h-14 text-center text-2xl font-bold rounded-xl border-2
                   ${error ? "border-red-400 bg-red-50" : "border-gray-200"}
                   focus:border-green-500 focus:outline-none transition-colors`}
-                autoFocus={index === 0}
+                autoFocus={index === 0 && !usersConfigured}
               />
             ))}
           </div>
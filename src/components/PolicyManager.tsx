@@ -0,0 +1,362 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  DEFAULT_POLICIES,
+  SEASONS,
+  SEASON_LABELS,
+  getActivePolicy,
+  getPolicyLabel,
+  getSeason,
+  type PolicyLimits,
+  type PolicySeason,
+} from "@/lib/policies";
+import { apiFetch } from "@/lib/api-client";
+
+interface PolicyRecord extends PolicyLimits {
+  id: string;
+  zone_id: string;
+  season: PolicySeason;
+  start_date: string | null;
+  end_date: string | null;
+  created_at: string;
+}
+
+interface ZoneOption {
+  id: string;
+  name: string;
+}
+
+interface PolicyForm extends PolicyLimits {
+  zone_id: string;
+  season: PolicySeason;
+  start_date: string;
+  end_date: string;
+}
+
+interface PolicyManagerProps {
+  // Only owners can change policies; everyone else sees them read-only
+  canEdit: boolean;
+}
+
+const LIMIT_FIELDS: Array<{ field: keyof PolicyLimits; label: string; max: number }> = [
+  { field: "max_waterings_per_week", label: "Max runs per week", max: 7 },
+  { field: "min_duration_minutes", label: "Shortest run (min)", max: 120 },
+  { field: "max_duration_minutes", label: "Longest run (min)", max: 120 },
+  { field: "critical_moisture", label: "Critical below (%)", max: 100 },
+  { field: "dry_moisture", label: "Dry below (%)", max: 100 },
+  { field: "adequate_moisture", label: "Never water above (%)", max: 100 },
+];
+
+function summarizeLimits(limits: PolicyLimits): string {
+  return `Up to ${limits.max_waterings_per_week}/week · ${limits.min_duration_minutes}-${limits.max_duration_minutes} min · moisture ${limits.critical_moisture}/${limits.dry_moisture}/${limits.adequate_moisture}%`;
+}
+
+export default function PolicyManager({ canEdit }: PolicyManagerProps) {
+  const [policies, setPolicies] = useState<PolicyRecord[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null); // policy ID, "new" or null
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const [policiesResponse, zonesResponse] = await Promise.all([
+        apiFetch("/api/policies"),
+        apiFetch("/api/zones"),
+      ]);
+      const policiesData = await policiesResponse.json();
+      const zonesData = await zonesResponse.json();
+
+      if (policiesResponse.ok) {
+        setPolicies(policiesData.policies);
+      } else {
+        setError(policiesData.error || "Failed to load watering policies");
+      }
+      if (zonesResponse.ok) {
+        setZones(zonesData.zones);
+      }
+    } catch (err) {
+      console.error("Failed to fetch watering policies:", err);
+      setError("Failed to load watering policies");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const startEditing = (policy: PolicyRecord | null) => {
+    setError("");
+    if (!policy) {
+      const season = getSeason();
+      setEditing("new");
+      setForm({ zone_id: zones[0]?.id || "", season, start_date: "", end_date: "", ...DEFAULT_POLICIES[season] });
+      return;
+    }
+    setEditing(policy.id);
+    setForm({
+      zone_id: policy.zone_id,
+      season: policy.season,
+      start_date: policy.start_date || "",
+      end_date: policy.end_date || "",
+      max_waterings_per_week: policy.max_waterings_per_week,
+      min_duration_minutes: policy.min_duration_minutes,
+      max_duration_minutes: policy.max_duration_minutes,
+      critical_moisture: policy.critical_moisture,
+      dry_moisture: policy.dry_moisture,
+      adequate_moisture: policy.adequate_moisture,
+    });
+  };
+
+  // A new policy starts from the season's defaults
+  const selectSeason = (season: PolicySeason) => {
+    if (!form) return;
+    const defaults = editing === "new" && season !== "custom" ? DEFAULT_POLICIES[season] : {};
+    setForm({ ...form, ...defaults, season });
+  };
+
+  const savePolicy = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError("");
+    try {
+      const isNew = editing === "new";
+      const response = await apiFetch(isNew ? "/api/policies" : `/api/policies/${editing}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save watering policy");
+        return;
+      }
+
+      setEditing(null);
+      await fetchPolicies();
+    } catch (err) {
+      console.error("Failed to save watering policy:", err);
+      setError("Failed to save watering policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removePolicy = async (policy: PolicyRecord) => {
+    if (!confirm(`Delete the ${getPolicyLabel(policy)} policy? The zone goes back to the default limits.`)) return;
+
+    setError("");
+    try {
+      const response = await apiFetch(`/api/policies/${policy.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to delete watering policy");
+        return;
+      }
+
+      await fetchPolicies();
+    } catch (err) {
+      console.error("Failed to delete watering policy:", err);
+      setError("Failed to delete watering policy");
+    }
+  };
+
+  const inputClass =
+    "w-full bg-gray-100 rounded-xl px-4 py-3 text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderForm = () =>
+    form && (
+      <div className="bg-white rounded-3xl shadow-sm p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800">
+          {editing === "new" ? "Add Policy" : "Edit Policy"}
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm text-gray-600">Zone</span>
+            <select
+              className={inputClass}
+              value={form.zone_id}
+              onChange={(e) => setForm({ ...form, zone_id: e.target.value })}
+            >
+              <option value="">Select a zone...</option>
+              {zones.map((zone) => (
+                <option key={zone.id} value={zone.id}>{zone.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-600">Applies to</span>
+            <select
+              className={inputClass}
+              value={form.season}
+              onChange={(e) => selectSeason(e.target.value as PolicySeason)}
+            >
+              {[...SEASONS, "custom" as const].map((season) => (
+                <option key={season} value={season}>{SEASON_LABELS[season]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {form.season === "custom" && (
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm text-gray-600">From (MM-DD)</span>
+              <input
+                className={inputClass}
+                placeholder="12-20"
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">To (MM-DD)</span>
+              <input
+                className={inputClass}
+                placeholder="01-10"
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {LIMIT_FIELDS.map(({ field, label, max }) => (
+            <label key={field} className="block">
+              <span className="text-sm text-gray-600">{label}</span>
+              <input
+                type="number"
+                min={0}
+                max={max}
+                className={inputClass}
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: Number(e.target.value) })}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={() => setEditing(null)}
+            className="px-5 py-3 rounded-2xl text-sm font-medium text-gray-600 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={savePolicy}
+            disabled={saving || !form.zone_id || (form.season === "custom" && (!form.start_date || !form.end_date))}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            {saving ? "Saving..." : "Save Policy"}
+          </button>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Watering Policies</h1>
+          <p className="text-gray-500">Seasonal limits auto-water decides by, per zone</p>
+        </div>
+        {canEdit && editing === null && (
+          <button
+            onClick={() => startEditing(null)}
+            disabled={zones.length === 0}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            Add Policy
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-4 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <svg className="w-8 h-8 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {editing === "new" && renderForm()}
+
+          {zones.length === 0 && (
+            <div className="bg-white rounded-3xl p-8 text-center text-gray-500">Add a zone before creating policies.</div>
+          )}
+
+          {zones.map((zone) => {
+            const zonePolicies = policies.filter((policy) => policy.zone_id === zone.id);
+            const active = getActivePolicy(zonePolicies);
+            return (
+              <div key={zone.id} className="bg-white rounded-3xl shadow-sm p-6 space-y-3">
+                <div>
+                  <div className="font-semibold text-gray-800">{zone.name}</div>
+                  <div className="text-sm text-gray-500">
+                    Now: {active.label} · {summarizeLimits(active)}
+                  </div>
+                </div>
+
+                {zonePolicies.length === 0 && (
+                  <div className="text-xs text-gray-400">No policies of its own - uses the seasonal defaults</div>
+                )}
+
+                {zonePolicies.map((policy) =>
+                  editing === policy.id ? (
+                    <div key={policy.id}>{renderForm()}</div>
+                  ) : (
+                    <div
+                      key={policy.id}
+                      className={`rounded-2xl p-4 flex items-center justify-between gap-4 ${
+                        policy.id === active.policyId ? "bg-blue-50" : "bg-gray-50"
+                      }`}
+                    >
+                      <div>
+                        <div className="text-sm font-medium text-gray-800">
+                          {getPolicyLabel(policy)}
+                          {policy.id === active.policyId && <span className="ml-2 text-xs text-blue-600">Active</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">{summarizeLimits(policy)}</div>
+                      </div>
+                      {canEdit && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => startEditing(policy)}
+                            disabled={editing !== null}
+                            className="px-4 py-2 rounded-xl text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => removePolicy(policy)}
+                            disabled={editing !== null}
+                            className="px-4 py-2 rounded-xl text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  RESTRICTION_PRESETS,
+  RESTRICTION_STAGE_LABELS,
+  formatWindows,
+  type RestrictionStage,
+  type TimeWindow,
+} from "@/lib/restrictions";
+import { apiFetch } from "@/lib/api-client";
+
+interface RestrictionsForm {
+  stage: RestrictionStage;
+  allowed_windows: TimeWindow[];
+  allowed_days: number[];
+  odd_even: "odd" | "even" | null;
+  max_minutes_per_day: number | null;
+}
+
+interface RestrictionSettingsProps {
+  // Only owners can change the restrictions; everyone else sees them read-only
+  canEdit: boolean;
+}
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function summarizeRestrictions(rules: RestrictionsForm): string {
+  const days = rules.allowed_days.length === 7 ? "every day" : rules.allowed_days.map((d) => DAYS[d]).join(", ");
+  const parts = [formatWindows(rules.allowed_windows), days];
+  if (rules.odd_even) parts.push(`${rules.odd_even} dates only`);
+  if (rules.max_minutes_per_day !== null) parts.push(`up to ${rules.max_minutes_per_day} min per zone per day`);
+  return parts.join(" · ");
+}
+
+export default function RestrictionSettings({ canEdit }: RestrictionSettingsProps) {
+  const [saved, setSaved] = useState<RestrictionsForm | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [form, setForm] = useState<RestrictionsForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchRestrictions = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/restrictions");
+      const data = await response.json();
+      if (response.ok) {
+        setSaved(data.restrictions);
+        setIsDefault(data.isDefault);
+      } else {
+        setError(data.error || "Failed to load water restrictions");
+      }
+    } catch (err) {
+      console.error("Failed to fetch water restrictions:", err);
+      setError("Failed to load water restrictions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRestrictions();
+  }, [fetchRestrictions]);
+
+  // Changing the stage starts again from that stage's preset
+  const selectStage = (stage: RestrictionStage) => {
+    setForm({ stage, ...RESTRICTION_PRESETS[stage] });
+  };
+
+  const updateWindow = (index: number, changes: Partial<TimeWindow>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      allowed_windows: form.allowed_windows.map((window, i) => (i === index ? { ...window, ...changes } : window)),
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!form) return;
+    const days = form.allowed_days.includes(day)
+      ? form.allowed_days.filter((d) => d !== day)
+      : [...form.allowed_days, day].sort();
+    setForm({ ...form, allowed_days: days });
+  };
+
+  const saveRestrictions = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError("");
+    try {
+      const response = await apiFetch("/api/restrictions", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save water restrictions");
+        return;
+      }
+
+      setSaved(data.restrictions);
+      setIsDefault(false);
+      setForm(null);
+    } catch (err) {
+      console.error("Failed to save water restrictions:", err);
+      setError("Failed to save water restrictions");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full bg-gray-100 rounded-xl px-4 py-3 text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderForm = () =>
+    form && (
+      <div className="bg-white rounded-3xl shadow-sm p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800">Edit Restrictions</h2>
+        <label className="block">
+          <span className="text-sm text-gray-600">Stage</span>
+          <select
+            className={inputClass}
+            value={form.stage}
+            onChange={(e) => selectStage(e.target.value as RestrictionStage)}
+          >
+            {(Object.keys(RESTRICTION_STAGE_LABELS) as RestrictionStage[]).map((stage) => (
+              <option key={stage} value={stage}>{RESTRICTION_STAGE_LABELS[stage]}</option>
+            ))}
+          </select>
+        </label>
+
+        <div>
+          <span className="block text-sm text-gray-600 mb-2">Allowed times (Melbourne)</span>
+          <div className="space-y-2">
+            {form.allowed_windows.length === 0 && (
+              <div className="text-sm text-gray-400">No allowed times - watering systems may not be used</div>
+            )}
+            {form.allowed_windows.map((window, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="time"
+                  className={inputClass}
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="time"
+                  className={inputClass}
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                />
+                <button
+                  onClick={() =>
+                    setForm({ ...form, allowed_windows: form.allowed_windows.filter((_, i) => i !== index) })
+                  }
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-red-600 hover:bg-red-50"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() =>
+                setForm({ ...form, allowed_windows: [...form.allowed_windows, { start: "06:00", end: "08:00" }] })
+              }
+              className="px-4 py-2 rounded-xl text-sm font-medium text-blue-600 hover:bg-blue-50"
+            >
+              Add time window
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm text-gray-600 mb-2">Allowed days</span>
+          <div className="grid grid-cols-7 gap-2">
+            {DAYS.map((label, day) => (
+              <button
+                key={label}
+                onClick={() => toggleDay(day)}
+                className={`py-2 rounded-xl text-sm font-medium transition-colors ${
+                  form.allowed_days.includes(day)
+                    ? "bg-blue-500 text-white"
+                    : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm text-gray-600">Dates</span>
+            <select
+              className={inputClass}
+              value={form.odd_even ?? ""}
+              onChange={(e) => setForm({ ...form, odd_even: (e.target.value || null) as RestrictionsForm["odd_even"] })}
+            >
+              <option value="">Any date</option>
+              <option value="odd">Odd-numbered dates</option>
+              <option value="even">Even-numbered dates</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-600">Max minutes per zone per day</span>
+            <input
+              type="number"
+              min={1}
+              max={1440}
+              placeholder="No limit"
+              className={inputClass}
+              value={form.max_minutes_per_day ?? ""}
+              onChange={(e) =>
+                setForm({ ...form, max_minutes_per_day: e.target.value === "" ? null : Number(e.target.value) })
+              }
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={() => setForm(null)}
+            className="px-5 py-3 rounded-2xl text-sm font-medium text-gray-600 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={saveRestrictions}
+            disabled={saving || form.allowed_days.length === 0}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            {saving ? "Saving..." : "Save Restrictions"}
+          </button>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Water Restrictions</h1>
+          <p className="text-gray-500">When any watering - manual, scheduled or automatic - may run</p>
+        </div>
+        {canEdit && saved && !form && (
+          <button
+            onClick={() => setForm({ ...saved })}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            Edit Restrictions
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-4 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <svg className="w-8 h-8 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+        </div>
+      ) : form ? (
+        renderForm()
+      ) : (
+        saved && (
+          <div className="bg-white rounded-3xl shadow-sm p-6 space-y-2">
+            <div className="font-semibold text-gray-800">
+              {RESTRICTION_STAGE_LABELS[saved.stage]}
+              {isDefault && <span className="ml-2 text-xs text-gray-400">Default</span>}
+            </div>
+            <div className="text-sm text-gray-500">{summarizeRestrictions(saved)}</div>
+            <div className="text-xs text-gray-400">
+              Runs that would start or finish outside these rules are refused, including schedules and auto-water.
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api-client";
+
+interface ScheduleRecord {
+  id: string;
+  zone_id: string;
+  days_of_week: number[];
+  start_time: string;
+  duration_minutes: number;
+  enabled: boolean;
+  skip_if_rain: boolean;
+  last_run_at?: string | null;
+}
+
+interface ZoneOption {
+  id: string;
+  name: string;
+}
+
+interface ScheduleForm {
+  zone_id: string;
+  days_of_week: number[];
+  start_time: string;
+  duration_minutes: number;
+  enabled: boolean;
+  skip_if_rain: boolean;
+}
+
+interface ScheduleManagerProps {
+  // Only owners can change schedules; everyone else sees them read-only
+  canEdit: boolean;
+}
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const EMPTY_FORM: ScheduleForm = {
+  zone_id: "",
+  days_of_week: [1, 3, 5],
+  start_time: "06:30",
+  duration_minutes: 30,
+  enabled: true,
+  skip_if_rain: true,
+};
+
+function formatDays(days: number[]): string {
+  if (days.length === 7) return "Every day";
+  return days.map((d) => DAY_LABELS[d]).join(", ");
+}
+
+export default function ScheduleManager({ canEdit }: ScheduleManagerProps) {
+  const [schedules, setSchedules] = useState<ScheduleRecord[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null); // schedule ID, "new" or null
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const [schedulesResponse, zonesResponse] = await Promise.all([
+        apiFetch("/api/schedules"),
+        apiFetch("/api/zones"),
+      ]);
+      const schedulesData = await schedulesResponse.json();
+      const zonesData = await zonesResponse.json();
+
+      if (schedulesResponse.ok) {
+        setSchedules(schedulesData.schedules);
+      } else {
+        setError(schedulesData.error || "Failed to load schedules");
+      }
+      if (zonesResponse.ok) {
+        setZones(zonesData.zones);
+      }
+    } catch (err) {
+      console.error("Failed to fetch schedules:", err);
+      setError("Failed to load schedules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const startEditing = (schedule: ScheduleRecord | null) => {
+    setError("");
+    if (!schedule) {
+      setEditing("new");
+      setForm({ ...EMPTY_FORM, zone_id: zones[0]?.id || "" });
+      return;
+    }
+    setEditing(schedule.id);
+    setForm({
+      zone_id: schedule.zone_id,
+      days_of_week: schedule.days_of_week,
+      start_time: schedule.start_time,
+      duration_minutes: schedule.duration_minutes,
+      enabled: schedule.enabled,
+      skip_if_rain: schedule.skip_if_rain,
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    setForm({
+      ...form,
+      days_of_week: form.days_of_week.includes(day)
+        ? form.days_of_week.filter((d) => d !== day)
+        : [...form.days_of_week, day].sort(),
+    });
+  };
+
+  const saveSchedule = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const isNew = editing === "new";
+      const response = await apiFetch(isNew ? "/api/schedules" : `/api/schedules/${editing}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save schedule");
+        return;
+      }
+
+      setEditing(null);
+      await fetchSchedules();
+    } catch (err) {
+      console.error("Failed to save schedule:", err);
+      setError("Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setEnabled = async (schedule: ScheduleRecord, enabled: boolean) => {
+    setError("");
+    try {
+      const response = await apiFetch(`/api/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to update schedule");
+        return;
+      }
+
+      await fetchSchedules();
+    } catch (err) {
+      console.error("Failed to update schedule:", err);
+      setError("Failed to update schedule");
+    }
+  };
+
+  const removeSchedule = async (schedule: ScheduleRecord) => {
+    if (!confirm("Delete this schedule? Past scheduled waterings stay in history.")) return;
+
+    setError("");
+    try {
+      const response = await apiFetch(`/api/schedules/${schedule.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to delete schedule");
+        return;
+      }
+
+      await fetchSchedules();
+    } catch (err) {
+      console.error("Failed to delete schedule:", err);
+      setError("Failed to delete schedule");
+    }
+  };
+
+  const zoneName = (zoneId: string) => zones.find((z) => z.id === zoneId)?.name || `${zoneId} (archived)`;
+
+  const inputClass =
+    "w-full bg-gray-100 rounded-xl px-4 py-3 text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderForm = () => (
+    <div className="bg-white rounded-3xl shadow-sm p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800">
+        {editing === "new" ? "Add Schedule" : "Edit Schedule"}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="text-sm text-gray-600">Zone</span>
+          <select
+            className={inputClass}
+            value={form.zone_id}
+            onChange={(e) => setForm({ ...form, zone_id: e.target.value })}
+          >
+            <option value="">Select a zone...</option>
+            {zones.map((zone) => (
+              <option key={zone.id} value={zone.id}>{zone.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Start Time (Melbourne)</span>
+          <input
+            type="time"
+            className={inputClass}
+            value={form.start_time}
+            onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Duration (minutes)</span>
+          <input
+            type="number"
+            min={1}
+            max={120}
+            className={inputClass}
+            value={form.duration_minutes}
+            onChange={(e) => setForm({ ...form, duration_minutes: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div>
+        <span className="block text-sm text-gray-600 mb-2">Days</span>
+        <div className="grid grid-cols-7 gap-2">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              onClick={() => toggleDay(day)}
+              className={`py-2 rounded-xl text-sm font-medium transition-colors ${
+                form.days_of_week.includes(day)
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={form.skip_if_rain}
+            onChange={(e) => setForm({ ...form, skip_if_rain: e.target.checked })}
+          />
+          Skip if rain
+        </label>
+      </div>
+
+      <div className="flex gap-3 justify-end">
+        <button
+          onClick={() => setEditing(null)}
+          className="px-5 py-3 rounded-2xl text-sm font-medium text-gray-600 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={saveSchedule}
+          disabled={saving || !form.zone_id || form.days_of_week.length === 0 || !form.start_time}
+          className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+        >
+          {saving ? "Saving..." : "Save Schedule"}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Schedules</h1>
+          <p className="text-gray-500">Recurring waterings, in Melbourne time</p>
+        </div>
+        {canEdit && editing === null && (
+          <button
+            onClick={() => startEditing(null)}
+            disabled={zones.length === 0}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            Add Schedule
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-4 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <svg className="w-8 h-8 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {editing === "new" && renderForm()}
+
+          {schedules.length === 0 && editing !== "new" && (
+            <div className="bg-white rounded-3xl p-8 text-center text-gray-500">
+              {zones.length === 0 ? "Add a zone before creating schedules." : "No schedules yet."}
+            </div>
+          )}
+
+          {schedules.map((schedule) =>
+            editing === schedule.id ? (
+              <div key={schedule.id}>{renderForm()}</div>
+            ) : (
+              <div
+                key={schedule.id}
+                className={`bg-white rounded-3xl shadow-sm p-6 flex items-center justify-between gap-4 ${
+                  schedule.enabled ? "" : "opacity-60"
+                }`}
+              >
+                <div>
+                  <div className="font-semibold text-gray-800">
+                    {schedule.start_time} · {schedule.duration_minutes} min
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {zoneName(schedule.zone_id)} · {formatDays(schedule.days_of_week)}
+                    {schedule.skip_if_rain && " · skips if rain"}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {schedule.last_run_at
+                      ? `Last run ${new Date(schedule.last_run_at).toLocaleString("en-AU", {
+                          day: "numeric",
+                          month: "short",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}`
+                      : "Not run yet"}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setEnabled(schedule, !schedule.enabled)}
+                      disabled={editing !== null}
+                      className="px-4 py-2 rounded-xl text-sm font-medium text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      {schedule.enabled ? "Pause" : "Resume"}
+                    </button>
+                    <button
+                      onClick={() => startEditing(schedule)}
+                      disabled={editing !== null}
+                      className="px-4 py-2 rounded-xl text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => removeSchedule(schedule)}
+                      disabled={editing !== null}
+                      className="px-4 py-2 rounded-xl text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api-client";
+
+type HistoryRange = "24h" | "7d" | "30d";
+
+interface HistoryPoint {
+  time: string;
+  moisture: number;
+  temperature: number | null;
+  readings: number;
+}
+
+interface WateringBand {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  trigger: string;
+}
+
+interface SoilHistory {
+  range: HistoryRange;
+  bucket: string;
+  from: string;
+  to: string;
+  points: HistoryPoint[];
+  wateringEvents: WateringBand[];
+}
+
+interface SoilHistoryChartProps {
+  zoneId: string;
+}
+
+const RANGES: HistoryRange[] = ["24h", "7d", "30d"];
+
+// Chart area inside the SVG viewBox; the margins hold the axis labels
+const WIDTH = 640;
+const HEIGHT = 240;
+const MARGIN = { top: 12, right: 40, bottom: 28, left: 40 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const X_TICKS = 5;
+
+// "30m" / "2h" -> milliseconds
+function bucketMs(bucket: string): number {
+  const match = bucket.match(/^(\d+)([mh])$/);
+  if (!match) return 0;
+  return Number(match[1]) * (match[2] === "h" ? 60 : 1) * 60 * 1000;
+}
+
+// SVG path through the points, lifting the pen where buckets are missing (sensor offline)
+function linePath(
+  points: Array<{ x: number; y: number; time: number }>,
+  maxGapMs: number
+): string {
+  return points
+    .map((point, i) => {
+      const gap = i > 0 && point.time - points[i - 1].time > maxGapMs;
+      return `${i === 0 || gap ? "M" : "L"}${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+function formatTick(time: number, range: HistoryRange): string {
+  return range === "24h"
+    ? new Date(time).toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" })
+    : new Date(time).toLocaleDateString("en-AU", { day: "numeric", month: "short" });
+}
+
+export default function SoilHistoryChart({ zoneId }: SoilHistoryChartProps) {
+  const [range, setRange] = useState<HistoryRange>("24h");
+  const [history, setHistory] = useState<SoilHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiFetch(`/api/soil-readings?zoneId=${encodeURIComponent(zoneId)}&range=${range}`);
+      const data = await response.json();
+      if (response.ok) {
+        setHistory(data);
+        setError("");
+      } else {
+        setError(data.error || "Failed to load soil history");
+      }
+    } catch (err) {
+      console.error("Failed to fetch soil history:", err);
+      setError("Failed to load soil history");
+    } finally {
+      setLoading(false);
+    }
+  }, [zoneId, range]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const renderChart = (data: SoilHistory) => {
+    const from = new Date(data.from).getTime();
+    const to = new Date(data.to).getTime();
+    const x = (time: number) => MARGIN.left + ((time - from) / (to - from)) * PLOT_WIDTH;
+    const moistureY = (moisture: number) => MARGIN.top + (1 - moisture / 100) * PLOT_HEIGHT;
+
+    // Temperature gets its own right-hand axis, padded so the line isn't flat against an edge
+    const temperatures = data.points.flatMap((p) => (p.temperature !== null ? [p.temperature] : []));
+    const tempMin = temperatures.length > 0 ? Math.floor(Math.min(...temperatures)) - 2 : 0;
+    const tempMax = temperatures.length > 0 ? Math.ceil(Math.max(...temperatures)) + 2 : 40;
+    const temperatureY = (temperature: number) =>
+      MARGIN.top + (1 - (temperature - tempMin) / (tempMax - tempMin)) * PLOT_HEIGHT;
+
+    const maxGapMs = bucketMs(data.bucket) * 2;
+    const moisturePath = linePath(
+      data.points.map((p) => {
+        const time = new Date(p.time).getTime();
+        return { x: x(time), y: moistureY(p.moisture), time };
+      }),
+      maxGapMs
+    );
+    const temperaturePath = linePath(
+      data.points.flatMap((p) => {
+        if (p.temperature === null) return [];
+        const time = new Date(p.time).getTime();
+        return [{ x: x(time), y: temperatureY(p.temperature), time }];
+      }),
+      maxGapMs
+    );
+
+    const ticks = Array.from({ length: X_TICKS }, (_, i) => from + ((to - from) * i) / (X_TICKS - 1));
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Soil moisture and temperature history">
+        {/* Watering runs */}
+        {data.wateringEvents.map((event) => {
+          const start = Math.max(from, new Date(event.startedAt).getTime());
+          const end = Math.min(to, event.endedAt ? new Date(event.endedAt).getTime() : to);
+          // Keep short runs visible on the 30 day view
+          const width = Math.max(2, x(end) - x(start));
+          return (
+            <rect
+              key={event.id}
+              x={x(start)}
+              y={MARGIN.top}
+              width={width}
+              height={PLOT_HEIGHT}
+              className="fill-blue-200"
+              opacity={0.5}
+            >
+              <title>{`${event.trigger} watering, ${new Date(event.startedAt).toLocaleString("en-AU")}`}</title>
+            </rect>
+          );
+        })}
+
+        {/* Moisture gridlines + left axis */}
+        {[0, 25, 50, 75, 100].map((moisture) => (
+          <g key={moisture}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={moistureY(moisture)}
+              y2={moistureY(moisture)}
+              className="stroke-gray-200"
+              strokeWidth={1}
+            />
+            <text x={MARGIN.left - 6} y={moistureY(moisture) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+              {moisture}%
+            </text>
+          </g>
+        ))}
+
+        {/* Temperature right axis */}
+        {temperatures.length > 0 &&
+          [tempMin, (tempMin + tempMax) / 2, tempMax].map((temperature) => (
+            <text
+              key={temperature}
+              x={WIDTH - MARGIN.right + 6}
+              y={temperatureY(temperature) + 4}
+              className="fill-orange-400 text-[10px]"
+            >
+              {Math.round(temperature)}°
+            </text>
+          ))}
+
+        {/* Time axis */}
+        {ticks.map((tick) => (
+          <text key={tick} x={x(tick)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-400 text-[10px]">
+            {formatTick(tick, data.range)}
+          </text>
+        ))}
+
+        <path d={temperaturePath} fill="none" className="stroke-orange-400" strokeWidth={1.5} />
+        <path d={moisturePath} fill="none" className="stroke-blue-500" strokeWidth={2} />
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">History</h2>
+        <div className="flex gap-1 bg-gray-100 rounded-xl p-1">
+          {RANGES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                range === option ? "bg-white text-gray-800 shadow-sm" : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {loading && !history && <p className="text-sm text-gray-500 py-12 text-center">Loading history...</p>}
+
+      {history && history.points.length === 0 && (
+        <p className="text-sm text-gray-500 py-12 text-center">
+          No readings in the last {history.range} yet. The sensor-ingest cron logs one every 15 minutes.
+        </p>
+      )}
+
+      {history && history.points.length > 0 && (
+        <div className={loading ? "opacity-50" : ""}>
+          {renderChart(history)}
+          <div className="flex flex-wrap gap-4 text-xs text-gray-500 mt-2">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-0.5 bg-blue-500" /> Moisture
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-0.5 bg-orange-400" /> Soil temperature
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 bg-blue-200 rounded-sm" /> Watering
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api-client";
+
+type UserRole = "owner" | "gardener" | "viewer";
+
+interface UserRecord {
+  id: string;
+  name: string;
+  role: UserRole;
+  created_at: string;
+}
+
+interface UserForm {
+  name: string;
+  role: UserRole;
+  pin: string;
+}
+
+interface UserManagerProps {
+  currentUserId: string | null;
+}
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  owner: "Everything, including zones, schedules and users",
+  gardener: "Can start and stop watering",
+  viewer: "Read only",
+};
+
+const EMPTY_FORM: UserForm = { name: "", role: "gardener", pin: "" };
+
+export default function UserManager({ currentUserId }: UserManagerProps) {
+  const [users, setUsers] = useState<UserRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null); // user ID, "new" or null
+  const [form, setForm] = useState<UserForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/users");
+      const data = await response.json();
+      if (response.ok) {
+        setUsers(data.users);
+      } else {
+        setError(data.error || "Failed to load users");
+      }
+    } catch (err) {
+      console.error("Failed to fetch users:", err);
+      setError("Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const startEditing = (user: UserRecord | null) => {
+    setError("");
+    if (!user) {
+      setEditing("new");
+      setForm(users.length === 0 ? { ...EMPTY_FORM, role: "owner" } : EMPTY_FORM);
+      return;
+    }
+    setEditing(user.id);
+    setForm({ name: user.name, role: user.role, pin: "" });
+  };
+
+  const saveUser = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const isNew = editing === "new";
+      const response = await apiFetch(isNew ? "/api/users" : `/api/users/${editing}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        // Leaving the PIN blank when editing keeps the current one
+        body: JSON.stringify({ ...form, pin: form.pin || undefined }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save user");
+        return;
+      }
+
+      setEditing(null);
+      await fetchUsers();
+    } catch (err) {
+      console.error("Failed to save user:", err);
+      setError("Failed to save user");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeUser = async (user: UserRecord) => {
+    if (!confirm(`Remove ${user.name}? Their name stays on past watering events.`)) return;
+
+    setError("");
+    try {
+      const response = await apiFetch(`/api/users/${user.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to remove user");
+        return;
+      }
+
+      await fetchUsers();
+    } catch (err) {
+      console.error("Failed to remove user:", err);
+      setError("Failed to remove user");
+    }
+  };
+
+  const inputClass =
+    "w-full bg-gray-100 rounded-xl px-4 py-3 text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderForm = () => (
+    <div className="bg-white rounded-3xl shadow-sm p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800">
+        {editing === "new" ? "Add User" : "Edit User"}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="text-sm text-gray-600">Name</span>
+          <input
+            className={inputClass}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Sam"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Role</span>
+          <select
+            className={inputClass}
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+          >
+            <option value="owner">Owner</option>
+            <option value="gardener">Gardener</option>
+            <option value="viewer">Viewer</option>
+          </select>
+          <span className="text-xs text-gray-400">{ROLE_DESCRIPTIONS[form.role]}</span>
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">PIN</span>
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={6}
+            className={inputClass}
+            value={form.pin}
+            onChange={(e) => setForm({ ...form, pin: e.target.value.replace(/\D/g, "") })}
+            placeholder={editing === "new" ? "6 digits" : "Leave blank to keep"}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-3 justify-end">
+        <button
+          onClick={() => setEditing(null)}
+          className="px-5 py-3 rounded-2xl text-sm font-medium text-gray-600 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={saveUser}
+          disabled={saving || !form.name.trim() || (editing === "new" ? form.pin.length !== 6 : form.pin.length > 0 && form.pin.length !== 6)}
+          className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+        >
+          {saving ? "Saving..." : "Save User"}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Users</h1>
+          <p className="text-gray-500">Household members and what they can do</p>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => startEditing(null)}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            Add User
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-4 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <svg className="w-8 h-8 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {editing === "new" && renderForm()}
+
+          {users.length === 0 && editing !== "new" && (
+            <div className="bg-white rounded-3xl p-8 text-center text-gray-500">
+              No users yet - everyone shares the owner PIN. Add an owner first; after that each person logs in with their own name and PIN.
+            </div>
+          )}
+
+          {users.map((user) =>
+            editing === user.id ? (
+              <div key={user.id}>{renderForm()}</div>
+            ) : (
+              <div key={user.id} className="bg-white rounded-3xl shadow-sm p-6 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-semibold text-gray-800">
+                    {user.name}
+                    {user.id === currentUserId && <span className="text-gray-400 font-normal"> (you)</span>}
+                  </div>
+                  <div className="text-sm text-gray-500 capitalize">{user.role}</div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => startEditing(user)}
+                    disabled={editing !== null}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => removeUser(user)}
+                    disabled={editing !== null || user.id === currentUserId}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
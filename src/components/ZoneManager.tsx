@@ -0,0 +1,494 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  ESTABLISHMENT_STAGE_LABELS,
+  PLANT_PRESETS,
+  SOIL_TYPE_LABELS,
+  SUN_EXPOSURE_LABELS,
+  WATER_NEEDS_LABELS,
+  getEstablishmentStage,
+  getWaterNeeds,
+  type SoilType,
+  type SunExposure,
+  type WaterNeeds,
+} from "@/lib/plants";
+import { apiFetch } from "@/lib/api-client";
+
+interface ZoneRecord {
+  id: string;
+  device_id: string;
+  name: string;
+  description?: string | null;
+  sensor_device_id?: string | null;
+  plant_type?: string | null;
+  plant_date?: string | null;
+  plant_preset?: string | null;
+  water_needs?: WaterNeeds | null;
+  soil_type?: SoilType | null;
+  sun_exposure?: SunExposure | null;
+  map_polygon?: Array<[number, number]> | null;
+  archived_at?: string | null;
+}
+
+interface DeviceSummary {
+  id: string;
+  name: string;
+  productName: string;
+  online: boolean;
+  kind: "tap" | "soil_sensor" | "unknown";
+}
+
+interface ZoneForm {
+  name: string;
+  device_id: string;
+  sensor_device_id: string;
+  plant_type: string;
+  plant_date: string;
+  plant_preset: string;
+  water_needs: string;
+  soil_type: string;
+  sun_exposure: string;
+  map_polygon: string;
+}
+
+interface ZoneManagerProps {
+  onZonesChanged: () => void;
+}
+
+const EMPTY_FORM: ZoneForm = {
+  name: "",
+  device_id: "",
+  sensor_device_id: "",
+  plant_type: "",
+  plant_date: "",
+  plant_preset: "",
+  water_needs: "",
+  soil_type: "",
+  sun_exposure: "",
+  map_polygon: "",
+};
+
+// "Establishing · Medium water needs · Loam · Full sun", leaving out what isn't set
+function summarizeProfile(zone: ZoneRecord): string {
+  const stage = getEstablishmentStage(zone);
+  const waterNeeds = getWaterNeeds(zone);
+  return [
+    stage && ESTABLISHMENT_STAGE_LABELS[stage],
+    waterNeeds && `${WATER_NEEDS_LABELS[waterNeeds]} water needs`,
+    zone.soil_type && SOIL_TYPE_LABELS[zone.soil_type],
+    zone.sun_exposure && SUN_EXPOSURE_LABELS[zone.sun_exposure],
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// Polygons are edited as "x,y x,y x,y" (percentages of the property map)
+function formatPolygon(polygon: Array<[number, number]> | null | undefined): string {
+  return polygon ? polygon.map(([x, y]) => `${x},${y}`).join(" ") : "";
+}
+
+function parsePolygon(text: string): Array<[number, number]> | null {
+  if (!text.trim()) return null;
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((pair) => pair.split(",").map(Number) as [number, number]);
+}
+
+export default function ZoneManager({ onZonesChanged }: ZoneManagerProps) {
+  const [zones, setZones] = useState<ZoneRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null); // zone ID, "new" or null
+  const [form, setForm] = useState<ZoneForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  // null until loaded, or if the Tuya account can't be listed (falls back to typing IDs)
+  const [devices, setDevices] = useState<DeviceSummary[] | null>(null);
+
+  const fetchZones = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/zones?includeArchived=true");
+      const data = await response.json();
+      if (response.ok) {
+        setZones(data.zones);
+      } else {
+        setError(data.error || "Failed to load zones");
+      }
+    } catch (err) {
+      console.error("Failed to fetch zones:", err);
+      setError("Failed to load zones");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const response = await apiFetch("/api/devices");
+      if (response.ok) {
+        const data: { devices: DeviceSummary[] } = await response.json();
+        setDevices(data.devices);
+      }
+    } catch (err) {
+      console.error("Failed to fetch devices:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchZones();
+    fetchDevices();
+  }, [fetchZones, fetchDevices]);
+
+  const startEditing = (zone: ZoneRecord | null) => {
+    setError("");
+    if (!zone) {
+      setEditing("new");
+      setForm(EMPTY_FORM);
+      return;
+    }
+    setEditing(zone.id);
+    setForm({
+      name: zone.name,
+      device_id: zone.device_id,
+      sensor_device_id: zone.sensor_device_id || "",
+      plant_type: zone.plant_type || "",
+      plant_date: zone.plant_date || "",
+      plant_preset: zone.plant_preset || "",
+      water_needs: zone.water_needs || "",
+      soil_type: zone.soil_type || "",
+      sun_exposure: zone.sun_exposure || "",
+      map_polygon: formatPolygon(zone.map_polygon),
+    });
+  };
+
+  const saveZone = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const isNew = editing === "new";
+      const response = await apiFetch(isNew ? "/api/zones" : `/api/zones/${editing}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          map_polygon: parsePolygon(form.map_polygon),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save zone");
+        return;
+      }
+
+      setEditing(null);
+      await fetchZones();
+      onZonesChanged();
+    } catch (err) {
+      console.error("Failed to save zone:", err);
+      setError("Failed to save zone");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setArchived = async (zone: ZoneRecord, archived: boolean) => {
+    if (archived && !confirm(`Archive "${zone.name}"? Its watering history will be kept.`)) return;
+
+    setError("");
+    try {
+      const response = archived
+        ? await apiFetch(`/api/zones/${zone.id}`, { method: "DELETE" })
+        : await apiFetch(`/api/zones/${zone.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ archived: false }),
+          });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to update zone");
+        return;
+      }
+
+      await fetchZones();
+      onZonesChanged();
+    } catch (err) {
+      console.error("Failed to archive zone:", err);
+      setError("Failed to update zone");
+    }
+  };
+
+  const activeZones = zones.filter((z) => !z.archived_at);
+  const archivedZones = zones.filter((z) => z.archived_at);
+
+  const inputClass =
+    "w-full bg-gray-100 rounded-xl px-4 py-3 text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  // Devices of the wanted kind first, then unclassified ones; keep the current value even if it's no longer listed
+  const renderDeviceSelect = (
+    field: "device_id" | "sensor_device_id",
+    kind: DeviceSummary["kind"],
+    emptyLabel: string
+  ) => {
+    const current = form[field];
+    if (!devices) {
+      return (
+        <input
+          className={inputClass}
+          value={current}
+          onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+          placeholder={field === "device_id" ? "Tuya device ID of the water tap" : "Optional"}
+        />
+      );
+    }
+
+    const options = [
+      ...devices.filter((d) => d.kind === kind),
+      ...devices.filter((d) => d.kind === "unknown"),
+    ];
+
+    return (
+      <select
+        className={inputClass}
+        value={current}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+      >
+        <option value="">{emptyLabel}</option>
+        {current && !options.some((d) => d.id === current) && (
+          <option value={current}>{current} (not found on account)</option>
+        )}
+        {options.map((device) => (
+          <option key={device.id} value={device.id}>
+            {`${device.name} · ${device.productName}${device.kind === "unknown" ? " (unclassified)" : ""}${device.online ? "" : " (offline)"}`}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  // Picking a preset names the plant, unless a custom name was typed
+  const selectPreset = (presetId: string) => {
+    const previous = PLANT_PRESETS[form.plant_preset]?.name;
+    const keepName = form.plant_type && form.plant_type !== previous;
+    setForm({
+      ...form,
+      plant_preset: presetId,
+      plant_type: keepName ? form.plant_type : PLANT_PRESETS[presetId]?.name || "",
+    });
+  };
+
+  const renderChoiceSelect = (
+    field: "water_needs" | "soil_type" | "sun_exposure",
+    labels: Record<string, string>,
+    emptyLabel: string
+  ) => (
+    <select className={inputClass} value={form[field]} onChange={(e) => setForm({ ...form, [field]: e.target.value })}>
+      <option value="">{emptyLabel}</option>
+      {Object.entries(labels).map(([value, label]) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+
+  const presetWaterNeeds = PLANT_PRESETS[form.plant_preset]?.waterNeeds;
+
+  const renderForm = () => (
+    <div className="bg-white rounded-3xl shadow-sm p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800">
+        {editing === "new" ? "Add Zone" : "Edit Zone"}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-sm text-gray-600">Name</span>
+          <input
+            className={inputClass}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Back Garden Beds"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Water Tap</span>
+          {renderDeviceSelect("device_id", "tap", "Select a tap...")}
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Soil Sensor</span>
+          {renderDeviceSelect("sensor_device_id", "soil_sensor", "No sensor")}
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Plant Preset</span>
+          <select className={inputClass} value={form.plant_preset} onChange={(e) => selectPreset(e.target.value)}>
+            <option value="">Custom plant</option>
+            {Object.entries(PLANT_PRESETS).map(([id, preset]) => (
+              <option key={id} value={id}>
+                {preset.name} ({preset.botanicalName})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Plant Type</span>
+          <input
+            className={inputClass}
+            value={form.plant_type}
+            onChange={(e) => setForm({ ...form, plant_type: e.target.value })}
+            placeholder="Leighton Greens"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Planting Date</span>
+          <input
+            type="date"
+            className={inputClass}
+            value={form.plant_date}
+            onChange={(e) => setForm({ ...form, plant_date: e.target.value })}
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Water Needs</span>
+          {renderChoiceSelect(
+            "water_needs",
+            WATER_NEEDS_LABELS,
+            presetWaterNeeds ? `Preset default (${WATER_NEEDS_LABELS[presetWaterNeeds]})` : "Unknown"
+          )}
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Soil Type</span>
+          {renderChoiceSelect("soil_type", SOIL_TYPE_LABELS, "Unknown")}
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Sun Exposure</span>
+          {renderChoiceSelect("sun_exposure", SUN_EXPOSURE_LABELS, "Unknown")}
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Map Outline</span>
+          <input
+            className={inputClass}
+            value={form.map_polygon}
+            onChange={(e) => setForm({ ...form, map_polygon: e.target.value })}
+            placeholder="48,82 96,82 96,92 48,92"
+          />
+          <span className="text-xs text-gray-400">x,y points as % of the property map</span>
+        </label>
+      </div>
+
+      <div className="flex gap-3 justify-end">
+        <button
+          onClick={() => setEditing(null)}
+          className="px-5 py-3 rounded-2xl text-sm font-medium text-gray-600 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={saveZone}
+          disabled={saving || !form.name.trim() || !form.device_id.trim()}
+          className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-blue-300 disabled:to-blue-400 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+        >
+          {saving ? "Saving..." : "Save Zone"}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Zones</h1>
+          <p className="text-gray-500">Add, edit and retire watering zones</p>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => startEditing(null)}
+            className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-5 py-3 rounded-2xl text-sm font-medium shadow-lg shadow-blue-500/25"
+          >
+            Add Zone
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-2 border-red-200 text-red-700 rounded-2xl p-4 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <svg className="w-8 h-8 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+          </svg>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {editing === "new" && renderForm()}
+
+          {activeZones.length === 0 && editing !== "new" && (
+            <div className="bg-white rounded-3xl p-8 text-center text-gray-500">
+              No zones yet. Add one to start watering.
+            </div>
+          )}
+
+          {activeZones.map((zone) =>
+            editing === zone.id ? (
+              <div key={zone.id}>{renderForm()}</div>
+            ) : (
+              <div key={zone.id} className="bg-white rounded-3xl shadow-sm p-6 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-semibold text-gray-800">{zone.name}</div>
+                  <div className="text-sm text-gray-500">
+                    {zone.plant_type || "No plant set"}
+                    {zone.plant_date && ` · planted ${new Date(zone.plant_date).toLocaleDateString("en-AU")}`}
+                  </div>
+                  {summarizeProfile(zone) && <div className="text-xs text-gray-500 mt-1">{summarizeProfile(zone)}</div>}
+                  <div className="text-xs text-gray-400 mt-1">
+                    Tap {zone.device_id}
+                    {zone.sensor_device_id ? ` · Sensor ${zone.sensor_device_id}` : " · No sensor"}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => startEditing(zone)}
+                    disabled={editing !== null}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setArchived(zone, true)}
+                    disabled={editing !== null}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Archive
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+
+          {archivedZones.length > 0 && (
+            <div className="bg-gray-50 rounded-3xl p-6">
+              <h2 className="text-sm font-medium text-gray-500 mb-3">Archived Zones</h2>
+              <div className="space-y-2">
+                {archivedZones.map((zone) => (
+                  <div key={zone.id} className="flex items-center justify-between">
+                    <div className="text-gray-600">{zone.name}</div>
+                    <button
+                      onClick={() => setArchived(zone, false)}
+                      className="px-4 py-2 rounded-xl text-sm font-medium text-blue-600 hover:bg-blue-50"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
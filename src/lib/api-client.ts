@@ -0,0 +1,13 @@
+// fetch for the app's own /api routes from the browser. A 401 means the session has expired or
+// was revoked (the user was deleted or their role changed), so PinLock is told to show the PIN
+// screen again instead of each screen failing quietly.
+
+export const SESSION_EXPIRED_EVENT = "session-expired";
+
+export async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+  return response;
+}
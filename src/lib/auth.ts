@@ -0,0 +1,116 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { getUser, getUsers, type UserRole } from "@/lib/storage";
+
+// Server-side session auth. PINs are only ever compared against scrypt hashes
+// on the server; the browser gets an HTTP-only cookie signed with SESSION_SECRET.
+
+export const SESSION_COOKIE = "watering_session";
+
+// Sessions always expire server-side; "remember this browser" only extends how long
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+export const REMEMBERED_SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export const USER_ROLES: UserRole[] = ["owner", "gardener", "viewer"];
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+// Used when no household users exist yet: APP_PIN_HASH logs in as an owner
+export const BOOTSTRAP_OWNER: SessionUser = { id: "owner", name: "Owner", role: "owner" };
+
+export function isAuthConfigured(): boolean {
+  return !!process.env.SESSION_SECRET;
+}
+
+// Hash format: "scrypt:<salt hex>:<hash hex>" (see README for generating one)
+export function hashPin(pin: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `scrypt:${salt}:${scryptSync(pin, salt, 32).toString("hex")}`;
+}
+
+export function verifyPin(pin: string, pinHash: string | undefined): boolean {
+  const [scheme, salt, expectedHex] = (pinHash || "").split(":");
+  if (scheme !== "scrypt" || !salt || !expectedHex) {
+    console.error("PIN hash is missing or not in scrypt:<salt>:<hash> format");
+    return false;
+  }
+
+  const expected = Buffer.from(expectedHex, "hex");
+  const actual = scryptSync(pin, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET || "").update(payload).digest("base64url");
+}
+
+// Token is "<base64url JSON {user, exp}>.<signature>". It only proves who logged in and as
+// what role; getSessionUser checks that against the users table on every request.
+export function createSessionToken(user: SessionUser, maxAgeSeconds: number): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...user, exp: Date.now() + maxAgeSeconds * 1000 })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifySessionToken(token: string | undefined): SessionUser | null {
+  if (!token || !process.env.SESSION_SECRET) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const { id, name, role, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof exp !== "number" || exp <= Date.now() || !USER_ROLES.includes(role)) return null;
+    return { id, name, role };
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in user, or null. The user must still exist with the role they logged in with,
+// so deleting a user or changing their role ends their sessions at once; the bootstrap owner's
+// sessions end when the first household user is added.
+export async function getSessionUser(
+  request: { cookies: { get(name: string): { value: string } | undefined } }
+): Promise<SessionUser | null> {
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  if (session.id === BOOTSTRAP_OWNER.id) {
+    return (await getUsers()).length === 0 ? session : null;
+  }
+
+  const user = await getUser(session.id);
+  if (!user || user.role !== session.role) return null;
+  return { id: user.id, name: user.name, role: user.role };
+}
+
+// What each role may do through the API:
+// - viewer: read only (plus chatting with the garden assistant)
+// - gardener: also start/stop watering and set or cancel rain delays
+// - owner: everything, including zones, schedules, watering policies, water restrictions and users (the only role that can list users)
+export function canAccess(role: UserRole, method: string, pathname: string): boolean {
+  if (pathname.startsWith("/api/users")) {
+    return role === "owner";
+  }
+
+  if (method === "GET" || method === "HEAD" || pathname === "/api/chat") {
+    return true;
+  }
+
+  if (pathname.startsWith("/api/device/") || pathname.startsWith("/api/rain-delays")) {
+    return role === "owner" || role === "gardener";
+  }
+
+  return role === "owner";
+}
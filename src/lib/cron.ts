@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+
+// Shared guard for every /api/cron/* route (the session proxy lets them through).
+// Fails closed: without CRON_SECRET nothing runs, unless CRON_DEV_MODE=true outside production.
+
+export type CronJob = "auto-water" | "water-check" | "schedules" | "sensor-ingest";
+
+// Minimum time between accepted runs of each job. External cron services retry and
+// overlap; a second auto-water run minutes after the first must not start the taps again.
+const MIN_INTERVAL_MS: Record<CronJob, number> = {
+  "auto-water": 10 * 60 * 1000,
+  "water-check": 60 * 1000,
+  "schedules": 60 * 1000,
+  "sensor-ingest": 5 * 60 * 1000,
+};
+
+// Per server instance - serverless instances don't share this, so it's a best-effort limit
+const lastAccepted = new Map<CronJob, number>();
+
+function isDevMode(): boolean {
+  return process.env.CRON_DEV_MODE === "true" && process.env.NODE_ENV !== "production";
+}
+
+function secretMatches(authHeader: string | null, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authHeader || "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Vercel Cron sends "Authorization: Bearer $CRON_SECRET" itself, plus these headers.
+// They only label the caller in logs - headers alone are easy to spoof.
+function describeCaller(request: Request): string {
+  const userAgent = request.headers.get("user-agent") || "";
+  return request.headers.get("x-vercel-cron") || userAgent.startsWith("vercel-cron")
+    ? "Vercel Cron"
+    : "external cron";
+}
+
+// Returns an error response to send back, or null if the job may run
+export function authorizeCronRequest(request: Request, job: CronJob): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    if (!isDevMode()) {
+      console.error(`[${job}] CRON_SECRET not set - refusing cron request`);
+      return NextResponse.json({ error: "Cron not configured" }, { status: 503 });
+    }
+    console.warn(`[${job}] CRON_SECRET not set - allowing request (CRON_DEV_MODE)`);
+  } else if (!secretMatches(request.headers.get("authorization"), secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const now = Date.now();
+  const last = lastAccepted.get(job);
+  if (last !== undefined && now - last < MIN_INTERVAL_MS[job]) {
+    const retryAfterSeconds = Math.ceil((MIN_INTERVAL_MS[job] - (now - last)) / 1000);
+    console.warn(`[${job}] Rate limited - last run ${Math.round((now - last) / 1000)}s ago`);
+    return NextResponse.json(
+      { error: "Too many requests", retryAfterSeconds },
+      { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+  }
+
+  lastAccepted.set(job, now);
+  console.log(`[${job}] Accepted request from ${describeCaller(request)}`);
+  return null;
+}
+
+// Tests use this to start each case with no accepted runs
+export function clearCronRuns(): void {
+  lastAccepted.clear();
+}
@@ -0,0 +1,203 @@
+import type { DeviceProvider, DeviceResult, DeviceStatusValue, ListedDevice } from "@/lib/devices";
+
+// In-memory stand-in for the Tuya cloud (DEVICE_PROVIDER=simulator). Each simulated zone is a
+// tap "sim-tap-N" paired with a soil sensor "sim-soil-N". The tap honours switch + countdown_1
+// like the real valve; the sensor's moisture rises while its tap runs and dries out otherwise.
+// State is computed lazily from timestamps on every read, so nothing runs in the background.
+
+const MOISTURE_RISE_PER_MINUTE = 2; // % while the tap is on
+const MOISTURE_DECAY_PER_HOUR = 0.5; // % while it's off (~12% a day)
+const MAX_MOISTURE = 85;
+const MIN_MOISTURE = 5;
+const SENSOR_TEMPERATURE = 180; // Tuya reports temp * 10
+const SENSOR_BATTERY = 100;
+
+interface SimulatedZone {
+  index: number;
+  tapOn: boolean;
+  offAt: number | null; // when the tap's countdown ends (ms), null if no countdown
+  moisture: number;
+  updatedAt: number;
+}
+
+export interface DeviceSimulatorOptions {
+  zones?: number;
+  initialMoisture?: number;
+  now?: () => number; // clock, injectable so tests can move time forward
+}
+
+export interface DeviceSimulator extends DeviceProvider {
+  // Current moisture of zone N's sensor (1-based), for tests and debugging
+  getMoisture(zone: number): number;
+}
+
+function clampMoisture(moisture: number): number {
+  return Math.min(MAX_MOISTURE, Math.max(MIN_MOISTURE, moisture));
+}
+
+export function tapId(zone: number): string {
+  return `sim-tap-${zone}`;
+}
+
+export function soilSensorId(zone: number): string {
+  return `sim-soil-${zone}`;
+}
+
+export function createDeviceSimulator(options: DeviceSimulatorOptions = {}): DeviceSimulator {
+  const now = options.now || (() => Date.now());
+  const zones: SimulatedZone[] = Array.from({ length: options.zones ?? 2 }, (_, i) => ({
+    index: i + 1,
+    tapOn: false,
+    offAt: null,
+    moisture: options.initialMoisture ?? 35,
+    updatedAt: now(),
+  }));
+
+  // Bring a zone up to `at`: water while the tap is on (until its countdown ends), then dry out
+  const advance = (zone: SimulatedZone, at: number) => {
+    let from = zone.updatedAt;
+
+    if (zone.tapOn) {
+      const wateredUntil = zone.offAt !== null ? Math.min(at, zone.offAt) : at;
+      zone.moisture = clampMoisture(
+        zone.moisture + ((wateredUntil - from) / 60000) * MOISTURE_RISE_PER_MINUTE
+      );
+      from = wateredUntil;
+
+      if (zone.offAt !== null && zone.offAt <= at) {
+        zone.tapOn = false;
+        zone.offAt = null;
+      }
+    }
+
+    if (!zone.tapOn && at > from) {
+      zone.moisture = clampMoisture(zone.moisture - ((at - from) / 3600000) * MOISTURE_DECAY_PER_HOUR);
+    }
+
+    zone.updatedAt = at;
+  };
+
+  const find = (deviceId: string): { zone: SimulatedZone; kind: "tap" | "soil_sensor" } | null => {
+    for (const zone of zones) {
+      if (deviceId === tapId(zone.index)) return { zone, kind: "tap" };
+      if (deviceId === soilSensorId(zone.index)) return { zone, kind: "soil_sensor" };
+    }
+    return null;
+  };
+
+  const describe = (zone: SimulatedZone, kind: "tap" | "soil_sensor"): ListedDevice => {
+    const at = now();
+    advance(zone, at);
+
+    if (kind === "tap") {
+      const remaining = zone.offAt !== null ? Math.ceil((zone.offAt - at) / 1000) : 0;
+      return {
+        id: tapId(zone.index),
+        name: `Simulated Tap ${zone.index}`,
+        online: true,
+        category: "sfkzq",
+        productId: "simulator",
+        productName: "Simulated Water Valve",
+        status: [
+          { code: "switch", value: zone.tapOn },
+          { code: "countdown_1", value: remaining },
+        ],
+      };
+    }
+
+    return {
+      id: soilSensorId(zone.index),
+      name: `Simulated Soil Sensor ${zone.index}`,
+      online: true,
+      category: "zwjcy",
+      productId: "simulator",
+      productName: "Simulated Soil Sensor",
+      status: [
+        { code: "humidity", value: Math.round(zone.moisture) },
+        { code: "temp_current", value: SENSOR_TEMPERATURE },
+        { code: "battery_percentage", value: SENSOR_BATTERY },
+      ],
+    };
+  };
+
+  return {
+    name: "simulator",
+
+    async getDeviceStatus(deviceId: string): Promise<{ device: DeviceResult | null; error?: string }> {
+      const match = find(deviceId);
+      if (!match) {
+        return { device: null, error: `Simulated device ${deviceId} not found` };
+      }
+
+      const { id, name, online, status } = describe(match.zone, match.kind);
+      return { device: { id, name, online, status } };
+    },
+
+    async sendDeviceCommand(
+      deviceId: string,
+      commands: Array<{ code: string; value: DeviceStatusValue }>
+    ): Promise<{ success: boolean; error?: string }> {
+      const match = find(deviceId);
+      if (!match) {
+        return { success: false, error: `Simulated device ${deviceId} not found` };
+      }
+      if (match.kind !== "tap") {
+        return { success: false, error: `Simulated device ${deviceId} does not accept commands` };
+      }
+
+      const zone = match.zone;
+      const at = now();
+      advance(zone, at);
+
+      for (const command of commands) {
+        if (command.code === "switch") {
+          zone.tapOn = command.value === true;
+          if (!zone.tapOn) zone.offAt = null;
+        } else if (command.code === "countdown_1") {
+          const seconds = Number(command.value);
+          zone.offAt = seconds > 0 ? at + seconds * 1000 : null;
+        } else {
+          return { success: false, error: `Simulated tap does not support ${command.code}` };
+        }
+      }
+
+      console.log(`[simulator] ${deviceId} ->`, JSON.stringify(commands));
+      return { success: true };
+    },
+
+    async listDevices(): Promise<{ devices: ListedDevice[]; error?: string }> {
+      return {
+        devices: zones.flatMap((zone) => [describe(zone, "tap"), describe(zone, "soil_sensor")]),
+      };
+    },
+
+    getMoisture(zone: number): number {
+      const simulated = zones[zone - 1];
+      if (!simulated) {
+        throw new Error(`Simulated zone ${zone} does not exist`);
+      }
+      advance(simulated, now());
+      return simulated.moisture;
+    },
+  };
+}
+
+// One simulator per server process. Kept on globalThis so every route bundle (and dev hot
+// reloads) sees the same taps instead of each getting a fresh copy.
+const globalForSimulator = globalThis as typeof globalThis & { deviceSimulator?: DeviceSimulator };
+
+function getSharedSimulator(): DeviceSimulator {
+  if (!globalForSimulator.deviceSimulator) {
+    globalForSimulator.deviceSimulator = createDeviceSimulator({
+      zones: Number(process.env.SIMULATOR_ZONES) || 2,
+    });
+  }
+  return globalForSimulator.deviceSimulator;
+}
+
+export const simulatorProvider: DeviceProvider = {
+  name: "simulator",
+  getDeviceStatus: (deviceId) => getSharedSimulator().getDeviceStatus(deviceId),
+  sendDeviceCommand: (deviceId, commands) => getSharedSimulator().sendDeviceCommand(deviceId, commands),
+  listDevices: () => getSharedSimulator().listDevices(),
+};
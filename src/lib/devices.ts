@@ -0,0 +1,217 @@
+import { tuyaProvider } from "@/lib/tuya";
+import { simulatorProvider } from "@/lib/device-simulator";
+
+// Device access for the rest of the app. Everything goes through a DeviceProvider,
+// chosen with DEVICE_PROVIDER: "tuya" (default, Tuya cloud API) or "simulator"
+// (in-memory tap + soil sensor, for running the app and crons without hardware).
+// Both speak Tuya's data-point (DP) model: a status list of { code, value }.
+
+export type DeviceStatusValue = boolean | number | string;
+
+export interface DeviceResult {
+  id: string;
+  name: string;
+  online: boolean;
+  status: Array<{ code: string; value: DeviceStatusValue }>;
+}
+
+export interface ListedDevice extends DeviceResult {
+  category: string;
+  productId: string;
+  productName: string;
+}
+
+export type DeviceKind = "tap" | "soil_sensor" | "unknown";
+
+export interface DeviceSummary {
+  id: string;
+  name: string;
+  category: string;
+  productId: string;
+  productName: string;
+  online: boolean;
+  codes: string[];
+  kind: DeviceKind;
+}
+
+export interface SoilSensorReading {
+  moisture: number | null;
+  temperature: number | null;
+  battery: number | null;
+}
+
+export interface DeviceProvider {
+  name: string;
+  getDeviceStatus(deviceId: string): Promise<{ device: DeviceResult | null; error?: string }>;
+  sendDeviceCommand(
+    deviceId: string,
+    commands: Array<{ code: string; value: DeviceStatusValue }>
+  ): Promise<{ success: boolean; error?: string }>;
+  listDevices(): Promise<{ devices: ListedDevice[]; error?: string }>;
+}
+
+// Tuya category codes: sfkzq = smart water valve, ggq = irrigation controller, zwjcy = soil/plant sensor
+const TAP_CATEGORIES = ["sfkzq", "ggq"];
+const SOIL_SENSOR_CATEGORIES = ["zwjcy"];
+const MOISTURE_CODES = ["humidity", "soil_humidity", "humidity_value", "moisture"];
+const TEMPERATURE_CODES = ["temp_current", "temperature", "temp_value"];
+const BATTERY_CODES = ["battery_percentage", "battery_state", "battery", "va_battery"];
+// battery_state is an enum rather than a percentage - report it as a rough level
+const BATTERY_STATE_LEVELS: Record<string, number> = { low: 10, middle: 50, high: 100 };
+// Tap on/off DPs: most taps use "switch", multi-outlet valves number them from "switch_1"
+const SWITCH_CODES = ["switch", "switch_1"];
+// Tap countdown DPs (seconds until the tap switches itself off). Override with TUYA_COUNTDOWN_CODE.
+const COUNTDOWN_CODES = process.env.TUYA_COUNTDOWN_CODE
+  ? [process.env.TUYA_COUNTDOWN_CODE]
+  : ["countdown_1", "countdown"];
+
+let activeProvider: DeviceProvider | null = null;
+
+// The switch DP each tap reported last, so commands drive the DP the tap actually has
+const switchCodes = new Map<string, string>();
+
+export function getDeviceProvider(): DeviceProvider {
+  if (!activeProvider) {
+    activeProvider = process.env.DEVICE_PROVIDER === "simulator" ? simulatorProvider : tuyaProvider;
+  }
+  return activeProvider;
+}
+
+// Swap the provider at runtime (tests use this to inject fakes)
+export function setDeviceProvider(provider: DeviceProvider | null): void {
+  activeProvider = provider;
+  switchCodes.clear();
+}
+
+export async function getDeviceStatus(
+  deviceId: string
+): Promise<{ device: DeviceResult | null; error?: string }> {
+  const result = await getDeviceProvider().getDeviceStatus(deviceId);
+  const switchCode = result.device && findSwitchCode(result.device);
+  if (switchCode) switchCodes.set(deviceId, switchCode);
+  return result;
+}
+
+export async function sendDeviceCommand(
+  deviceId: string,
+  commands: Array<{ code: string; value: DeviceStatusValue }>
+): Promise<{ success: boolean; error?: string }> {
+  return getDeviceProvider().sendDeviceCommand(deviceId, commands);
+}
+
+// Decide what a device is from its Tuya category, falling back to the DP codes it reports
+export function classifyDevice(category: string, codes: string[]): DeviceKind {
+  if (TAP_CATEGORIES.includes(category)) return "tap";
+  if (SOIL_SENSOR_CATEGORIES.includes(category)) return "soil_sensor";
+
+  const hasSwitch = codes.some((code) => SWITCH_CODES.includes(code));
+  if (hasSwitch && codes.some((code) => code.startsWith("countdown"))) return "tap";
+  if (!hasSwitch && codes.some((code) => MOISTURE_CODES.includes(code))) return "soil_sensor";
+
+  return "unknown";
+}
+
+// List every device the provider can see, classified as tap / soil sensor
+export async function listDevices(): Promise<{ devices: DeviceSummary[]; error?: string }> {
+  const { devices, error } = await getDeviceProvider().listDevices();
+
+  return {
+    devices: devices.map((device) => {
+      const codes = (device.status || []).map((s) => s.code);
+      return {
+        id: device.id,
+        name: device.name,
+        category: device.category,
+        productId: device.productId,
+        productName: device.productName,
+        online: device.online,
+        codes,
+        kind: classifyDevice(device.category, codes),
+      };
+    }),
+    error,
+  };
+}
+
+// The first switch DP the device reports, or null if it has none
+function findSwitchCode(device: DeviceResult): string | null {
+  return SWITCH_CODES.find((code) => device.status.some((s) => s.code === code)) ?? null;
+}
+
+// The tap's switch DP, from its last status or a fresh one. Falls back to "switch" when the tap
+// can't be reached, so an off command is still sent.
+async function getSwitchCode(deviceId: string): Promise<string> {
+  if (!switchCodes.has(deviceId)) {
+    await getDeviceStatus(deviceId);
+  }
+  return switchCodes.get(deviceId) ?? "switch";
+}
+
+export async function turnOnDevice(
+  deviceId: string
+): Promise<{ success: boolean; error?: string }> {
+  return sendDeviceCommand(deviceId, [{ code: await getSwitchCode(deviceId), value: true }]);
+}
+
+// Turn a tap on with its own countdown set, so it shuts itself off even if no cron ever runs again
+export async function turnOnDeviceFor(
+  deviceId: string,
+  durationMinutes: number
+): Promise<{ success: boolean; countdownSet: boolean; error?: string }> {
+  const { device, error } = await getDeviceStatus(deviceId);
+  if (error || !device) {
+    return { success: false, countdownSet: false, error: error || "Device not found" };
+  }
+
+  const countdownCode = COUNTDOWN_CODES.find((code) => device.status.some((s) => s.code === code));
+  if (!countdownCode) {
+    console.warn(`Device ${deviceId} has no countdown DP - relying on water-check cron to stop it`);
+    const result = await turnOnDevice(deviceId);
+    return { ...result, countdownSet: false };
+  }
+
+  const result = await sendDeviceCommand(deviceId, [
+    { code: findSwitchCode(device) ?? "switch", value: true },
+    { code: countdownCode, value: Math.round(durationMinutes * 60) },
+  ]);
+  return { ...result, countdownSet: result.success };
+}
+
+export function isDeviceOn(device: DeviceResult): boolean {
+  const switchCode = findSwitchCode(device);
+  return device.status.find((s) => s.code === switchCode)?.value === true;
+}
+
+export async function turnOffDevice(
+  deviceId: string
+): Promise<{ success: boolean; error?: string }> {
+  return sendDeviceCommand(deviceId, [{ code: await getSwitchCode(deviceId), value: false }]);
+}
+
+// Parse moisture, temperature and battery from a soil sensor's status codes.
+// Common Tuya soil sensor codes: humidity/soil_humidity, temp_current/temperature, battery_percentage/battery_state
+export function parseSoilSensorStatus(device: DeviceResult): SoilSensorReading {
+  const getStatusValue = (codes: string[]): number | null => {
+    for (const code of codes) {
+      const status = device.status.find((s) => s.code === code);
+      if (status !== undefined && status.value !== undefined) {
+        if (code === "battery_state" && typeof status.value === "string") {
+          return BATTERY_STATE_LEVELS[status.value] ?? null;
+        }
+        const value = typeof status.value === "number" ? status.value : Number(status.value);
+        return Number.isFinite(value) ? value : null;
+      }
+    }
+    return null;
+  };
+
+  const moisture = getStatusValue(MOISTURE_CODES);
+  const temperature = getStatusValue(TEMPERATURE_CODES);
+  const battery = getStatusValue(BATTERY_CODES);
+
+  return {
+    moisture,
+    temperature: temperature !== null ? temperature / 10 : null, // Tuya often sends temp * 10
+    battery,
+  };
+}
@@ -0,0 +1,151 @@
+import { getSoilReadingsBetween, type SoilReading, type WateringEvent } from "@/lib/storage";
+
+// How much a watering run actually moved the zone's soil moisture, worked out from the
+// soil_readings logged around it. Used by /api/history to tune run durations per zone.
+
+// The baseline is the last reading up to this long before the run started
+const BASELINE_WINDOW_MS = 2 * 60 * 60 * 1000;
+// Water takes time to soak down to the probe, so the peak is looked for this long after the run ends
+const PEAK_WINDOW_MS = 6 * 60 * 60 * 1000;
+// Drying is measured from the peak over at most a day, and only once there's enough of a trend
+const DECAY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MIN_DECAY_SPAN_MS = 3 * 60 * 60 * 1000;
+// Only runs this recent are analysed, so a long history never pulls months of soil readings
+const ANALYSIS_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WateringEffectiveness {
+  status: "analysed" | "in_progress" | "no_readings";
+  baselineMoisture: number | null;
+  peakMoisture: number | null;
+  moistureGain: number | null; // peak - baseline, percentage points
+  timeToPeakMinutes: number | null; // from the start of the run
+  decayPerDay: number | null; // percentage points lost per day after the peak
+}
+
+export interface ZoneEffectiveness {
+  runs: number; // analysed runs
+  averageGain: number;
+  averageGainPerMinute: number;
+  averageTimeToPeakMinutes: number;
+  averageDecayPerDay: number | null;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function emptyResult(status: WateringEffectiveness["status"]): WateringEffectiveness {
+  return {
+    status,
+    baselineMoisture: null,
+    peakMoisture: null,
+    moistureGain: null,
+    timeToPeakMinutes: null,
+    decayPerDay: null,
+  };
+}
+
+// Analyse one run against the zone's readings (oldest first). The next run in the same zone,
+// if any, cuts the post-run window short so its water isn't credited to this one.
+export function analyzeWateringEffectiveness(
+  event: WateringEvent,
+  readings: SoilReading[],
+  nextStartedAt?: string | null
+): WateringEffectiveness {
+  if (!event.ended_at) {
+    return emptyResult("in_progress");
+  }
+
+  const start = new Date(event.started_at).getTime();
+  const end = new Date(event.ended_at).getTime();
+  const cutoff = nextStartedAt ? new Date(nextStartedAt).getTime() : Infinity;
+  const timed = readings.map((reading) => ({
+    time: new Date(reading.captured_at).getTime(),
+    moisture: reading.moisture_percent,
+  }));
+
+  const baseline = timed.filter((r) => r.time >= start - BASELINE_WINDOW_MS && r.time <= start).at(-1);
+  const after = timed.filter((r) => r.time > start && r.time <= Math.min(end + PEAK_WINDOW_MS, cutoff));
+  if (!baseline || after.length === 0) {
+    return { ...emptyResult("no_readings"), baselineMoisture: baseline?.moisture ?? null };
+  }
+
+  const peak = after.reduce((best, r) => (r.moisture > best.moisture ? r : best));
+
+  let decayPerDay: number | null = null;
+  const drying = timed.filter((r) => r.time > peak.time && r.time <= Math.min(peak.time + DECAY_WINDOW_MS, cutoff));
+  const last = drying.at(-1);
+  if (last && last.time - peak.time >= MIN_DECAY_SPAN_MS) {
+    decayPerDay = round1(((peak.moisture - last.moisture) / (last.time - peak.time)) * DAY_MS);
+  }
+
+  return {
+    status: "analysed",
+    baselineMoisture: baseline.moisture,
+    peakMoisture: peak.moisture,
+    moistureGain: round1(peak.moisture - baseline.moisture),
+    timeToPeakMinutes: Math.round((peak.time - start) / 60000),
+    decayPerDay,
+  };
+}
+
+// Analyse every event from the last ANALYSIS_WINDOW_MS (any order, any zones), fetching
+// each zone's readings once. Returns event ID -> effectiveness; older runs are left out.
+export async function getWateringEffectiveness(
+  events: WateringEvent[]
+): Promise<Record<string, WateringEffectiveness>> {
+  const since = Date.now() - ANALYSIS_WINDOW_MS;
+  const byZone = new Map<string, WateringEvent[]>();
+  for (const event of events.filter((e) => new Date(e.started_at).getTime() >= since)) {
+    byZone.set(event.zone_id, [...(byZone.get(event.zone_id) || []), event]);
+  }
+
+  const results: Record<string, WateringEffectiveness> = {};
+  const now = new Date().toISOString();
+
+  await Promise.all(
+    [...byZone.entries()].map(async ([zoneId, zoneEvents]) => {
+      const sorted = [...zoneEvents].sort((a, b) => a.started_at.localeCompare(b.started_at));
+      const from = new Date(new Date(sorted[0].started_at).getTime() - BASELINE_WINDOW_MS).toISOString();
+      const readings = await getSoilReadingsBetween(zoneId, from, now);
+
+      sorted.forEach((event, i) => {
+        results[event.id] = analyzeWateringEffectiveness(event, readings, sorted[i + 1]?.started_at);
+      });
+    })
+  );
+
+  return results;
+}
+
+// Per-zone averages over the analysed runs, for comparing run lengths between zones
+export function summarizeEffectivenessByZone(
+  events: WateringEvent[],
+  effectiveness: Record<string, WateringEffectiveness>
+): Record<string, ZoneEffectiveness> {
+  const analysed = new Map<string, Array<{ event: WateringEvent; result: WateringEffectiveness }>>();
+  for (const event of events) {
+    const result = effectiveness[event.id];
+    if (result?.status === "analysed" && event.duration_seconds) {
+      analysed.set(event.zone_id, [...(analysed.get(event.zone_id) || []), { event, result }]);
+    }
+  }
+
+  const summary: Record<string, ZoneEffectiveness> = {};
+  for (const [zoneId, runs] of analysed) {
+    const decays = runs.flatMap(({ result }) => (result.decayPerDay !== null ? [result.decayPerDay] : []));
+    summary[zoneId] = {
+      runs: runs.length,
+      averageGain: round1(average(runs.map(({ result }) => result.moistureGain!))),
+      averageGainPerMinute: Math.round(
+        average(runs.map(({ event, result }) => result.moistureGain! / (event.duration_seconds! / 60))) * 100
+      ) / 100,
+      averageTimeToPeakMinutes: Math.round(average(runs.map(({ result }) => result.timeToPeakMinutes!))),
+      averageDecayPerDay: decays.length > 0 ? round1(average(decays)) : null,
+    };
+  }
+
+  return summary;
+}
@@ -0,0 +1,427 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type {
+  StorageRepository,
+  Zone,
+  WateringEvent,
+  AppUser,
+  Schedule,
+  WateringPolicy,
+  WaterRestrictions,
+  RainDelay,
+  WeatherSnapshot,
+  SoilReading,
+  AiDecision,
+} from "@/lib/storage";
+
+// File-backed implementation of StorageRepository (STORAGE_BACKEND=file) for self-hosting without
+// Supabase. All tables live in one JSON file that is rewritten after every change, so it suits one
+// server with a garden's worth of data - not serverless hosts. The file is read again whenever it
+// has changed on disk, so other processes sharing it (src/proxy.ts runs in its own bundle) see
+// new users at once, and each change is applied to the latest copy rather than overwriting
+// theirs. Without a file path the data is kept in memory only (tests).
+
+interface StoredData {
+  zones: Zone[];
+  schedules: Schedule[];
+  watering_policies: WateringPolicy[];
+  water_restrictions: WaterRestrictions | null;
+  rain_delays: RainDelay[];
+  users: AppUser[];
+  watering_events: WateringEvent[];
+  weather_snapshots: WeatherSnapshot[];
+  soil_readings: SoilReading[];
+  ai_decisions: AiDecision[];
+}
+
+function emptyData(): StoredData {
+  return {
+    zones: [],
+    schedules: [],
+    watering_policies: [],
+    water_restrictions: null,
+    rain_delays: [],
+    users: [],
+    watering_events: [],
+    weather_snapshots: [],
+    soil_readings: [],
+    ai_decisions: [],
+  };
+}
+
+function byNewest<T>(key: keyof T) {
+  return (a: T, b: T) => String(b[key]).localeCompare(String(a[key]));
+}
+
+export function createFileRepository(filePath?: string): StorageRepository {
+  let data: StoredData | null = null;
+  let loadedVersion: string | null = null;
+
+  // Every save renames a new file into place, so the inode changes with each write
+  const fileVersion = (): string | null => {
+    if (!filePath) return null;
+    try {
+      const stats = statSync(filePath);
+      return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return null; // not written yet
+    }
+  };
+
+  // Re-read when the file has changed since it was last read. Changes call this and then save
+  // without awaiting in between, so they always apply to the latest copy.
+  // A corrupt file throws rather than starting empty, which would overwrite the history.
+  const load = (): StoredData => {
+    const version = fileVersion();
+    if (data && version === loadedVersion) return data;
+
+    const loaded: StoredData = version
+      ? { ...emptyData(), ...JSON.parse(readFileSync(filePath as string, "utf8")) }
+      : emptyData();
+    data = loaded;
+    loadedVersion = version;
+    return loaded;
+  };
+
+  // Write to a temp file and rename, so a crash mid-write can't truncate the store.
+  // On failure the in-memory copy is dropped and reloaded from disk on next use.
+  const save = (): boolean => {
+    if (!filePath) return true;
+    try {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileSync(`${filePath}.tmp`, JSON.stringify(data, null, 2));
+      renameSync(`${filePath}.tmp`, filePath);
+      loadedVersion = fileVersion();
+      return true;
+    } catch (error) {
+      console.error("Error writing storage file:", error);
+      data = null;
+      return false;
+    }
+  };
+
+  const now = () => new Date().toISOString();
+
+  return {
+    name: "file",
+
+    async getZones(options = {}) {
+      return load()
+        .zones.filter((zone) => options.includeArchived || !zone.archived_at)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async getZone(zoneId) {
+      return load().zones.find((zone) => zone.id === zoneId) || null;
+    },
+
+    async createZone(zone) {
+      const { zones } = load();
+      if (zones.some((z) => z.id === zone.id)) {
+        console.error(`Error creating zone: ${zone.id} already exists`);
+        return null;
+      }
+      const created: Zone = { ...zone, created_at: now() };
+      zones.push(created);
+      return save() ? created : null;
+    },
+
+    async updateZone(zoneId, changes) {
+      const zone = load().zones.find((z) => z.id === zoneId);
+      if (!zone) return null;
+      Object.assign(zone, changes);
+      return save() ? zone : null;
+    },
+
+    async getSchedules(zoneId) {
+      return load()
+        .schedules.filter((schedule) => !zoneId || schedule.zone_id === zoneId)
+        .sort((a, b) => a.start_time.localeCompare(b.start_time));
+    },
+
+    async getSchedule(scheduleId) {
+      return load().schedules.find((schedule) => schedule.id === scheduleId) || null;
+    },
+
+    async createSchedule(schedule) {
+      const created: Schedule = {
+        enabled: true,
+        skip_if_rain: true,
+        last_run_at: null,
+        ...schedule,
+        id: randomUUID(),
+        created_at: now(),
+      };
+      load().schedules.push(created);
+      return save() ? created : null;
+    },
+
+    async updateSchedule(scheduleId, changes) {
+      const schedule = load().schedules.find((s) => s.id === scheduleId);
+      if (!schedule) return null;
+      Object.assign(schedule, changes);
+      return save() ? schedule : null;
+    },
+
+    async deleteSchedule(scheduleId) {
+      const store = load();
+      store.schedules = store.schedules.filter((s) => s.id !== scheduleId);
+      return save();
+    },
+
+    async getWateringPolicies(zoneId) {
+      return load()
+        .watering_policies.filter((policy) => !zoneId || policy.zone_id === zoneId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async getWateringPolicy(policyId) {
+      return load().watering_policies.find((policy) => policy.id === policyId) || null;
+    },
+
+    async createWateringPolicy(policy) {
+      const created: WateringPolicy = { ...policy, id: randomUUID(), created_at: now() };
+      load().watering_policies.push(created);
+      return save() ? created : null;
+    },
+
+    async updateWateringPolicy(policyId, changes) {
+      const policy = load().watering_policies.find((p) => p.id === policyId);
+      if (!policy) return null;
+      Object.assign(policy, changes);
+      return save() ? policy : null;
+    },
+
+    async deleteWateringPolicy(policyId) {
+      const store = load();
+      store.watering_policies = store.watering_policies.filter((p) => p.id !== policyId);
+      return save();
+    },
+
+    async getWaterRestrictions() {
+      return load().water_restrictions;
+    },
+
+    async saveWaterRestrictions(restrictions) {
+      const store = load();
+      store.water_restrictions = { ...restrictions, updated_at: now() };
+      return save() ? store.water_restrictions : null;
+    },
+
+    async getRainDelays(activeAt) {
+      return load()
+        .rain_delays.filter((delay) => !activeAt || delay.ends_at > activeAt)
+        .sort(byNewest("created_at"));
+    },
+
+    async createRainDelay(delay) {
+      const created: RainDelay = { ...delay, id: randomUUID(), created_at: now() };
+      load().rain_delays.push(created);
+      return save() ? created : null;
+    },
+
+    async endRainDelay(delayId) {
+      const delay = load().rain_delays.find((d) => d.id === delayId);
+      if (!delay) return null;
+      delay.ends_at = now();
+      return save() ? delay : null;
+    },
+
+    async getUsers() {
+      return [...load().users].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async getUser(userId) {
+      return load().users.find((user) => user.id === userId) || null;
+    },
+
+    async getUserByName(name) {
+      return load().users.find((user) => user.name.toLowerCase() === name.toLowerCase()) || null;
+    },
+
+    async createUser(user) {
+      const { users } = load();
+      if (users.some((u) => u.name.toLowerCase() === user.name.toLowerCase())) {
+        console.error(`Error creating user: ${user.name} already exists`);
+        return null;
+      }
+      const created: AppUser = { ...user, id: randomUUID(), created_at: now() };
+      users.push(created);
+      return save() ? created : null;
+    },
+
+    async updateUser(userId, changes) {
+      const user = load().users.find((u) => u.id === userId);
+      if (!user) return null;
+      Object.assign(user, changes);
+      return save() ? user : null;
+    },
+
+    async deleteUser(userId) {
+      const store = load();
+      store.users = store.users.filter((u) => u.id !== userId);
+      return save();
+    },
+
+    async startScheduledWatering(zoneId, durationMinutes, trigger, actor, weatherSnapshotId) {
+      const startedAt = new Date();
+      const event: WateringEvent = {
+        id: randomUUID(),
+        zone_id: zoneId,
+        started_at: startedAt.toISOString(),
+        scheduled_end_at: new Date(startedAt.getTime() + durationMinutes * 60 * 1000).toISOString(),
+        trigger,
+        actor,
+        weather_snapshot_id: weatherSnapshotId ?? undefined,
+        created_at: startedAt.toISOString(),
+      };
+      load().watering_events.push(event);
+      return save() ? event.id : null;
+    },
+
+    async logWateringEnd(eventId, endedAt) {
+      const event = load().watering_events.find((e) => e.id === eventId);
+      if (!event) return false;
+
+      event.ended_at = endedAt;
+      event.duration_seconds = Math.max(
+        0,
+        Math.round((new Date(endedAt).getTime() - new Date(event.started_at).getTime()) / 1000)
+      );
+      return save();
+    },
+
+    async getWateringHistory(limit, zoneId) {
+      const { zones, watering_events, weather_snapshots } = load();
+      return watering_events
+        .filter((event) => !zoneId || event.zone_id === zoneId)
+        .sort(byNewest("started_at"))
+        .slice(0, limit)
+        .map((event) => {
+          const zone = zones.find((z) => z.id === event.zone_id);
+          const snapshot = weather_snapshots.find((w) => w.id === event.weather_snapshot_id);
+          return { ...event, zones: zone ? { name: zone.name } : null, weather_snapshots: snapshot || null };
+        });
+    },
+
+    async getWateringEventsBetween(from, to, zoneId) {
+      return load()
+        .watering_events.filter(
+          (event) =>
+            (!zoneId || event.zone_id === zoneId) &&
+            event.started_at <= to &&
+            (!event.ended_at || event.ended_at >= from)
+        )
+        .sort((a, b) => a.started_at.localeCompare(b.started_at));
+    },
+
+    async getLastWateredForZones() {
+      const lastWatered: Record<string, string> = {};
+      for (const event of load().watering_events) {
+        if (event.ended_at && (!lastWatered[event.zone_id] || event.ended_at > lastWatered[event.zone_id])) {
+          lastWatered[event.zone_id] = event.ended_at;
+        }
+      }
+      return lastWatered;
+    },
+
+    async getActiveWateringEvents(zoneId) {
+      return load()
+        .watering_events.filter((event) => !event.ended_at && (!zoneId || event.zone_id === zoneId))
+        .map((event) => ({
+          id: event.id,
+          zone_id: event.zone_id,
+          started_at: event.started_at,
+          scheduled_end_at: event.scheduled_end_at ?? null,
+        }));
+    },
+
+    async hasActiveWatering(zoneId) {
+      return load().watering_events.some((event) => event.zone_id === zoneId && !event.ended_at);
+    },
+
+    async closeWateringEventsEndedBefore(cutoff) {
+      let closedCount = 0;
+      for (const event of load().watering_events) {
+        if (!event.ended_at && event.scheduled_end_at && event.scheduled_end_at < cutoff) {
+          event.ended_at = event.scheduled_end_at;
+          event.duration_seconds = Math.max(
+            0,
+            Math.round((new Date(event.scheduled_end_at).getTime() - new Date(event.started_at).getTime()) / 1000)
+          );
+          closedCount++;
+          console.log(`Auto-closed stale watering event ${event.id} at its scheduled end`);
+        }
+      }
+      return closedCount === 0 || save() ? closedCount : 0;
+    },
+
+    async captureWeatherSnapshot(weatherData) {
+      const snapshot: WeatherSnapshot = {
+        id: randomUUID(),
+        temperature: weatherData.temperature,
+        humidity: weatherData.humidity,
+        precipitation: weatherData.precipitation,
+        weather_code: weatherData.weatherCode,
+        weather_description: weatherData.weatherDescription,
+        wind_speed: weatherData.windSpeed,
+        rainfall_last_24h: weatherData.recentRainfall.last24h,
+        rainfall_last_7days: weatherData.recentRainfall.last7days,
+        captured_at: now(),
+      };
+      load().weather_snapshots.push(snapshot);
+      return save() ? snapshot.id : null;
+    },
+
+    async getRecentWeatherSnapshots(limit) {
+      return [...load().weather_snapshots].sort(byNewest("captured_at")).slice(0, limit);
+    },
+
+    async logSoilReading(zoneId, moisturePercent, temperature, battery) {
+      load().soil_readings.push({
+        id: randomUUID(),
+        zone_id: zoneId,
+        moisture_percent: moisturePercent,
+        temperature,
+        battery: battery ?? null,
+        captured_at: now(),
+      });
+      return save();
+    },
+
+    async getSoilReadings(zoneId, limit) {
+      return load()
+        .soil_readings.filter((reading) => reading.zone_id === zoneId)
+        .sort(byNewest("captured_at"))
+        .slice(0, limit);
+    },
+
+    async getSoilReadingsBetween(zoneId, from, to) {
+      return load()
+        .soil_readings.filter(
+          (reading) => reading.zone_id === zoneId && reading.captured_at >= from && reading.captured_at <= to
+        )
+        .sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+    },
+
+    async logAiDecision(decision) {
+      const logged: AiDecision = { ...decision, id: randomUUID(), decided_at: now() };
+      load().ai_decisions.push(logged);
+      return save() ? logged.id : null;
+    },
+
+    async getAiDecisions(limit, zoneId) {
+      const { zones, weather_snapshots, ai_decisions } = load();
+      return ai_decisions
+        .filter((decision) => !zoneId || decision.zone_id === zoneId)
+        .sort(byNewest("decided_at"))
+        .slice(0, limit)
+        .map((decision) => {
+          const zone = zones.find((z) => z.id === decision.zone_id);
+          const snapshot = weather_snapshots.find((w) => w.id === decision.weather_snapshot_id);
+          return { ...decision, zones: zone ? { name: zone.name } : null, weather_snapshots: snapshot || null };
+        });
+    },
+  };
+}
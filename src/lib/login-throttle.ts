@@ -0,0 +1,76 @@
+// Login attempt limits. A 6-digit PIN is only a million guesses, so failed logins are counted
+// per client IP and per name, and either one is locked out for a while after too many.
+// Per server instance - serverless instances don't share this, so it's a best-effort limit
+// (like the cron rate limit), but it turns an online brute force from minutes into years.
+
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// A household shares one IP, so it gets more room than a single name
+const MAX_FAILURES = { ip: 20, name: 5 };
+
+interface AttemptRecord {
+  failures: number[]; // times of recent failed attempts
+  lockedUntil: number;
+}
+
+const attempts = new Map<string, AttemptRecord>();
+
+// The client's IP as our own proxy saw it. The client can put anything at the front of
+// X-Forwarded-For, so only trust what the platform sets: X-Real-IP (Vercel and nginx overwrite
+// it), else the last X-Forwarded-For entry, which the proxy in front of us appended.
+export function getClientIp(request: Request): string {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  const lastForwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return realIp || lastForwarded || "unknown";
+}
+
+// A null name is the bootstrap owner PIN, which ignores the name - it's throttled under one
+// fixed key, so changing the name on each try doesn't reset the count
+function keysFor(ip: string, name: string | null): Array<{ key: string; max: number }> {
+  return [
+    { key: `ip:${ip}`, max: MAX_FAILURES.ip },
+    { key: name === null ? "owner-pin" : `name:${name.trim().toLowerCase()}`, max: MAX_FAILURES.name },
+  ];
+}
+
+function prune(now: number) {
+  for (const [key, record] of attempts) {
+    if (record.lockedUntil <= now && record.failures.every((time) => now - time > WINDOW_MS)) {
+      attempts.delete(key);
+    }
+  }
+}
+
+// Seconds until this IP and name may try again, or null if they may try now
+export function getLoginRetryAfter(ip: string, name: string | null, now: number = Date.now()): number | null {
+  const lockedUntil = Math.max(
+    0,
+    ...keysFor(ip, name).map(({ key }) => attempts.get(key)?.lockedUntil ?? 0)
+  );
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : null;
+}
+
+export function recordLoginFailure(ip: string, name: string | null, now: number = Date.now()): void {
+  if (attempts.size > 1000) prune(now);
+
+  for (const { key, max } of keysFor(ip, name)) {
+    const record = attempts.get(key) ?? { failures: [], lockedUntil: 0 };
+    record.failures = [...record.failures.filter((time) => now - time <= WINDOW_MS), now];
+    if (record.failures.length >= max) {
+      record.lockedUntil = now + LOCKOUT_MS;
+      record.failures = [];
+    }
+    attempts.set(key, record);
+  }
+}
+
+// A correct PIN clears the name's count; the IP's keeps counting other names' failures
+export function recordLoginSuccess(ip: string, name: string | null): void {
+  attempts.delete(keysFor(ip, name)[1].key);
+}
+
+// Tests use this to start each case with no recorded attempts
+export function clearLoginAttempts(): void {
+  attempts.clear();
+}
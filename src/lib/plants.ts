@@ -0,0 +1,227 @@
+import type { Zone } from "@/lib/storage";
+
+// Plant profiles: what's growing in each zone and how thirsty it is. The profile lives on the
+// zone row; presets fill in the species, water needs and care notes for common Australian
+// garden plants. Both the auto-water prompt and the chat assistant describe zones with it.
+
+export type WaterNeeds = "low" | "medium" | "high";
+export type SoilType = "sand" | "sandy_loam" | "loam" | "clay_loam" | "clay" | "potting_mix";
+export type SunExposure = "full_sun" | "part_shade" | "full_shade";
+export type EstablishmentStage = "newly_planted" | "establishing" | "established";
+
+export interface PlantPreset {
+  name: string; // common name, stored as the zone's plant_type
+  botanicalName: string;
+  waterNeeds: WaterNeeds;
+  cropCoefficient: number; // FAO-56 Kc: the plant's water use as a fraction of reference ET0
+  establishmentMonths: number; // how long until the roots are established
+  careNotes: string;
+}
+
+export const PLANT_PRESETS: Record<string, PlantPreset> = {
+  "leighton-green": {
+    name: "Leighton Green",
+    botanicalName: "Cupressocyparis leylandii",
+    waterNeeds: "medium",
+    cropCoefficient: 0.6,
+    establishmentMonths: 12,
+    careNotes:
+      "Fast-growing evergreen hedging conifer. Needs regular deep watering while young, 2-3 times a week in summer and less in winter. Prefers well-drained soil and tolerates some drought once established.",
+  },
+  "lilly-pilly": {
+    name: "Lilly Pilly",
+    botanicalName: "Syzygium australe",
+    waterNeeds: "medium",
+    cropCoefficient: 0.6,
+    establishmentMonths: 12,
+    careNotes:
+      "Dense native hedging plant. Keep moist while establishing; once established it only needs water in long dry spells. Dry stress brings on psyllid damage to new growth.",
+  },
+  westringia: {
+    name: "Coastal Rosemary",
+    botanicalName: "Westringia fruticosa",
+    waterNeeds: "low",
+    cropCoefficient: 0.35,
+    establishmentMonths: 6,
+    careNotes:
+      "Hardy coastal native shrub. Very drought tolerant once established and dislikes wet feet; water sparingly and only in extended heat.",
+  },
+  grevillea: {
+    name: "Grevillea",
+    botanicalName: "Grevillea spp.",
+    waterNeeds: "low",
+    cropCoefficient: 0.35,
+    establishmentMonths: 6,
+    careNotes:
+      "Native flowering shrub. Needs free-draining soil and occasional deep watering once established; overwatering causes root rot.",
+  },
+  "kangaroo-paw": {
+    name: "Kangaroo Paw",
+    botanicalName: "Anigozanthos spp.",
+    waterNeeds: "medium",
+    cropCoefficient: 0.5,
+    establishmentMonths: 4,
+    careNotes:
+      "Strappy native perennial. Likes regular water in spring and summer while flowering, with well-drained soil; keep the crown dry in winter.",
+  },
+  lomandra: {
+    name: "Lomandra",
+    botanicalName: "Lomandra longifolia",
+    waterNeeds: "low",
+    cropCoefficient: 0.35,
+    establishmentMonths: 4,
+    careNotes:
+      "Tough native tussock grass. Tolerates drought and poor soils once established; water weekly for the first few months only.",
+  },
+  bottlebrush: {
+    name: "Bottlebrush",
+    botanicalName: "Callistemon spp.",
+    waterNeeds: "medium",
+    cropCoefficient: 0.5,
+    establishmentMonths: 12,
+    careNotes:
+      "Native flowering shrub that copes with wet and dry soils. Deep water fortnightly in summer once established for better flowering.",
+  },
+  correa: {
+    name: "Native Fuchsia",
+    botanicalName: "Correa spp.",
+    waterNeeds: "low",
+    cropCoefficient: 0.4,
+    establishmentMonths: 6,
+    careNotes:
+      "Small native shrub for shade or part shade. Drought tolerant once established and sensitive to waterlogging.",
+  },
+  "sir-walter-buffalo": {
+    name: "Sir Walter Buffalo Lawn",
+    botanicalName: "Stenotaphrum secundatum",
+    waterNeeds: "medium",
+    cropCoefficient: 0.7,
+    establishmentMonths: 2,
+    careNotes:
+      "Soft-leaf buffalo turf. Water new turf daily for the first fortnight, then deeply once or twice a week in summer to encourage deep roots.",
+  },
+  kikuyu: {
+    name: "Kikuyu Lawn",
+    botanicalName: "Pennisetum clandestinum",
+    waterNeeds: "medium",
+    cropCoefficient: 0.6,
+    establishmentMonths: 2,
+    careNotes:
+      "Vigorous warm-season turf. Drought hardy once established; goes dormant rather than dying in dry spells. Deep, infrequent watering in summer.",
+  },
+  citrus: {
+    name: "Citrus",
+    botanicalName: "Citrus spp.",
+    waterNeeds: "high",
+    cropCoefficient: 0.7,
+    establishmentMonths: 24,
+    careNotes:
+      "Lemons, limes and oranges. Need consistent deep watering through spring and summer, especially while fruit sets; irregular watering causes fruit drop and split fruit.",
+  },
+  "vegetable-garden": {
+    name: "Vegetable Garden",
+    botanicalName: "Mixed annual vegetables",
+    waterNeeds: "high",
+    cropCoefficient: 1.0,
+    establishmentMonths: 1,
+    careNotes:
+      "Shallow-rooted annual crops. Keep the soil evenly moist, watering more often in hot weather; mulch to reduce evaporation.",
+  },
+};
+
+export const WATER_NEEDS_LABELS: Record<WaterNeeds, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export const SOIL_TYPE_LABELS: Record<SoilType, string> = {
+  sand: "Sand",
+  sandy_loam: "Sandy loam",
+  loam: "Loam",
+  clay_loam: "Clay loam",
+  clay: "Clay",
+  potting_mix: "Potting mix",
+};
+
+export const SUN_EXPOSURE_LABELS: Record<SunExposure, string> = {
+  full_sun: "Full sun",
+  part_shade: "Part shade",
+  full_shade: "Full shade",
+};
+
+export const ESTABLISHMENT_STAGE_LABELS: Record<EstablishmentStage, string> = {
+  newly_planted: "Newly planted",
+  establishing: "Establishing",
+  established: "Established",
+};
+
+// Plants count as newly planted for their first six weeks in the ground
+const NEWLY_PLANTED_DAYS = 42;
+// Without a preset, assume roots take a year to establish
+const DEFAULT_ESTABLISHMENT_MONTHS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getPlantPreset(presetId: string | null | undefined): PlantPreset | null {
+  return presetId && Object.hasOwn(PLANT_PRESETS, presetId) ? PLANT_PRESETS[presetId] : null;
+}
+
+// Age in whole days, or null without a (past) planting date
+export function getPlantAgeDays(plantDate: string | null | undefined, now: Date = new Date()): number | null {
+  if (!plantDate) return null;
+  const days = Math.floor((now.getTime() - new Date(plantDate).getTime()) / DAY_MS);
+  return days >= 0 ? days : null;
+}
+
+export function formatPlantAge(days: number): string {
+  if (days < 14) return `${days} day${days === 1 ? "" : "s"}`;
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  const months = Math.round(days / 30.44);
+  if (months < 24) return `${months} months`;
+  return `${Math.floor(days / 365.25)} years`;
+}
+
+export function getEstablishmentStage(
+  zone: Pick<Zone, "plant_date" | "plant_preset">,
+  now: Date = new Date()
+): EstablishmentStage | null {
+  const days = getPlantAgeDays(zone.plant_date, now);
+  if (days === null) return null;
+
+  const establishmentMonths = getPlantPreset(zone.plant_preset)?.establishmentMonths ?? DEFAULT_ESTABLISHMENT_MONTHS;
+  if (days < NEWLY_PLANTED_DAYS) return "newly_planted";
+  if (days < establishmentMonths * 30.44) return "establishing";
+  return "established";
+}
+
+// The zone's water needs, falling back to its preset's
+export function getWaterNeeds(zone: Pick<Zone, "water_needs" | "plant_preset">): WaterNeeds | null {
+  return zone.water_needs ?? getPlantPreset(zone.plant_preset)?.waterNeeds ?? null;
+}
+
+// The zone's plant profile as "Label: value" lines for an AI prompt. Unknown fields are left out.
+export function describePlantProfile(zone: Zone, now: Date = new Date()): string[] {
+  const preset = getPlantPreset(zone.plant_preset);
+  const lines: string[] = [];
+
+  const plant = zone.plant_type || preset?.name;
+  lines.push(`Plant: ${plant ? `${plant}${preset ? ` (${preset.botanicalName})` : ""}` : "Unknown"}`);
+
+  const days = getPlantAgeDays(zone.plant_date, now);
+  if (days !== null) {
+    const planted = new Date(zone.plant_date!).toLocaleDateString("en-AU", { timeZone: "Australia/Melbourne" });
+    lines.push(`Planted: ${planted} (${formatPlantAge(days)} ago)`);
+    lines.push(`Establishment stage: ${ESTABLISHMENT_STAGE_LABELS[getEstablishmentStage(zone, now)!]}`);
+  } else {
+    lines.push("Planted: Unknown");
+  }
+
+  const waterNeeds = getWaterNeeds(zone);
+  if (waterNeeds) lines.push(`Water needs: ${WATER_NEEDS_LABELS[waterNeeds]}`);
+  if (zone.soil_type) lines.push(`Soil: ${SOIL_TYPE_LABELS[zone.soil_type]}`);
+  if (zone.sun_exposure) lines.push(`Sun: ${SUN_EXPOSURE_LABELS[zone.sun_exposure]}`);
+  if (preset) lines.push(`Care notes: ${preset.careNotes}`);
+
+  return lines;
+}
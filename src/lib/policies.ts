@@ -0,0 +1,236 @@
+import type { WateringPolicy, WateringPolicyInput } from "@/lib/storage";
+import { getMelbourneTime } from "@/lib/time";
+
+// Seasonal watering policies: how often and how long auto-water may run a zone, and the soil
+// moisture bands it decides by. A zone can have one policy per season plus any number of custom
+// date ranges; a custom range covering today wins over the season, and a season without a policy
+// of the zone's own uses the built-in default below.
+
+export type Season = "summer" | "autumn" | "winter" | "spring";
+export type PolicySeason = Season | "custom";
+
+export type PolicyLimits = Pick<
+  WateringPolicy,
+  | "max_waterings_per_week"
+  | "min_duration_minutes"
+  | "max_duration_minutes"
+  | "critical_moisture"
+  | "dry_moisture"
+  | "adequate_moisture"
+>;
+
+// The limits in force for a zone today, and where they came from
+export interface ActivePolicy extends PolicyLimits {
+  season: PolicySeason;
+  policyId: string | null; // null for a built-in default
+  label: string;
+}
+
+export const SEASONS: Season[] = ["summer", "autumn", "winter", "spring"];
+
+export const SEASON_LABELS: Record<PolicySeason, string> = {
+  summer: "Summer",
+  autumn: "Autumn",
+  winter: "Winter",
+  spring: "Spring",
+  custom: "Custom dates",
+};
+
+// Melbourne defaults. Summer keeps the deep-watering limits auto-water has always used; the cooler
+// months allow fewer, shorter runs and lower moisture bands, as plants draw less water. Every
+// season keeps 30-minute minimum runs so roots still grow deep.
+export const DEFAULT_POLICIES: Record<Season, PolicyLimits> = {
+  summer: {
+    max_waterings_per_week: 3,
+    min_duration_minutes: 30,
+    max_duration_minutes: 60,
+    critical_moisture: 20,
+    dry_moisture: 30,
+    adequate_moisture: 40,
+  },
+  autumn: {
+    max_waterings_per_week: 2,
+    min_duration_minutes: 30,
+    max_duration_minutes: 45,
+    critical_moisture: 18,
+    dry_moisture: 28,
+    adequate_moisture: 38,
+  },
+  winter: {
+    max_waterings_per_week: 1,
+    min_duration_minutes: 30,
+    max_duration_minutes: 40,
+    critical_moisture: 15,
+    dry_moisture: 25,
+    adequate_moisture: 35,
+  },
+  spring: {
+    max_waterings_per_week: 2,
+    min_duration_minutes: 30,
+    max_duration_minutes: 50,
+    critical_moisture: 20,
+    dry_moisture: 30,
+    adequate_moisture: 40,
+  },
+};
+
+// Same ceiling as manual runs and schedules
+const MAX_POLICY_DURATION = 120;
+
+const LIMIT_RANGES: Record<keyof PolicyLimits, [number, number]> = {
+  max_waterings_per_week: [0, 7],
+  min_duration_minutes: [1, MAX_POLICY_DURATION],
+  max_duration_minutes: [1, MAX_POLICY_DURATION],
+  critical_moisture: [0, 100],
+  dry_moisture: [0, 100],
+  adequate_moisture: [0, 100],
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Meteorological seasons in the southern hemisphere, on the Melbourne calendar
+export function getSeason(now: Date = new Date()): Season {
+  const month = Number(getMelbourneTime(now).date.slice(5, 7));
+  if (month === 12 || month <= 2) return "summer";
+  if (month <= 5) return "autumn";
+  if (month <= 8) return "winter";
+  return "spring";
+}
+
+function isMonthDay(value: string): boolean {
+  const match = /^(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const [month, day] = [Number(match[1]), Number(match[2])];
+  return month >= 1 && month <= 12 && day >= 1 && day <= DAYS_IN_MONTH[month - 1];
+}
+
+// "12-20" -> "20 Dec"
+export function formatMonthDay(monthDay: string): string {
+  const [month, day] = monthDay.split("-").map(Number);
+  return `${day} ${MONTHS[month - 1]}`;
+}
+
+// Inclusive at both ends; a range ending before it starts wraps the new year
+function isInDateRange(monthDay: string, start: string, end: string): boolean {
+  return start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end;
+}
+
+export function getPolicyLabel(policy: Pick<WateringPolicy, "season" | "start_date" | "end_date">): string {
+  if (policy.season === "custom" && policy.start_date && policy.end_date) {
+    return `Custom (${formatMonthDay(policy.start_date)} - ${formatMonthDay(policy.end_date)})`;
+  }
+  return SEASON_LABELS[policy.season];
+}
+
+function limitsOf(policy: PolicyLimits): PolicyLimits {
+  return {
+    max_waterings_per_week: policy.max_waterings_per_week,
+    min_duration_minutes: policy.min_duration_minutes,
+    max_duration_minutes: policy.max_duration_minutes,
+    critical_moisture: policy.critical_moisture,
+    dry_moisture: policy.dry_moisture,
+    adequate_moisture: policy.adequate_moisture,
+  };
+}
+
+// The policy in force for a zone, given that zone's policies (oldest first, so the first of
+// overlapping custom ranges wins)
+export function getActivePolicy(zonePolicies: WateringPolicy[], now: Date = new Date()): ActivePolicy {
+  const monthDay = getMelbourneTime(now).date.slice(5);
+  const custom = zonePolicies.find(
+    (policy) =>
+      policy.season === "custom" &&
+      policy.start_date &&
+      policy.end_date &&
+      isInDateRange(monthDay, policy.start_date, policy.end_date)
+  );
+  if (custom) {
+    return { ...limitsOf(custom), season: "custom", policyId: custom.id, label: getPolicyLabel(custom) };
+  }
+
+  const season = getSeason(now);
+  const seasonal = zonePolicies.find((policy) => policy.season === season);
+  if (seasonal) {
+    return { ...limitsOf(seasonal), season, policyId: seasonal.id, label: SEASON_LABELS[season] };
+  }
+
+  return { ...DEFAULT_POLICIES[season], season, policyId: null, label: `${SEASON_LABELS[season]} (default)` };
+}
+
+// Rules spanning several fields, checked on the whole policy (after merging a PATCH)
+export function checkWateringPolicy(policy: Omit<WateringPolicy, "id" | "created_at">): string | null {
+  if (policy.min_duration_minutes > policy.max_duration_minutes) {
+    return "min_duration_minutes can't be more than max_duration_minutes";
+  }
+  if (!(policy.critical_moisture < policy.dry_moisture && policy.dry_moisture < policy.adequate_moisture)) {
+    return "Moisture thresholds must rise from critical_moisture to dry_moisture to adequate_moisture";
+  }
+  if (policy.season === "custom" && (!policy.start_date || !policy.end_date)) {
+    return "start_date and end_date are required for custom policies";
+  }
+  return null;
+}
+
+// Validate a policy create/update request body. With `partial` set, only the fields present
+// in the body are validated (used for PATCH). Dates are cleared for a named season.
+export function parseWateringPolicyInput(
+  body: unknown,
+  partial: boolean
+): { value?: WateringPolicyInput; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const value: WateringPolicyInput = {};
+
+  if (input.zone_id !== undefined) {
+    if (typeof input.zone_id !== "string" || !input.zone_id.trim()) {
+      return { error: "zone_id must be a zone ID" };
+    }
+    value.zone_id = input.zone_id.trim();
+  }
+
+  if (input.season !== undefined) {
+    const seasons: PolicySeason[] = [...SEASONS, "custom"];
+    if (typeof input.season !== "string" || !seasons.includes(input.season as PolicySeason)) {
+      return { error: `season must be one of ${seasons.join(", ")}` };
+    }
+    value.season = input.season as PolicySeason;
+  }
+
+  for (const field of ["start_date", "end_date"] as const) {
+    const date = input[field];
+    if (date === undefined) continue;
+    if (date !== null && date !== "" && (typeof date !== "string" || !isMonthDay(date))) {
+      return { error: `${field} must be a date in MM-DD format` };
+    }
+    value[field] = date || null;
+  }
+
+  if (value.season && value.season !== "custom") {
+    value.start_date = null;
+    value.end_date = null;
+  }
+
+  for (const [field, [min, max]] of Object.entries(LIMIT_RANGES) as Array<[keyof PolicyLimits, [number, number]]>) {
+    const limit = input[field];
+    if (limit === undefined) continue;
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit < min || limit > max) {
+      return { error: `${field} must be a whole number from ${min} to ${max}` };
+    }
+    value[field] = limit;
+  }
+
+  if (!partial) {
+    for (const field of ["zone_id", "season", ...Object.keys(LIMIT_RANGES)] as Array<keyof WateringPolicyInput>) {
+      if (value[field] === undefined) return { error: `${field} is required` };
+    }
+    const policy = { start_date: null, end_date: null, ...value } as Omit<WateringPolicy, "id" | "created_at">;
+    const error = checkWateringPolicy(policy);
+    if (error) return { error };
+  }
+
+  return { value };
+}
@@ -0,0 +1,86 @@
+import type { RainDelay } from "@/lib/storage";
+import { GARDEN_TIMEZONE } from "@/lib/time";
+
+// Rain delays: "we had a storm, don't water for 3 days". A delay covers every zone or one zone
+// until it ends; auto-water and schedules skip while one is in force. Manual runs still work.
+
+export const RAIN_DELAY_DAYS = [1, 2, 3, 5, 7];
+export const MAX_RAIN_DELAY_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REASON_LENGTH = 200;
+
+export interface RainDelayInput {
+  zone_id: string | null;
+  days: number;
+  reason: string | null;
+}
+
+// The delay holding off `zoneId` at `now` - the one ending last, if several overlap. With a null
+// zone only delays covering every zone count.
+export function getRainDelayFor(
+  delays: RainDelay[],
+  zoneId: string | null,
+  now: Date = new Date()
+): RainDelay | null {
+  const at = now.getTime();
+  return delays
+    .filter((delay) => (delay.zone_id === null || delay.zone_id === zoneId) && new Date(delay.ends_at).getTime() > at)
+    .reduce<RainDelay | null>(
+      (latest, delay) => (!latest || delay.ends_at > latest.ends_at ? delay : latest),
+      null
+    );
+}
+
+// "Fri, 16 Jan, 2:30 pm" in Melbourne time
+export function formatDelayEnd(endsAt: string): string {
+  return new Date(endsAt).toLocaleString("en-AU", {
+    timeZone: GARDEN_TIMEZONE,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function describeRainDelay(delay: RainDelay): string {
+  const reason = delay.reason ? ` (${delay.reason})` : "";
+  return `Rain delay until ${formatDelayEnd(delay.ends_at)}${reason}`;
+}
+
+export function getRainDelayEnd(days: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + days * DAY_MS).toISOString();
+}
+
+// Validate a POST /api/rain-delays body
+export function parseRainDelayInput(body: unknown): { value?: RainDelayInput; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+
+  const zoneId = input.zone_id ?? null;
+  if (zoneId !== null && (typeof zoneId !== "string" || !zoneId.trim())) {
+    return { error: "zone_id must be a zone ID, or null for every zone" };
+  }
+
+  const days = input.days;
+  if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_RAIN_DELAY_DAYS) {
+    return { error: `days must be a whole number from 1 to ${MAX_RAIN_DELAY_DAYS}` };
+  }
+
+  const reason = input.reason ?? null;
+  if (reason !== null && (typeof reason !== "string" || reason.length > MAX_REASON_LENGTH)) {
+    return { error: `reason must be text of at most ${MAX_REASON_LENGTH} characters` };
+  }
+
+  return {
+    value: {
+      zone_id: zoneId === null ? null : (zoneId as string).trim(),
+      days,
+      reason: (reason as string | null)?.trim() || null,
+    },
+  };
+}
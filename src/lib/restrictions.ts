@@ -0,0 +1,191 @@
+import type { WaterRestrictionsInput } from "@/lib/storage";
+import { getMelbourneTime, parseTimeOfDay } from "@/lib/time";
+
+// Water restrictions: when the taps may run at all, whatever started them. Victorian water
+// corporations publish Permanent Water Use Rules and, in droughts, stage restrictions that limit
+// watering systems to time windows, certain days or odd/even dates. The household keeps one
+// ruleset; startWatering (watering.ts) refuses any run that breaks it.
+
+export type RestrictionStage = "none" | "permanent" | "stage_1" | "stage_2" | "stage_3" | "stage_4";
+
+// Allowed time of day, "HH:MM" Melbourne time. A window ending before it starts runs past
+// midnight; one that ends when it starts covers the whole day.
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export const RESTRICTION_STAGE_LABELS: Record<RestrictionStage, string> = {
+  none: "No restrictions",
+  permanent: "Permanent Water Use Rules",
+  stage_1: "Stage 1",
+  stage_2: "Stage 2",
+  stage_3: "Stage 3",
+  stage_4: "Stage 4",
+};
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+// Starting points for each stage, modelled on Melbourne's rules. Check your water corporation's
+// current rules and adjust the days (odd/even, house number) to suit. "none" allows any time;
+// auto-water keeps its own daytime hours on top (see the auto-water cron).
+export const RESTRICTION_PRESETS: Record<RestrictionStage, Omit<WaterRestrictionsInput, "stage">> = {
+  none: {
+    allowed_windows: [{ start: "00:00", end: "00:00" }],
+    allowed_days: EVERY_DAY,
+    odd_even: null,
+    max_minutes_per_day: null,
+  },
+  permanent: {
+    allowed_windows: [{ start: "18:00", end: "10:00" }],
+    allowed_days: EVERY_DAY,
+    odd_even: null,
+    max_minutes_per_day: null,
+  },
+  stage_1: {
+    allowed_windows: [{ start: "20:00", end: "08:00" }],
+    allowed_days: EVERY_DAY,
+    odd_even: "odd",
+    max_minutes_per_day: null,
+  },
+  stage_2: {
+    allowed_windows: [{ start: "06:00", end: "08:00" }, { start: "20:00", end: "22:00" }],
+    allowed_days: EVERY_DAY,
+    odd_even: "odd",
+    max_minutes_per_day: 60,
+  },
+  stage_3: {
+    allowed_windows: [{ start: "06:00", end: "08:00" }],
+    allowed_days: [3, 6],
+    odd_even: null,
+    max_minutes_per_day: 60,
+  },
+  stage_4: {
+    allowed_windows: [],
+    allowed_days: EVERY_DAY,
+    odd_even: null,
+    max_minutes_per_day: null,
+  },
+};
+
+// In force until the household saves its own ruleset
+export const DEFAULT_RESTRICTIONS: WaterRestrictionsInput = { stage: "none", ...RESTRICTION_PRESETS.none };
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function formatWindows(windows: TimeWindow[]): string {
+  if (windows.length === 0) return "no times";
+  return windows.map((window) => (window.start === window.end ? "any time" : `${window.start}-${window.end}`)).join(", ");
+}
+
+// Whether a run from `startMinute` (minutes since midnight) for `duration` fits the window
+function fitsWindow(window: TimeWindow, startMinute: number, duration: number): boolean {
+  const start = parseTimeOfDay(window.start);
+  let end = parseTimeOfDay(window.end);
+  if (end === start) return true; // the whole day, so runs may cross midnight
+  if (end < start) end += MINUTES_PER_DAY;
+
+  // A run just after midnight belongs to the window that started the evening before
+  const minute = startMinute < start && startMinute + MINUTES_PER_DAY < end ? startMinute + MINUTES_PER_DAY : startMinute;
+  return minute >= start && minute < end && minute + duration <= end;
+}
+
+// Why a run of `durationMinutes` starting at `at` breaks the restrictions, or null if it may run.
+// `minutesToday` is what the zone has already run (or is booked to run) that Melbourne day.
+export function getRestrictionViolation(
+  restrictions: WaterRestrictionsInput,
+  at: Date,
+  durationMinutes: number,
+  minutesToday = 0
+): string | null {
+  const label = RESTRICTION_STAGE_LABELS[restrictions.stage];
+  const refuse = (reason: string) => `Water restrictions (${label}): ${reason}`;
+  const local = getMelbourneTime(at);
+
+  if (restrictions.allowed_windows.length === 0) {
+    return refuse("watering systems may not be used");
+  }
+
+  if (!restrictions.allowed_days.includes(local.dayOfWeek)) {
+    return refuse(`no watering on ${DAY_NAMES[local.dayOfWeek]}s`);
+  }
+
+  const dayOfMonth = Number(local.date.slice(8, 10));
+  if (restrictions.odd_even && (dayOfMonth % 2 === 1 ? "odd" : "even") !== restrictions.odd_even) {
+    return refuse(`watering on ${restrictions.odd_even}-numbered dates only`);
+  }
+
+  if (!restrictions.allowed_windows.some((window) => fitsWindow(window, local.minutesOfDay, durationMinutes))) {
+    const time = `${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`;
+    return refuse(
+      durationMinutes > 0
+        ? `a ${durationMinutes} minute run from ${time} is outside the allowed times (${formatWindows(restrictions.allowed_windows)})`
+        : `${time} is outside the allowed times (${formatWindows(restrictions.allowed_windows)})`
+    );
+  }
+
+  const cap = restrictions.max_minutes_per_day;
+  if (cap !== null && minutesToday + durationMinutes > cap) {
+    return refuse(`the zone has ${Math.max(0, Math.round(cap - minutesToday))} of its ${cap} minutes left today`);
+  }
+
+  return null;
+}
+
+// Validate a full ruleset (PUT /api/restrictions)
+export function parseWaterRestrictionsInput(body: unknown): { value?: WaterRestrictionsInput; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+
+  if (typeof input.stage !== "string" || !Object.hasOwn(RESTRICTION_STAGE_LABELS, input.stage)) {
+    return { error: `stage must be one of ${Object.keys(RESTRICTION_STAGE_LABELS).join(", ")}` };
+  }
+
+  const windows = input.allowed_windows;
+  if (
+    !Array.isArray(windows) ||
+    !windows.every(
+      (window) =>
+        window &&
+        typeof window === "object" &&
+        TIME_PATTERN.test(String(window.start)) &&
+        TIME_PATTERN.test(String(window.end))
+    )
+  ) {
+    return { error: "allowed_windows must be a list of { start, end } times in HH:MM format" };
+  }
+
+  const days = input.allowed_days;
+  if (
+    !Array.isArray(days) ||
+    days.length === 0 ||
+    !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+  ) {
+    return { error: "allowed_days must be a non-empty list of days 0 (Sunday) to 6 (Saturday)" };
+  }
+
+  const oddEven = input.odd_even ?? null;
+  if (oddEven !== null && oddEven !== "odd" && oddEven !== "even") {
+    return { error: "odd_even must be odd, even or null" };
+  }
+
+  const cap = input.max_minutes_per_day ?? null;
+  if (cap !== null && (typeof cap !== "number" || !Number.isInteger(cap) || cap < 1 || cap > MINUTES_PER_DAY)) {
+    return { error: `max_minutes_per_day must be a whole number from 1 to ${MINUTES_PER_DAY}, or null` };
+  }
+
+  return {
+    value: {
+      stage: input.stage as RestrictionStage,
+      allowed_windows: (windows as TimeWindow[]).map(({ start, end }) => ({ start, end })),
+      allowed_days: Array.from(new Set(days as number[])).sort(),
+      odd_even: oddEven,
+      max_minutes_per_day: cap as number | null,
+    },
+  };
+}
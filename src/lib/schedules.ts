@@ -0,0 +1,107 @@
+import type { Schedule, ScheduleInput } from "@/lib/storage";
+import type { WeatherData } from "@/lib/weather";
+import { getMelbourneTime, parseTimeOfDay, type LocalTime } from "@/lib/time";
+import { MAX_MANUAL_DURATION } from "@/lib/watering";
+
+// A schedule still starts if the cron runs up to this long after its start time
+export const SCHEDULE_WINDOW_MINUTES = 15;
+
+// Rain thresholds for schedules with skip_if_rain set
+const RAIN_SKIP_LAST_24H_MM = 5;
+const RAIN_SKIP_FORECAST_MM = 5;
+const RAIN_SKIP_FORECAST_PROBABILITY = 70;
+
+// Validate a schedule create/update request body. With `partial` set, only the
+// fields present in the body are validated (used for PATCH).
+export function parseScheduleInput(
+  body: unknown,
+  partial: boolean
+): { value?: ScheduleInput; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const value: ScheduleInput = {};
+
+  if (input.zone_id !== undefined) {
+    if (typeof input.zone_id !== "string" || !input.zone_id.trim()) {
+      return { error: "zone_id must be a zone ID" };
+    }
+    value.zone_id = input.zone_id.trim();
+  }
+
+  if (input.days_of_week !== undefined) {
+    const days = input.days_of_week;
+    if (
+      !Array.isArray(days) ||
+      days.length === 0 ||
+      !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    ) {
+      return { error: "days_of_week must be a non-empty list of days 0 (Sunday) to 6 (Saturday)" };
+    }
+    value.days_of_week = Array.from(new Set(days as number[])).sort();
+  }
+
+  if (input.start_time !== undefined) {
+    if (typeof input.start_time !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.start_time)) {
+      return { error: "start_time must be a time in HH:MM format" };
+    }
+    value.start_time = input.start_time;
+  }
+
+  if (input.duration_minutes !== undefined) {
+    const duration = input.duration_minutes;
+    if (typeof duration !== "number" || !Number.isInteger(duration) || duration < 1 || duration > MAX_MANUAL_DURATION) {
+      return { error: `duration_minutes must be a whole number from 1 to ${MAX_MANUAL_DURATION}` };
+    }
+    value.duration_minutes = duration;
+  }
+
+  for (const field of ["enabled", "skip_if_rain"] as const) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== "boolean") return { error: `${field} must be a boolean` };
+      value[field] = input[field] as boolean;
+    }
+  }
+
+  if (!partial) {
+    for (const field of ["zone_id", "days_of_week", "start_time", "duration_minutes"] as const) {
+      if (value[field] === undefined) return { error: `${field} is required` };
+    }
+  }
+
+  return { value };
+}
+
+// Due when today is a scheduled day, the start time has passed within the
+// window, and the schedule hasn't already run today (Melbourne calendar)
+export function isScheduleDue(schedule: Schedule, now: LocalTime): boolean {
+  if (!schedule.enabled || !schedule.days_of_week.includes(now.dayOfWeek)) {
+    return false;
+  }
+
+  const minutesLate = now.minutesOfDay - parseTimeOfDay(schedule.start_time);
+  if (minutesLate < 0 || minutesLate >= SCHEDULE_WINDOW_MINUTES) {
+    return false;
+  }
+
+  return !schedule.last_run_at || getMelbourneTime(new Date(schedule.last_run_at)).date !== now.date;
+}
+
+// Reason to skip a rain-sensitive schedule, or null if it should run
+export function getRainSkipReason(weather: WeatherData | null): string | null {
+  if (!weather) return null;
+
+  if (weather.recentRainfall.last24h >= RAIN_SKIP_LAST_24H_MM) {
+    return `${weather.recentRainfall.last24h}mm of rain in the last 24 hours`;
+  }
+
+  // The next 24 hours rather than today's forecast, so late-day runs still see tomorrow's rain
+  const upcoming = weather.upcomingRainfall;
+  if (upcoming.next24h >= RAIN_SKIP_FORECAST_MM && upcoming.probability >= RAIN_SKIP_FORECAST_PROBABILITY) {
+    return `${upcoming.next24h}mm of rain forecast in the next 24 hours (${upcoming.probability}% chance)`;
+  }
+
+  return null;
+}
@@ -0,0 +1,88 @@
+import { getStorage } from "@/lib/storage";
+import { findMissingColumns, getSchemaVersion } from "@/lib/supabase";
+
+// The database schema the code expects. Keep in step with migrations/ when adding one:
+// bump SCHEMA_VERSION and add the columns here (tests/lib/schema.test.ts compares the two).
+
+export const SCHEMA_VERSION = "0014";
+
+export const EXPECTED_COLUMNS: Record<string, string[]> = {
+  zones: [
+    "id", "device_id", "name", "description", "sensor_device_id", "plant_type", "plant_date",
+    "map_polygon", "archived_at", "created_at", "plant_preset", "water_needs", "soil_type", "sun_exposure",
+  ],
+  weather_snapshots: [
+    "id", "temperature", "humidity", "precipitation", "weather_code", "weather_description",
+    "wind_speed", "rainfall_last_24h", "rainfall_last_7days", "captured_at",
+  ],
+  watering_events: [
+    "id", "zone_id", "started_at", "ended_at", "duration_seconds", "trigger", "weather_snapshot_id",
+    "scheduled_end_at", "actor", "created_at",
+  ],
+  soil_readings: ["id", "zone_id", "moisture_percent", "temperature", "battery", "captured_at"],
+  users: ["id", "name", "role", "pin_hash", "created_at"],
+  schedules: [
+    "id", "zone_id", "days_of_week", "start_time", "duration_minutes", "enabled", "skip_if_rain",
+    "last_run_at", "created_at",
+  ],
+  ai_decisions: [
+    "id", "zone_id", "decided_at", "moisture_percent", "soil_temperature", "weather_snapshot_id",
+    "last_watered_days_ago", "waterings_this_week", "prompt_version", "raw_response", "should_water",
+    "duration_minutes", "reason", "confidence", "fallback_used", "action", "watering_event_id", "error",
+    "mode", "veto_reason", "validation_error",
+  ],
+  watering_policies: [
+    "id", "zone_id", "season", "start_date", "end_date", "max_waterings_per_week", "min_duration_minutes",
+    "max_duration_minutes", "critical_moisture", "dry_moisture", "adequate_moisture", "created_at",
+  ],
+  water_restrictions: ["id", "stage", "allowed_windows", "allowed_days", "odd_even", "max_minutes_per_day", "updated_at"],
+  rain_delays: ["id", "zone_id", "ends_at", "reason", "created_by", "created_at"],
+};
+
+export interface SchemaCheck {
+  version: string | null;
+  missing: string[];
+  error?: string;
+}
+
+// Compare the live database with EXPECTED_COLUMNS. Null when storage isn't Supabase
+// (the file store has no schema to drift).
+export async function checkSchema(): Promise<SchemaCheck | null> {
+  if (getStorage().name !== "supabase") {
+    return null;
+  }
+
+  const [version, { missing, error }] = await Promise.all([
+    getSchemaVersion(),
+    findMissingColumns(EXPECTED_COLUMNS),
+  ]);
+  return { version, missing, error };
+}
+
+// Logged once at server start (src/instrumentation.ts). Warns rather than refusing to start,
+// so a half-migrated database still serves the pages that work.
+export async function reportSchemaDrift(): Promise<void> {
+  try {
+    const check = await checkSchema();
+    if (!check) return;
+
+    if (check.error) {
+      console.warn(`[schema] Could not check the database schema: ${check.error}`);
+      return;
+    }
+
+    if (check.missing.length > 0) {
+      console.error(
+        `[schema] Database is missing ${check.missing.join(", ")} - run \`npm run migrate\` (expected version ${SCHEMA_VERSION}, database at ${check.version ?? "unknown"})`
+      );
+    } else if (check.version !== SCHEMA_VERSION) {
+      console.warn(
+        `[schema] Columns match, but schema_migrations is at ${check.version ?? "none"} (expected ${SCHEMA_VERSION}) - run \`npm run migrate\` to record it`
+      );
+    } else {
+      console.log(`[schema] Database schema is at version ${SCHEMA_VERSION}`);
+    }
+  } catch (error) {
+    console.error("[schema] Schema check failed:", error);
+  }
+}
@@ -0,0 +1,143 @@
+import type { SoilSensorReading } from "@/lib/devices";
+import { getSoilReadings, logSoilReading, type SoilReading } from "@/lib/storage";
+
+// Soil readings are logged by the sensor-ingest cron (and by auto-water when it reads a sensor).
+// Tuya sensors repeat their last report until something changes, so identical readings are
+// skipped - except once per heartbeat, so a flat line still shows the sensor is alive.
+const READING_HEARTBEAT_MS = 60 * 60 * 1000;
+
+export type RecordReadingOutcome = "recorded" | "unchanged" | "failed";
+
+// Store a sensor reading for a zone unless it repeats the zone's latest stored reading.
+// Readings without a moisture value can't be stored and count as failed.
+export async function recordSoilReading(
+  zoneId: string,
+  reading: SoilSensorReading
+): Promise<RecordReadingOutcome> {
+  if (reading.moisture === null) {
+    return "failed";
+  }
+
+  const [last] = await getSoilReadings(zoneId, 1);
+  if (
+    last &&
+    last.moisture_percent === reading.moisture &&
+    (last.temperature ?? null) === reading.temperature &&
+    (last.battery ?? null) === reading.battery &&
+    Date.now() - new Date(last.captured_at).getTime() < READING_HEARTBEAT_MS
+  ) {
+    return "unchanged";
+  }
+
+  const logged = await logSoilReading(
+    zoneId,
+    reading.moisture,
+    reading.temperature ?? undefined,
+    reading.battery ?? undefined
+  );
+  return logged ? "recorded" : "failed";
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Averaging windows for soil history charts
+export const SOIL_HISTORY_BUCKETS = {
+  "15m": 15 * MINUTE,
+  "30m": 30 * MINUTE,
+  "1h": HOUR,
+  "2h": 2 * HOUR,
+  "6h": 6 * HOUR,
+  "12h": 12 * HOUR,
+} as const;
+
+export type SoilHistoryBucket = keyof typeof SOIL_HISTORY_BUCKETS;
+
+// Chart ranges, each with the bucket used when the request doesn't pick one
+export const SOIL_HISTORY_RANGES = {
+  "24h": { ms: 24 * HOUR, bucket: "30m" },
+  "7d": { ms: 7 * 24 * HOUR, bucket: "2h" },
+  "30d": { ms: 30 * 24 * HOUR, bucket: "6h" },
+} as const satisfies Record<string, { ms: number; bucket: SoilHistoryBucket }>;
+
+export type SoilHistoryRange = keyof typeof SOIL_HISTORY_RANGES;
+
+// Keeps a small bucket on a long range from returning thousands of points
+const MAX_SOIL_HISTORY_POINTS = 1000;
+
+export interface SoilHistoryQuery {
+  range: SoilHistoryRange;
+  bucket: SoilHistoryBucket;
+  from: string;
+  to: string;
+}
+
+export interface SoilHistoryPoint {
+  time: string; // start of the bucket
+  moisture: number;
+  temperature: number | null;
+  readings: number;
+}
+
+// Validate the range/bucket query params of a soil history request
+export function parseSoilHistoryQuery(
+  params: URLSearchParams
+): { value?: SoilHistoryQuery; error?: string } {
+  const range = params.get("range") || "24h";
+  if (!Object.hasOwn(SOIL_HISTORY_RANGES, range)) {
+    return { error: `range must be one of ${Object.keys(SOIL_HISTORY_RANGES).join(", ")}` };
+  }
+  const rangeConfig = SOIL_HISTORY_RANGES[range as SoilHistoryRange];
+
+  const bucket = params.get("bucket") || rangeConfig.bucket;
+  if (!Object.hasOwn(SOIL_HISTORY_BUCKETS, bucket)) {
+    return { error: `bucket must be one of ${Object.keys(SOIL_HISTORY_BUCKETS).join(", ")}` };
+  }
+  if (rangeConfig.ms / SOIL_HISTORY_BUCKETS[bucket as SoilHistoryBucket] > MAX_SOIL_HISTORY_POINTS) {
+    return { error: `bucket ${bucket} is too small for a ${range} range` };
+  }
+
+  const to = Date.now();
+  return {
+    value: {
+      range: range as SoilHistoryRange,
+      bucket: bucket as SoilHistoryBucket,
+      from: new Date(to - rangeConfig.ms).toISOString(),
+      to: new Date(to).toISOString(),
+    },
+  };
+}
+
+// Average readings (oldest first) into fixed buckets aligned to the epoch, so a bucket
+// covers the same window on every refresh. Buckets without readings are left out.
+export function bucketSoilReadings(readings: SoilReading[], bucket: SoilHistoryBucket): SoilHistoryPoint[] {
+  const bucketMs = SOIL_HISTORY_BUCKETS[bucket];
+  const buckets = new Map<number, SoilReading[]>();
+
+  for (const reading of readings) {
+    const start = Math.floor(new Date(reading.captured_at).getTime() / bucketMs) * bucketMs;
+    const group = buckets.get(start);
+    if (group) {
+      group.push(reading);
+    } else {
+      buckets.set(start, [reading]);
+    }
+  }
+
+  const average = (values: number[]) =>
+    Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, group]) => {
+      const temperatures = group
+        .map((reading) => reading.temperature)
+        .filter((temperature): temperature is number => temperature !== undefined && temperature !== null);
+      return {
+        time: new Date(start).toISOString(),
+        moisture: average(group.map((reading) => reading.moisture_percent)),
+        temperature: temperatures.length > 0 ? average(temperatures) : null,
+        readings: group.length,
+      };
+    });
+}
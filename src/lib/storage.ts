@@ -0,0 +1,513 @@
+import { supabaseRepository, isSupabaseConfigured } from "@/lib/supabase";
+import { createFileRepository } from "@/lib/file-storage";
+import type { SoilType, SunExposure, WaterNeeds } from "@/lib/plants";
+import type { PolicySeason } from "@/lib/policies";
+import type { RestrictionStage, TimeWindow } from "@/lib/restrictions";
+
+// Storage for zones, schedules, watering policies, water restrictions, users, watering events, weather snapshots and soil readings.
+// Everything goes through a StorageRepository, chosen with STORAGE_BACKEND: "supabase" (hosted)
+// or "file" (a local JSON file, STORAGE_FILE). Without STORAGE_BACKEND, Supabase is used when
+// its env vars are set. Otherwise development falls back to the file store, but production
+// refuses to start: a deployment that lost its Supabase env vars would quietly keep its data in
+// a throwaway file. Either way there is always somewhere to record runs, so safety checks like
+// "is this zone already watering?" never silently pass.
+
+// Types for our database tables
+export interface Zone {
+  id: string;
+  device_id: string;
+  name: string;
+  description?: string;
+  sensor_device_id?: string | null;
+  plant_type?: string | null;
+  plant_date?: string | null;
+  // Plant profile (see plants.ts); water_needs overrides the preset's
+  plant_preset?: string | null;
+  water_needs?: WaterNeeds | null;
+  soil_type?: SoilType | null;
+  sun_exposure?: SunExposure | null;
+  // Polygon outline on the property map, as [x, y] percentages of the image
+  map_polygon?: Array<[number, number]> | null;
+  // Archived zones are hidden from the dashboard and crons but keep their history
+  archived_at?: string | null;
+  created_at: string;
+}
+
+export type ZoneInput = Partial<Omit<Zone, "created_at">>;
+
+export interface WateringEvent {
+  id: string;
+  zone_id: string;
+  started_at: string;
+  ended_at?: string;
+  duration_seconds?: number;
+  trigger: "manual" | "scheduled" | "automated";
+  weather_snapshot_id?: string;
+  scheduled_end_at?: string;
+  // Name of the household user who started a manual run (null for crons)
+  actor?: string | null;
+  created_at: string;
+  // Joined in by getWateringHistory
+  zones?: { name: string } | null;
+  weather_snapshots?: WeatherSnapshot | null;
+}
+
+export type UserRole = "owner" | "gardener" | "viewer";
+
+export interface AppUser {
+  id: string;
+  name: string;
+  role: UserRole;
+  pin_hash: string;
+  created_at: string;
+}
+
+export type AppUserInput = Partial<Omit<AppUser, "id" | "created_at">>;
+
+export interface Schedule {
+  id: string;
+  zone_id: string;
+  // Days the schedule runs, 0 = Sunday ... 6 = Saturday (Melbourne calendar)
+  days_of_week: number[];
+  // Local start time "HH:MM" in Australia/Melbourne
+  start_time: string;
+  duration_minutes: number;
+  enabled: boolean;
+  skip_if_rain: boolean;
+  last_run_at?: string | null;
+  created_at: string;
+}
+
+export type ScheduleInput = Partial<Omit<Schedule, "id" | "created_at">>;
+
+// A zone's limits for one season or custom date range (see policies.ts)
+export interface WateringPolicy {
+  id: string;
+  zone_id: string;
+  season: PolicySeason;
+  // Custom ranges only: "MM-DD" to "MM-DD" inclusive, Melbourne calendar; may wrap the new year
+  start_date: string | null;
+  end_date: string | null;
+  max_waterings_per_week: number;
+  min_duration_minutes: number;
+  max_duration_minutes: number;
+  critical_moisture: number;
+  dry_moisture: number;
+  adequate_moisture: number;
+  created_at: string;
+}
+
+export type WateringPolicyInput = Partial<Omit<WateringPolicy, "id" | "created_at">>;
+
+// The household's water restriction ruleset (see restrictions.ts); a single row
+export interface WaterRestrictions {
+  stage: RestrictionStage;
+  allowed_windows: TimeWindow[];
+  allowed_days: number[]; // 0 = Sunday ... 6 = Saturday
+  odd_even: "odd" | "even" | null; // only odd- or even-numbered dates of the month
+  max_minutes_per_day: number | null; // per zone, per Melbourne day
+  updated_at: string;
+}
+
+export type WaterRestrictionsInput = Omit<WaterRestrictions, "updated_at">;
+
+// No auto-water or scheduled runs until ends_at (see rain-delay.ts)
+export interface RainDelay {
+  id: string;
+  zone_id: string | null; // null for every zone
+  ends_at: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface WeatherSnapshot {
+  id: string;
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  weather_code: number;
+  weather_description: string;
+  wind_speed: number;
+  rainfall_last_24h: number;
+  rainfall_last_7days: number;
+  captured_at: string;
+}
+
+export interface SoilReading {
+  id: string;
+  zone_id: string;
+  moisture_percent: number;
+  temperature?: number;
+  battery?: number | null;
+  captured_at: string;
+}
+
+// One auto-water decision: its inputs, the model's output and what was done about it
+export interface AiDecision {
+  id: string;
+  zone_id: string;
+  decided_at: string;
+  moisture_percent: number;
+  soil_temperature: number | null;
+  weather_snapshot_id: string | null;
+  last_watered_days_ago: number | null;
+  waterings_this_week: number;
+  prompt_version: string;
+  raw_response: string | null; // null when the model wasn't called
+  should_water: boolean;
+  duration_minutes: number;
+  reason: string;
+  confidence: "high" | "medium" | "low";
+  fallback_used: boolean;
+  mode: "ai" | "rules"; // DECISION_MODE the decision was made under
+  veto_reason: string | null; // hard rule that overrode an AI decision to water
+  validation_error: string | null; // why model replies were rejected, even if a retry succeeded
+  action: "started" | "none" | "error";
+  watering_event_id: string | null;
+  error: string | null;
+  // Joined in by getAiDecisions
+  zones?: { name: string } | null;
+  weather_snapshots?: WeatherSnapshot | null;
+}
+
+export type AiDecisionInput = Omit<AiDecision, "id" | "decided_at" | "zones" | "weather_snapshots">;
+
+
+export type WateringTrigger = WateringEvent["trigger"];
+
+export interface ActiveWateringEvent {
+  id: string;
+  zone_id: string;
+  started_at: string;
+  scheduled_end_at: string | null;
+}
+
+export interface WeatherSnapshotInput {
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  weatherCode: number;
+  weatherDescription: string;
+  windSpeed: number;
+  recentRainfall: { last24h: number; last7days: number };
+}
+
+// Every backend follows the same failure convention as the original Supabase helpers:
+// log the error and return null / [] / false. Reads that guard safety checks (users,
+// restrictions, usage, rain delays) throw instead, where an empty answer would let something through.
+export interface StorageRepository {
+  name: string;
+
+  getZones(options?: { includeArchived?: boolean }): Promise<Zone[]>;
+  getZone(zoneId: string): Promise<Zone | null>;
+  createZone(zone: ZoneInput & { id: string; device_id: string; name: string }): Promise<Zone | null>;
+  updateZone(zoneId: string, changes: ZoneInput): Promise<Zone | null>;
+
+  getSchedules(zoneId?: string): Promise<Schedule[]>;
+  getSchedule(scheduleId: string): Promise<Schedule | null>;
+  createSchedule(
+    schedule: ScheduleInput & Pick<Schedule, "zone_id" | "days_of_week" | "start_time" | "duration_minutes">
+  ): Promise<Schedule | null>;
+  updateSchedule(scheduleId: string, changes: ScheduleInput): Promise<Schedule | null>;
+  deleteSchedule(scheduleId: string): Promise<boolean>;
+
+  getWateringPolicies(zoneId?: string): Promise<WateringPolicy[]>;
+  getWateringPolicy(policyId: string): Promise<WateringPolicy | null>;
+  createWateringPolicy(policy: Omit<WateringPolicy, "id" | "created_at">): Promise<WateringPolicy | null>;
+  updateWateringPolicy(policyId: string, changes: WateringPolicyInput): Promise<WateringPolicy | null>;
+  deleteWateringPolicy(policyId: string): Promise<boolean>;
+
+  // Null until a ruleset has been saved. Throws on a storage error, so an outage never looks
+  // like "no restrictions"
+  getWaterRestrictions(): Promise<WaterRestrictions | null>;
+  saveWaterRestrictions(restrictions: WaterRestrictionsInput): Promise<WaterRestrictions | null>;
+
+  // With `activeAt`, only delays still in force then; newest first. Throws on a storage error.
+  getRainDelays(activeAt?: string): Promise<RainDelay[]>;
+  createRainDelay(delay: Omit<RainDelay, "id" | "created_at">): Promise<RainDelay | null>;
+  // Cancels a delay by ending it now, keeping the record
+  endRainDelay(delayId: string): Promise<RainDelay | null>;
+
+  // Both throw on a storage error, so an outage never looks like "no users yet" or a deleted user
+  getUsers(): Promise<AppUser[]>;
+  getUser(userId: string): Promise<AppUser | null>;
+  getUserByName(name: string): Promise<AppUser | null>;
+  createUser(user: Omit<AppUser, "id" | "created_at">): Promise<AppUser | null>;
+  updateUser(userId: string, changes: AppUserInput): Promise<AppUser | null>;
+  deleteUser(userId: string): Promise<boolean>;
+
+  // Log a watering run with a scheduled end time; returns the new event ID
+  startScheduledWatering(
+    zoneId: string,
+    durationMinutes: number,
+    trigger: WateringTrigger,
+    actor: string | null,
+    weatherSnapshotId?: string | null
+  ): Promise<string | null>;
+  logWateringEnd(eventId: string, endedAt: string): Promise<boolean>;
+  // Newest first, with the zone's name and the run's weather snapshot joined in
+  getWateringHistory(limit: number, zoneId?: string): Promise<WateringEvent[]>;
+  // Runs that overlap [from, to] (still-open runs included), oldest first. Throws on a storage
+  // error, so the daily limit never counts an outage as zero minutes
+  getWateringEventsBetween(from: string, to: string, zoneId?: string): Promise<WateringEvent[]>;
+  // zone_id -> ended_at of the zone's most recent completed run
+  getLastWateredForZones(): Promise<Record<string, string>>;
+  getActiveWateringEvents(zoneId?: string): Promise<ActiveWateringEvent[]>;
+  hasActiveWatering(zoneId: string): Promise<boolean>;
+  // Close runs whose scheduled end passed before `cutoff` at that scheduled end
+  closeWateringEventsEndedBefore(cutoff: string): Promise<number>;
+
+  captureWeatherSnapshot(weatherData: WeatherSnapshotInput): Promise<string | null>;
+  getRecentWeatherSnapshots(limit: number): Promise<WeatherSnapshot[]>;
+
+  logSoilReading(zoneId: string, moisturePercent: number, temperature?: number, battery?: number): Promise<boolean>;
+  getSoilReadings(zoneId: string, limit: number): Promise<SoilReading[]>;
+  // Every reading captured in [from, to], oldest first
+  getSoilReadingsBetween(zoneId: string, from: string, to: string): Promise<SoilReading[]>;
+
+  logAiDecision(decision: AiDecisionInput): Promise<string | null>;
+  // Newest first, with the zone's name and the decision's weather snapshot joined in
+  getAiDecisions(limit: number, zoneId?: string): Promise<AiDecision[]>;
+}
+
+// Open events are closed automatically once their scheduled end is this far in the past
+const STALE_EVENT_MS = 4 * 60 * 60 * 1000;
+
+let activeRepository: StorageRepository | null = null;
+
+export function getStorage(): StorageRepository {
+  if (!activeRepository) {
+    const backend = process.env.STORAGE_BACKEND || (isSupabaseConfigured() ? "supabase" : null);
+    if (backend === "supabase") {
+      if (!isSupabaseConfigured()) {
+        throw new Error("STORAGE_BACKEND=supabase but NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY are not set");
+      }
+      activeRepository = supabaseRepository;
+    } else if (backend === "file" || (backend === null && process.env.NODE_ENV !== "production")) {
+      const filePath = process.env.STORAGE_FILE || ".data/garden.json";
+      if (backend === null) {
+        console.warn(`Supabase is not configured - using file storage at ${filePath} (set STORAGE_BACKEND=file to choose it)`);
+      } else {
+        console.log(`Using file storage at ${filePath}`);
+      }
+      activeRepository = createFileRepository(filePath);
+    } else if (backend === null) {
+      throw new Error(
+        "No storage configured: set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY, or STORAGE_BACKEND=file"
+      );
+    } else {
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" - use "supabase" or "file"`);
+    }
+  }
+  return activeRepository;
+}
+
+// Swap the repository at runtime (tests use this to inject an in-memory store)
+export function setStorage(repository: StorageRepository | null): void {
+  activeRepository = repository;
+}
+
+export async function getZones(options: { includeArchived?: boolean } = {}): Promise<Zone[]> {
+  return getStorage().getZones(options);
+}
+
+export async function getZone(zoneId: string): Promise<Zone | null> {
+  return getStorage().getZone(zoneId);
+}
+
+export async function createZone(
+  zone: ZoneInput & { id: string; device_id: string; name: string }
+): Promise<Zone | null> {
+  return getStorage().createZone(zone);
+}
+
+export async function updateZone(zoneId: string, changes: ZoneInput): Promise<Zone | null> {
+  return getStorage().updateZone(zoneId, changes);
+}
+
+// Archive rather than delete so the zone's watering_events history is kept
+export async function archiveZone(zoneId: string): Promise<Zone | null> {
+  return updateZone(zoneId, { archived_at: new Date().toISOString() });
+}
+
+export async function getSchedules(zoneId?: string): Promise<Schedule[]> {
+  return getStorage().getSchedules(zoneId);
+}
+
+export async function getSchedule(scheduleId: string): Promise<Schedule | null> {
+  return getStorage().getSchedule(scheduleId);
+}
+
+export async function createSchedule(
+  schedule: ScheduleInput & Pick<Schedule, "zone_id" | "days_of_week" | "start_time" | "duration_minutes">
+): Promise<Schedule | null> {
+  return getStorage().createSchedule(schedule);
+}
+
+export async function updateSchedule(scheduleId: string, changes: ScheduleInput): Promise<Schedule | null> {
+  return getStorage().updateSchedule(scheduleId, changes);
+}
+
+export async function deleteSchedule(scheduleId: string): Promise<boolean> {
+  return getStorage().deleteSchedule(scheduleId);
+}
+
+// Oldest first, so the first of overlapping custom ranges wins
+export async function getWateringPolicies(zoneId?: string): Promise<WateringPolicy[]> {
+  return getStorage().getWateringPolicies(zoneId);
+}
+
+export async function getWateringPolicy(policyId: string): Promise<WateringPolicy | null> {
+  return getStorage().getWateringPolicy(policyId);
+}
+
+export async function createWateringPolicy(
+  policy: Omit<WateringPolicy, "id" | "created_at">
+): Promise<WateringPolicy | null> {
+  return getStorage().createWateringPolicy(policy);
+}
+
+export async function updateWateringPolicy(
+  policyId: string,
+  changes: WateringPolicyInput
+): Promise<WateringPolicy | null> {
+  return getStorage().updateWateringPolicy(policyId, changes);
+}
+
+export async function deleteWateringPolicy(policyId: string): Promise<boolean> {
+  return getStorage().deleteWateringPolicy(policyId);
+}
+
+export async function getWaterRestrictions(): Promise<WaterRestrictions | null> {
+  return getStorage().getWaterRestrictions();
+}
+
+export async function saveWaterRestrictions(restrictions: WaterRestrictionsInput): Promise<WaterRestrictions | null> {
+  return getStorage().saveWaterRestrictions(restrictions);
+}
+
+export async function getRainDelays(activeAt?: string): Promise<RainDelay[]> {
+  return getStorage().getRainDelays(activeAt);
+}
+
+export async function createRainDelay(delay: Omit<RainDelay, "id" | "created_at">): Promise<RainDelay | null> {
+  return getStorage().createRainDelay(delay);
+}
+
+export async function endRainDelay(delayId: string): Promise<RainDelay | null> {
+  return getStorage().endRainDelay(delayId);
+}
+
+export async function getUsers(): Promise<AppUser[]> {
+  return getStorage().getUsers();
+}
+
+export async function getUser(userId: string): Promise<AppUser | null> {
+  return getStorage().getUser(userId);
+}
+
+// Case-insensitive, so "sam" logs in as "Sam"
+export async function getUserByName(name: string): Promise<AppUser | null> {
+  return getStorage().getUserByName(name);
+}
+
+export async function createUser(user: Omit<AppUser, "id" | "created_at">): Promise<AppUser | null> {
+  return getStorage().createUser(user);
+}
+
+export async function updateUser(userId: string, changes: AppUserInput): Promise<AppUser | null> {
+  return getStorage().updateUser(userId, changes);
+}
+
+export async function deleteUser(userId: string): Promise<boolean> {
+  return getStorage().deleteUser(userId);
+}
+
+export async function startScheduledWatering(
+  zoneId: string,
+  durationMinutes: number,
+  trigger: WateringTrigger = "automated",
+  actor: string | null = null,
+  weatherSnapshotId: string | null = null
+): Promise<string | null> {
+  return getStorage().startScheduledWatering(zoneId, durationMinutes, trigger, actor, weatherSnapshotId);
+}
+
+export async function logWateringEnd(
+  eventId: string,
+  endedAt: string = new Date().toISOString()
+): Promise<boolean> {
+  return getStorage().logWateringEnd(eventId, endedAt);
+}
+
+export async function getWateringHistory(
+  limit: number = 50,
+  zoneId?: string
+): Promise<WateringEvent[]> {
+  return getStorage().getWateringHistory(limit, zoneId);
+}
+
+export async function getWateringEventsBetween(
+  from: string,
+  to: string,
+  zoneId?: string
+): Promise<WateringEvent[]> {
+  return getStorage().getWateringEventsBetween(from, to, zoneId);
+}
+
+export async function getLastWateredForZones(): Promise<Record<string, string>> {
+  return getStorage().getLastWateredForZones();
+}
+
+// Get every watering event that hasn't been logged as ended yet
+export async function getActiveWateringEvents(zoneId?: string): Promise<ActiveWateringEvent[]> {
+  return getStorage().getActiveWateringEvents(zoneId);
+}
+
+// Check if the zone has any open watering event, whatever started it
+export async function hasActiveWatering(zoneId: string): Promise<boolean> {
+  return getStorage().hasActiveWatering(zoneId);
+}
+
+// Close watering events the water-check cron never reconciled (e.g. cron not running).
+// Runs with a scheduled end are closed at that time; open-ended runs are left to reconcileWatering,
+// which can see the tap's real state instead of guessing a duration.
+export async function closeStaleWateringEvents(): Promise<number> {
+  return getStorage().closeWateringEventsEndedBefore(
+    new Date(Date.now() - STALE_EVENT_MS).toISOString()
+  );
+}
+
+export async function captureWeatherSnapshot(weatherData: WeatherSnapshotInput): Promise<string | null> {
+  return getStorage().captureWeatherSnapshot(weatherData);
+}
+
+export async function getRecentWeatherSnapshots(limit: number = 10): Promise<WeatherSnapshot[]> {
+  return getStorage().getRecentWeatherSnapshots(limit);
+}
+
+export async function logSoilReading(
+  zoneId: string,
+  moisturePercent: number,
+  temperature?: number,
+  battery?: number
+): Promise<boolean> {
+  return getStorage().logSoilReading(zoneId, moisturePercent, temperature, battery);
+}
+
+export async function getSoilReadings(zoneId: string, limit: number = 100): Promise<SoilReading[]> {
+  return getStorage().getSoilReadings(zoneId, limit);
+}
+
+export async function getSoilReadingsBetween(zoneId: string, from: string, to: string): Promise<SoilReading[]> {
+  return getStorage().getSoilReadingsBetween(zoneId, from, to);
+}
+
+export async function logAiDecision(decision: AiDecisionInput): Promise<string | null> {
+  return getStorage().logAiDecision(decision);
+}
+
+export async function getAiDecisions(limit: number = 50, zoneId?: string): Promise<AiDecision[]> {
+  return getStorage().getAiDecisions(limit, zoneId);
+}
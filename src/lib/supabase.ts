@@ -1,108 +1,467 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type {
+  StorageRepository,
+  Zone,
+  ZoneInput,
+  WateringEvent,
+  AppUser,
+  AppUserInput,
+  Schedule,
+  ScheduleInput,
+  WateringPolicy,
+  WateringPolicyInput,
+  WaterRestrictions,
+  WaterRestrictionsInput,
+  RainDelay,
+  WeatherSnapshot,
+  WeatherSnapshotInput,
+  SoilReading,
+  AiDecision,
+  AiDecisionInput,
+  ActiveWateringEvent,
+  WateringTrigger,
+} from "@/lib/storage";
+
+// Supabase implementation of StorageRepository (see lib/storage.ts)
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
 // Create client only if credentials are available
-export const supabase: SupabaseClient | null =
+const supabase: SupabaseClient | null =
   supabaseUrl && supabaseAnonKey
     ? createClient(supabaseUrl, supabaseAnonKey)
     : null;
 
 export const isSupabaseConfigured = () => !!supabase;
 
-// Types for our database tables
-export interface Zone {
-  id: string;
-  device_id: string;
-  name: string;
-  description?: string;
-  created_at: string;
-}
-
-export interface WateringEvent {
-  id: string;
-  zone_id: string;
-  started_at: string;
-  ended_at?: string;
-  duration_seconds?: number;
-  trigger: "manual" | "scheduled" | "automated";
-  weather_snapshot_id?: string;
-  scheduled_end_at?: string;
-  created_at: string;
-}
-
-export interface WeatherSnapshot {
-  id: string;
-  temperature: number;
-  humidity: number;
-  precipitation: number;
-  weather_code: number;
-  weather_description: string;
-  wind_speed: number;
-  rainfall_last_24h: number;
-  rainfall_last_7days: number;
-  captured_at: string;
-}
-
-export interface SoilReading {
-  id: string;
-  zone_id: string;
-  moisture_percent: number;
-  temperature?: number;
-  captured_at: string;
-}
-
-// Helper functions for database operations
-export async function logWateringStart(
-  zoneId: string,
-  zoneName: string,
-  deviceId: string,
-  trigger: "manual" | "scheduled" | "automated" = "manual"
-): Promise<string | null> {
+// The users table (PIN hashes and roles) is closed to the public anon key; only this
+// server-side client, with the service role key, can read or change it
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const serviceClient: SupabaseClient | null =
+  supabaseUrl && supabaseServiceRoleKey
+    ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { persistSession: false } })
+    : null;
+
+// lib/storage only selects this repository when the client exists
+function db(): SupabaseClient {
   if (!supabase) {
-    console.log("Supabase not configured, skipping watering log");
+    throw new Error("Supabase not configured");
+  }
+  return supabase;
+}
+
+function usersDb(): SupabaseClient {
+  if (!serviceClient) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set - it is needed to read household users");
+  }
+  return serviceClient;
+}
+
+async function getZones(
+  options: { includeArchived?: boolean } = {}
+): Promise<Zone[]> {
+  let query = db()
+    .from("zones")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (!options.includeArchived) {
+    query = query.is("archived_at", null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching zones:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+async function getZone(zoneId: string): Promise<Zone | null> {
+  const { data, error } = await db()
+    .from("zones")
+    .select("*")
+    .eq("id", zoneId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching zone:", error);
     return null;
   }
 
-  // First ensure the zone exists
-  const { error: zoneError } = await supabase
+  return data;
+}
+
+async function createZone(zone: ZoneInput & { id: string; device_id: string; name: string }): Promise<Zone | null> {
+  const { data, error } = await db()
     .from("zones")
-    .upsert({ id: zoneId, device_id: deviceId, name: zoneName }, { onConflict: "id" });
+    .insert(zone)
+    .select("*")
+    .single();
 
-  if (zoneError) {
-    console.error("Error upserting zone:", zoneError);
+  if (error) {
+    console.error("Error creating zone:", error);
+    return null;
   }
 
-  // Create watering event
-  const { data, error } = await supabase
-    .from("watering_events")
-    .insert({
-      zone_id: zoneId,
-      started_at: new Date().toISOString(),
-      trigger,
-    })
-    .select("id")
+  return data;
+}
+
+async function updateZone(zoneId: string, changes: ZoneInput): Promise<Zone | null> {
+  const { data, error } = await db()
+    .from("zones")
+    .update(changes)
+    .eq("id", zoneId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating zone:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function getSchedules(zoneId?: string): Promise<Schedule[]> {
+  let query = db()
+    .from("schedules")
+    .select("*")
+    .order("start_time", { ascending: true });
+
+  if (zoneId) {
+    query = query.eq("zone_id", zoneId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching schedules:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+async function getSchedule(scheduleId: string): Promise<Schedule | null> {
+  const { data, error } = await db()
+    .from("schedules")
+    .select("*")
+    .eq("id", scheduleId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching schedule:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function createSchedule(
+  schedule: ScheduleInput & Pick<Schedule, "zone_id" | "days_of_week" | "start_time" | "duration_minutes">
+): Promise<Schedule | null> {
+  const { data, error } = await db()
+    .from("schedules")
+    .insert(schedule)
+    .select("*")
     .single();
 
   if (error) {
-    console.error("Error logging watering start:", error);
+    console.error("Error creating schedule:", error);
     return null;
   }
 
-  return data?.id || null;
+  return data;
 }
 
-export async function logWateringEnd(eventId: string): Promise<boolean> {
-  if (!supabase) {
-    console.log("Supabase not configured, skipping watering end log");
+async function updateSchedule(scheduleId: string, changes: ScheduleInput): Promise<Schedule | null> {
+  const { data, error } = await db()
+    .from("schedules")
+    .update(changes)
+    .eq("id", scheduleId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating schedule:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function deleteSchedule(scheduleId: string): Promise<boolean> {
+  const { error } = await db().from("schedules").delete().eq("id", scheduleId);
+
+  if (error) {
+    console.error("Error deleting schedule:", error);
+    return false;
+  }
+
+  return true;
+}
+
+async function getWateringPolicies(zoneId?: string): Promise<WateringPolicy[]> {
+  let query = db()
+    .from("watering_policies")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (zoneId) {
+    query = query.eq("zone_id", zoneId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching watering policies:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+async function getWateringPolicy(policyId: string): Promise<WateringPolicy | null> {
+  const { data, error } = await db()
+    .from("watering_policies")
+    .select("*")
+    .eq("id", policyId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching watering policy:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function createWateringPolicy(policy: Omit<WateringPolicy, "id" | "created_at">): Promise<WateringPolicy | null> {
+  const { data, error } = await db()
+    .from("watering_policies")
+    .insert(policy)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error creating watering policy:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function updateWateringPolicy(policyId: string, changes: WateringPolicyInput): Promise<WateringPolicy | null> {
+  const { data, error } = await db()
+    .from("watering_policies")
+    .update(changes)
+    .eq("id", policyId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating watering policy:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function deleteWateringPolicy(policyId: string): Promise<boolean> {
+  const { error } = await db().from("watering_policies").delete().eq("id", policyId);
+
+  if (error) {
+    console.error("Error deleting watering policy:", error);
     return false;
   }
 
-  const endedAt = new Date().toISOString();
+  return true;
+}
+
+// The ruleset is the single row with id "household"
+const RESTRICTIONS_ROW_ID = "household";
+const RESTRICTIONS_COLUMNS = "stage, allowed_windows, allowed_days, odd_even, max_minutes_per_day, updated_at";
+
+async function getWaterRestrictions(): Promise<WaterRestrictions | null> {
+  const { data, error } = await db()
+    .from("water_restrictions")
+    .select(RESTRICTIONS_COLUMNS)
+    .eq("id", RESTRICTIONS_ROW_ID)
+    .maybeSingle();
+
+  // Throws rather than returning null, which would read as "no restrictions saved"
+  if (error) {
+    throw new Error(`Failed to fetch water restrictions: ${error.message}`);
+  }
+
+  return data;
+}
+
+async function saveWaterRestrictions(restrictions: WaterRestrictionsInput): Promise<WaterRestrictions | null> {
+  const { data, error } = await db()
+    .from("water_restrictions")
+    .upsert({ ...restrictions, id: RESTRICTIONS_ROW_ID, updated_at: new Date().toISOString() })
+    .select(RESTRICTIONS_COLUMNS)
+    .single();
 
+  if (error) {
+    console.error("Error saving water restrictions:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function getRainDelays(activeAt?: string): Promise<RainDelay[]> {
+  let query = db()
+    .from("rain_delays")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (activeAt) {
+    query = query.gt("ends_at", activeAt);
+  }
+
+  const { data, error } = await query;
+
+  // Throws rather than returning [], which would let the crons water through a delay
+  if (error) {
+    throw new Error(`Failed to fetch rain delays: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function createRainDelay(delay: Omit<RainDelay, "id" | "created_at">): Promise<RainDelay | null> {
+  const { data, error } = await db()
+    .from("rain_delays")
+    .insert(delay)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error creating rain delay:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function endRainDelay(delayId: string): Promise<RainDelay | null> {
+  const { data, error } = await db()
+    .from("rain_delays")
+    .update({ ends_at: new Date().toISOString() })
+    .eq("id", delayId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error ending rain delay:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function getUsers(): Promise<AppUser[]> {
+  const { data, error } = await usersDb()
+    .from("users")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  // Thrown, not an empty list: login treats "no users" as first-run setup
+  if (error) {
+    throw new Error(`Failed to fetch users: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function getUser(userId: string): Promise<AppUser | null> {
+  const { data, error } = await usersDb()
+    .from("users")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+
+  // Thrown, not null: a session check mustn't read an outage as a deleted user
+  if (error) {
+    throw new Error(`Failed to fetch user: ${error.message}`);
+  }
+
+  return data;
+}
+
+// ilike gives a case-insensitive match, but treats % and _ as wildcards - escape them (and the
+// backslash escape itself) so "%" can't match whichever user comes first
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+async function getUserByName(name: string): Promise<AppUser | null> {
+  const { data, error } = await usersDb()
+    .from("users")
+    .select("*")
+    .ilike("name", escapeLikePattern(name))
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching user:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function createUser(user: Omit<AppUser, "id" | "created_at">): Promise<AppUser | null> {
+  const { data, error } = await usersDb()
+    .from("users")
+    .insert(user)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error creating user:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function updateUser(userId: string, changes: AppUserInput): Promise<AppUser | null> {
+  const { data, error } = await usersDb()
+    .from("users")
+    .update(changes)
+    .eq("id", userId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating user:", error);
+    return null;
+  }
+
+  return data;
+}
+
+async function deleteUser(userId: string): Promise<boolean> {
+  const { error } = await usersDb().from("users").delete().eq("id", userId);
+
+  if (error) {
+    console.error("Error deleting user:", error);
+    return false;
+  }
+
+  return true;
+}
+
+async function logWateringEnd(eventId: string, endedAt: string): Promise<boolean> {
   // Get the start time to calculate duration
-  const { data: event } = await supabase
+  const { data: event } = await db()
     .from("watering_events")
     .select("started_at")
     .eq("id", eventId)
@@ -112,9 +471,9 @@ export async function logWateringEnd(eventId: string): Promise<boolean> {
 
   const startTime = new Date(event.started_at).getTime();
   const endTime = new Date(endedAt).getTime();
-  const durationSeconds = Math.round((endTime - startTime) / 1000);
+  const durationSeconds = Math.max(0, Math.round((endTime - startTime) / 1000));
 
-  const { error } = await supabase
+  const { error } = await db()
     .from("watering_events")
     .update({
       ended_at: endedAt,
@@ -130,21 +489,8 @@ export async function logWateringEnd(eventId: string): Promise<boolean> {
   return true;
 }
 
-export async function captureWeatherSnapshot(weatherData: {
-  temperature: number;
-  humidity: number;
-  precipitation: number;
-  weatherCode: number;
-  weatherDescription: string;
-  windSpeed: number;
-  recentRainfall: { last24h: number; last7days: number };
-}): Promise<string | null> {
-  if (!supabase) {
-    console.log("Supabase not configured, skipping weather snapshot");
-    return null;
-  }
-
-  const { data, error } = await supabase
+async function captureWeatherSnapshot(weatherData: WeatherSnapshotInput): Promise<string | null> {
+  const { data, error } = await db()
     .from("weather_snapshots")
     .insert({
       temperature: weatherData.temperature,
@@ -168,20 +514,17 @@ export async function captureWeatherSnapshot(weatherData: {
   return data?.id || null;
 }
 
-export async function logSoilReading(
+async function logSoilReading(
   zoneId: string,
   moisturePercent: number,
-  temperature?: number
+  temperature?: number,
+  battery?: number
 ): Promise<boolean> {
-  if (!supabase) {
-    console.log("Supabase not configured, skipping soil reading");
-    return false;
-  }
-
-  const { error } = await supabase.from("soil_readings").insert({
+  const { error } = await db().from("soil_readings").insert({
     zone_id: zoneId,
     moisture_percent: moisturePercent,
     temperature,
+    battery,
     captured_at: new Date().toISOString(),
   });
 
@@ -193,18 +536,10 @@ export async function logSoilReading(
   return true;
 }
 
-export async function getWateringHistory(
-  limit: number = 50,
-  zoneId?: string
-): Promise<WateringEvent[]> {
-  if (!supabase) {
-    console.log("Supabase not configured");
-    return [];
-  }
-
-  let query = supabase
+async function getWateringHistory(limit: number, zoneId?: string): Promise<WateringEvent[]> {
+  let query = db()
     .from("watering_events")
-    .select("*, zones(name)")
+    .select("*, zones(name), weather_snapshots(*)")
     .order("started_at", { ascending: false })
     .limit(limit);
 
@@ -222,15 +557,30 @@ export async function getWateringHistory(
   return data || [];
 }
 
-export async function getRecentWeatherSnapshots(
-  limit: number = 10
-): Promise<WeatherSnapshot[]> {
-  if (!supabase) {
-    console.log("Supabase not configured");
-    return [];
+async function getWateringEventsBetween(from: string, to: string, zoneId?: string): Promise<WateringEvent[]> {
+  let query = db()
+    .from("watering_events")
+    .select("*")
+    .lte("started_at", to)
+    .or(`ended_at.is.null,ended_at.gte.${from}`)
+    .order("started_at", { ascending: true });
+
+  if (zoneId) {
+    query = query.eq("zone_id", zoneId);
+  }
+
+  const { data, error } = await query;
+
+  // Throws rather than returning [], which would read as "nothing watered" to the daily limit
+  if (error) {
+    throw new Error(`Failed to fetch watering events: ${error.message}`);
   }
 
-  const { data, error } = await supabase
+  return data || [];
+}
+
+async function getRecentWeatherSnapshots(limit: number): Promise<WeatherSnapshot[]> {
+  const { data, error } = await db()
     .from("weather_snapshots")
     .select("*")
     .order("captured_at", { ascending: false })
@@ -244,16 +594,8 @@ export async function getRecentWeatherSnapshots(
   return data || [];
 }
 
-export async function getSoilReadings(
-  zoneId: string,
-  limit: number = 100
-): Promise<SoilReading[]> {
-  if (!supabase) {
-    console.log("Supabase not configured");
-    return [];
-  }
-
-  const { data, error } = await supabase
+async function getSoilReadings(zoneId: string, limit: number): Promise<SoilReading[]> {
+  const { data, error } = await db()
     .from("soil_readings")
     .select("*")
     .eq("zone_id", zoneId)
@@ -268,13 +610,74 @@ export async function getSoilReadings(
   return data || [];
 }
 
-export async function getLastWateredForZones(): Promise<Record<string, string>> {
-  if (!supabase) {
-    return {};
+// A 30 day range at one reading every 15 minutes is more rows than PostgREST returns
+// in one response, so page through it
+const SOIL_READINGS_PAGE_SIZE = 1000;
+
+async function getSoilReadingsBetween(zoneId: string, from: string, to: string): Promise<SoilReading[]> {
+  const readings: SoilReading[] = [];
+
+  for (let offset = 0; ; offset += SOIL_READINGS_PAGE_SIZE) {
+    const { data, error } = await db()
+      .from("soil_readings")
+      .select("*")
+      .eq("zone_id", zoneId)
+      .gte("captured_at", from)
+      .lte("captured_at", to)
+      .order("captured_at", { ascending: true })
+      .range(offset, offset + SOIL_READINGS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching soil readings:", error);
+      return [];
+    }
+
+    readings.push(...(data || []));
+    if (!data || data.length < SOIL_READINGS_PAGE_SIZE) {
+      return readings;
+    }
+  }
+}
+
+async function logAiDecision(decision: AiDecisionInput): Promise<string | null> {
+  const { data, error } = await db()
+    .from("ai_decisions")
+    .insert({ ...decision, decided_at: new Date().toISOString() })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Error logging AI decision:", error);
+    return null;
   }
 
+  return data?.id || null;
+}
+
+async function getAiDecisions(limit: number, zoneId?: string): Promise<AiDecision[]> {
+  let query = db()
+    .from("ai_decisions")
+    .select("*, zones(name), weather_snapshots(*)")
+    .order("decided_at", { ascending: false })
+    .limit(limit);
+
+  if (zoneId) {
+    query = query.eq("zone_id", zoneId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching AI decisions:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+async function getLastWateredForZones(): Promise<Record<string, string>> {
   // Get the most recent completed watering event for each zone
-  const { data, error } = await supabase
+  const { data, error } = await db()
     .from("watering_events")
     .select("zone_id, ended_at")
     .not("ended_at", "is", null)
@@ -296,81 +699,60 @@ export async function getLastWateredForZones(): Promise<Record<string, string>>
   return lastWatered;
 }
 
-// Close stale watering events (started more than 4 hours ago without ending)
-export async function closeStaleWateringEvents(): Promise<number> {
-  if (!supabase) {
-    return 0;
-  }
-
-  const fourHoursAgo = new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString();
-
-  // Find stale events
-  const { data: staleEvents, error: findError } = await supabase
+async function closeWateringEventsEndedBefore(cutoff: string): Promise<number> {
+  const { data: staleEvents, error: findError } = await db()
     .from("watering_events")
-    .select("id, started_at")
+    .select("id, started_at, scheduled_end_at")
     .is("ended_at", null)
-    .lt("started_at", fourHoursAgo);
+    .not("scheduled_end_at", "is", null)
+    .lt("scheduled_end_at", cutoff);
 
   if (findError || !staleEvents || staleEvents.length === 0) {
     return 0;
   }
 
-  // Close each stale event with a reasonable duration estimate (assume 30 min)
   let closedCount = 0;
   for (const event of staleEvents) {
     const startTime = new Date(event.started_at).getTime();
-    const estimatedEndTime = new Date(startTime + 30 * 60 * 1000); // 30 minutes after start
-    const durationSeconds = 30 * 60; // 30 minutes
+    const endTime = new Date(event.scheduled_end_at).getTime();
 
-    const { error: updateError } = await supabase
+    const { error: updateError } = await db()
       .from("watering_events")
       .update({
-        ended_at: estimatedEndTime.toISOString(),
-        duration_seconds: durationSeconds,
+        ended_at: event.scheduled_end_at,
+        duration_seconds: Math.max(0, Math.round((endTime - startTime) / 1000)),
       })
       .eq("id", event.id);
 
     if (!updateError) {
       closedCount++;
-      console.log(`Auto-closed stale watering event ${event.id}`);
+      console.log(`Auto-closed stale watering event ${event.id} at its scheduled end`);
     }
   }
 
   return closedCount;
 }
 
-// Start automated watering with scheduled end time
-export async function startScheduledWatering(
+async function startScheduledWatering(
   zoneId: string,
-  zoneName: string,
-  deviceId: string,
-  durationMinutes: number
+  durationMinutes: number,
+  trigger: WateringTrigger,
+  actor: string | null,
+  weatherSnapshotId: string | null = null
 ): Promise<string | null> {
-  if (!supabase) {
-    console.log("Supabase not configured, skipping scheduled watering log");
-    return null;
-  }
-
-  // First ensure the zone exists
-  const { error: zoneError } = await supabase
-    .from("zones")
-    .upsert({ id: zoneId, device_id: deviceId, name: zoneName }, { onConflict: "id" });
-
-  if (zoneError) {
-    console.error("Error upserting zone:", zoneError);
-  }
-
   const startedAt = new Date();
   const scheduledEndAt = new Date(startedAt.getTime() + durationMinutes * 60 * 1000);
 
   // Create watering event with scheduled end time
-  const { data, error } = await supabase
+  const { data, error } = await db()
     .from("watering_events")
     .insert({
       zone_id: zoneId,
       started_at: startedAt.toISOString(),
       scheduled_end_at: scheduledEndAt.toISOString(),
-      trigger: "automated",
+      trigger,
+      actor,
+      weather_snapshot_id: weatherSnapshotId,
     })
     .select("id")
     .single();
@@ -383,41 +765,28 @@ export async function startScheduledWatering(
   return data?.id || null;
 }
 
-// Get active watering events that should be stopped
-export async function getWateringToStop(): Promise<Array<{
-  id: string;
-  zone_id: string;
-  started_at: string;
-  scheduled_end_at: string;
-}>> {
-  if (!supabase) {
-    return [];
-  }
-
-  const now = new Date().toISOString();
-
-  const { data, error } = await supabase
+async function getActiveWateringEvents(zoneId?: string): Promise<ActiveWateringEvent[]> {
+  let query = db()
     .from("watering_events")
     .select("id, zone_id, started_at, scheduled_end_at")
-    .is("ended_at", null)
-    .not("scheduled_end_at", "is", null)
-    .lt("scheduled_end_at", now);
+    .is("ended_at", null);
+
+  if (zoneId) {
+    query = query.eq("zone_id", zoneId);
+  }
+
+  const { data, error } = await query;
 
   if (error) {
-    console.error("Error fetching watering to stop:", error);
+    console.error("Error fetching active watering events:", error);
     return [];
   }
 
   return data || [];
 }
 
-// Check if there's any active automated watering
-export async function hasActiveAutomatedWatering(zoneId: string): Promise<boolean> {
-  if (!supabase) {
-    return false;
-  }
-
-  const { data, error } = await supabase
+async function hasActiveWatering(zoneId: string): Promise<boolean> {
+  const { data, error } = await db()
     .from("watering_events")
     .select("id")
     .eq("zone_id", zoneId)
@@ -425,9 +794,105 @@ export async function hasActiveAutomatedWatering(zoneId: string): Promise<boolea
     .limit(1);
 
   if (error) {
+    // Fail safe: if we can't tell, treat the zone as busy rather than start it a second time
     console.error("Error checking active watering:", error);
-    return false;
+    return true;
   }
 
   return (data?.length || 0) > 0;
 }
+
+// Probes for the startup drift check (lib/schema.ts). PostgREST can't read information_schema
+// with the anon key, so each table is selected with the expected columns and, on failure,
+// one column at a time to find which are missing.
+const MISSING_TABLE_CODES = ["42P01", "PGRST205"];
+const MISSING_COLUMN_CODE = "42703";
+
+export async function findMissingColumns(
+  expected: Record<string, string[]>
+): Promise<{ missing: string[]; error?: string }> {
+  const missing: string[] = [];
+
+  for (const [table, columns] of Object.entries(expected)) {
+    const client = table === "users" ? usersDb() : db();
+    const { error } = await client.from(table).select(columns.join(",")).limit(0);
+    if (!error) continue;
+
+    if (MISSING_TABLE_CODES.includes(error.code)) {
+      missing.push(table);
+      continue;
+    }
+    if (error.code !== MISSING_COLUMN_CODE) {
+      return { missing, error: `${table}: ${error.message}` };
+    }
+
+    for (const column of columns) {
+      const { error: columnError } = await client.from(table).select(column).limit(0);
+      if (columnError?.code === MISSING_COLUMN_CODE) {
+        missing.push(`${table}.${column}`);
+      }
+    }
+  }
+
+  return { missing };
+}
+
+// Latest migration recorded by `npm run migrate`, or null if it has never run
+export async function getSchemaVersion(): Promise<string | null> {
+  const { data, error } = await db()
+    .from("schema_migrations")
+    .select("version")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    return null;
+  }
+
+  return data?.version ?? null;
+}
+
+export const supabaseRepository: StorageRepository = {
+  name: "supabase",
+  getZones,
+  getZone,
+  createZone,
+  updateZone,
+  getSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  getWateringPolicies,
+  getWateringPolicy,
+  createWateringPolicy,
+  updateWateringPolicy,
+  deleteWateringPolicy,
+  getWaterRestrictions,
+  saveWaterRestrictions,
+  getRainDelays,
+  createRainDelay,
+  endRainDelay,
+  getUsers,
+  getUser,
+  getUserByName,
+  createUser,
+  updateUser,
+  deleteUser,
+  startScheduledWatering,
+  logWateringEnd,
+  getWateringHistory,
+  getWateringEventsBetween,
+  getLastWateredForZones,
+  getActiveWateringEvents,
+  hasActiveWatering,
+  closeWateringEventsEndedBefore,
+  captureWeatherSnapshot,
+  getRecentWeatherSnapshots,
+  logSoilReading,
+  getSoilReadings,
+  getSoilReadingsBetween,
+  logAiDecision,
+  getAiDecisions,
+};
@@ -0,0 +1,44 @@
+// Garden-local time. The property is in Melbourne, so schedules and watering
+// hours are evaluated in Australia/Melbourne regardless of the server's timezone.
+export const GARDEN_TIMEZONE = "Australia/Melbourne";
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  hour: number;
+  minute: number;
+  minutesOfDay: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function getMelbourneTime(at: Date = new Date()): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: GARDEN_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  const hour = Number(part("hour"));
+  const minute = Number(part("minute"));
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    dayOfWeek: WEEKDAYS.indexOf(part("weekday")),
+    hour,
+    minute,
+    minutesOfDay: hour * 60 + minute,
+  };
+}
+
+// "HH:MM" -> minutes since midnight
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
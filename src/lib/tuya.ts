@@ -1,4 +1,7 @@
 import crypto from "crypto";
+import type { DeviceProvider, DeviceResult, ListedDevice } from "@/lib/devices";
+
+// Tuya cloud implementation of DeviceProvider (see lib/devices.ts)
 
 const TUYA_ACCESS_ID = process.env.TUYA_ACCESS_ID || "";
 const TUYA_ACCESS_SECRET = process.env.TUYA_ACCESS_SECRET || "";
@@ -20,11 +23,10 @@ interface TuyaTokenResult {
   uid: string;
 }
 
-interface TuyaDeviceResult {
-  id: string;
-  name: string;
-  online: boolean;
-  status: Array<{ code: string; value: boolean | number | string }>;
+interface TuyaListedDevice extends DeviceResult {
+  category: string;
+  product_id: string;
+  product_name: string;
 }
 
 let cachedToken: { token: string; expiry: number } | null = null;
@@ -100,34 +102,46 @@ export async function getAccessToken(): Promise<string> {
   return cachedToken.token;
 }
 
-export async function getDeviceStatus(
+// Signed request to the Tuya API. Query parameters in `path` must be in alphabetical order
+// because the path is signed verbatim.
+async function tuyaRequest(
+  method: "GET" | "POST",
+  path: string,
+  body?: unknown
+): Promise<TuyaResponse> {
+  const token = await getAccessToken();
+  const timestamp = Date.now().toString();
+  const bodyText = body !== undefined ? JSON.stringify(body) : undefined;
+  const sign = generateSign(method, path, timestamp, token, bodyText);
+
+  const response = await fetch(`${TUYA_API_ENDPOINT}${path}`, {
+    method,
+    headers: {
+      client_id: TUYA_ACCESS_ID,
+      access_token: token,
+      sign: sign,
+      t: timestamp,
+      sign_method: "HMAC-SHA256",
+      ...(bodyText ? { "Content-Type": "application/json" } : {}),
+    },
+    body: bodyText,
+  });
+
+  return response.json();
+}
+
+async function getDeviceStatus(
   deviceId: string
-): Promise<{ device: TuyaDeviceResult | null; error?: string }> {
+): Promise<{ device: DeviceResult | null; error?: string }> {
   try {
-    const token = await getAccessToken();
-    const timestamp = Date.now().toString();
-    const path = `/v1.0/devices/${deviceId}`;
-    const sign = generateSign("GET", path, timestamp, token);
-
-    const response = await fetch(`${TUYA_API_ENDPOINT}${path}`, {
-      method: "GET",
-      headers: {
-        client_id: TUYA_ACCESS_ID,
-        access_token: token,
-        sign: sign,
-        t: timestamp,
-        sign_method: "HMAC-SHA256",
-      },
-    });
-
-    const data: TuyaResponse = await response.json();
+    const data = await tuyaRequest("GET", `/v1.0/devices/${deviceId}`);
     console.log("Tuya Device Response:", JSON.stringify(data, null, 2));
 
     if (!data.success) {
       return { device: null, error: `${data.code}: ${data.msg}` };
     }
 
-    return { device: data.result as TuyaDeviceResult };
+    return { device: data.result as DeviceResult };
   } catch (error) {
     console.error("Error getting device status:", error);
     return {
@@ -137,31 +151,12 @@ export async function getDeviceStatus(
   }
 }
 
-export async function sendDeviceCommand(
+async function sendDeviceCommand(
   deviceId: string,
   commands: Array<{ code: string; value: boolean | number | string }>
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const token = await getAccessToken();
-    const timestamp = Date.now().toString();
-    const path = `/v1.0/devices/${deviceId}/commands`;
-    const body = JSON.stringify({ commands });
-    const sign = generateSign("POST", path, timestamp, token, body);
-
-    const response = await fetch(`${TUYA_API_ENDPOINT}${path}`, {
-      method: "POST",
-      headers: {
-        client_id: TUYA_ACCESS_ID,
-        access_token: token,
-        sign: sign,
-        t: timestamp,
-        sign_method: "HMAC-SHA256",
-        "Content-Type": "application/json",
-      },
-      body: body,
-    });
-
-    const data: TuyaResponse = await response.json();
+    const data = await tuyaRequest("POST", `/v1.0/devices/${deviceId}/commands`, { commands });
     console.log("Tuya Command Response:", JSON.stringify(data, null, 2));
 
     if (!data.success) {
@@ -178,14 +173,51 @@ export async function sendDeviceCommand(
   }
 }
 
-export async function turnOnDevice(
-  deviceId: string
-): Promise<{ success: boolean; error?: string }> {
-  return sendDeviceCommand(deviceId, [{ code: "switch", value: true }]);
-}
+// List every device linked to the Tuya cloud project (via the linked SmartLife app account)
+async function listDevices(): Promise<{ devices: ListedDevice[]; error?: string }> {
+  try {
+    const devices: ListedDevice[] = [];
+    let lastRowKey = "";
+
+    // Paginate through the project's devices, 100 at a time
+    for (;;) {
+      const query = lastRowKey ? `last_row_key=${encodeURIComponent(lastRowKey)}&size=100` : "size=100";
+      const data = await tuyaRequest("GET", `/v1.0/iot-01/associated-users/devices?${query}`);
+
+      if (!data.success) {
+        return { devices: [], error: `${data.code}: ${data.msg}` };
+      }
+
+      const page = data.result as { devices: TuyaListedDevice[]; has_more: boolean; last_row_key: string };
+      for (const device of page.devices || []) {
+        devices.push({
+          id: device.id,
+          name: device.name,
+          online: device.online,
+          status: device.status || [],
+          category: device.category,
+          productId: device.product_id,
+          productName: device.product_name,
+        });
+      }
+
+      if (!page.has_more || !page.last_row_key) break;
+      lastRowKey = page.last_row_key;
+    }
 
-export async function turnOffDevice(
-  deviceId: string
-): Promise<{ success: boolean; error?: string }> {
-  return sendDeviceCommand(deviceId, [{ code: "switch", value: false }]);
+    return { devices };
+  } catch (error) {
+    console.error("Error listing devices:", error);
+    return {
+      devices: [],
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
 }
+
+export const tuyaProvider: DeviceProvider = {
+  name: "tuya",
+  getDeviceStatus,
+  sendDeviceCommand,
+  listDevices,
+};
@@ -0,0 +1,52 @@
+import type { AppUser, AppUserInput } from "@/lib/storage";
+import { USER_ROLES, hashPin } from "@/lib/auth";
+
+export type PublicUser = Omit<AppUser, "pin_hash">;
+
+// Never send PIN hashes to the browser
+export function toPublicUser(user: AppUser): PublicUser {
+  return { id: user.id, name: user.name, role: user.role, created_at: user.created_at };
+}
+
+// Validate a user create/update request body. PINs arrive in plain text and
+// are hashed here. With `partial` set, only the fields present are validated.
+export function parseUserInput(
+  body: unknown,
+  partial: boolean
+): { value?: AppUserInput; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const value: AppUserInput = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "name cannot be empty" };
+    }
+    value.name = input.name.trim();
+  }
+
+  if (input.role !== undefined) {
+    if (!USER_ROLES.includes(input.role as AppUser["role"])) {
+      return { error: `role must be one of ${USER_ROLES.join(", ")}` };
+    }
+    value.role = input.role as AppUser["role"];
+  }
+
+  if (input.pin !== undefined) {
+    if (typeof input.pin !== "string" || !/^\d{6}$/.test(input.pin)) {
+      return { error: "pin must be 6 digits" };
+    }
+    value.pin_hash = hashPin(input.pin);
+  }
+
+  if (!partial) {
+    if (!value.name) return { error: "name is required" };
+    if (!value.role) return { error: "role is required" };
+    if (!value.pin_hash) return { error: "pin is required" };
+  }
+
+  return { value };
+}
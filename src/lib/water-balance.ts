@@ -0,0 +1,145 @@
+import { getPlantPreset, type SoilType, type WaterNeeds } from "@/lib/plants";
+import { getWateringEventsBetween, type WateringEvent, type Zone } from "@/lib/storage";
+import { getMelbourneTime } from "@/lib/time";
+import type { WeatherData } from "@/lib/weather";
+
+// A daily soil water balance per zone, FAO-56 style. Each day the root zone loses the crop's
+// evapotranspiration (reference ET0 x crop coefficient) and gains effective rain and irrigation.
+// Depletion is how far the root zone is below field capacity, capped at the water the soil can
+// hold. The balance starts at field capacity at the beginning of the weather's 7 past days.
+
+// Crop coefficients by water needs, for zones that set their own or have no preset
+const WATER_NEEDS_COEFFICIENTS: Record<WaterNeeds, number> = { low: 0.4, medium: 0.6, high: 0.85 };
+const DEFAULT_CROP_COEFFICIENT = 0.6;
+
+// Shade cuts evapotranspiration
+const SUN_FACTORS = { full_sun: 1, part_shade: 0.8, full_shade: 0.6 };
+
+// Total available water in a ~30cm root zone (mm) by soil type; loam when unknown
+const SOIL_WATER_CAPACITY: Record<SoilType, number> = {
+  sand: 25,
+  sandy_loam: 40,
+  loam: 55,
+  clay_loam: 60,
+  clay: 65,
+  potting_mix: 45,
+};
+const DEFAULT_SOIL_WATER_CAPACITY = SOIL_WATER_CAPACITY.loam;
+
+// FAO-56 depletion fraction: plants draw the first half of the available water without stress
+const DEPLETION_FRACTION = 0.5;
+
+// Light rain mostly wets leaves and mulch; of heavier rain, runoff and deep drainage take a share
+const MIN_EFFECTIVE_RAIN_MM = 2;
+const EFFECTIVE_RAIN_FRACTION = 0.8;
+
+// The taps have no flow meter, so runs are credited at a typical dripper / soaker hose rate
+export const IRRIGATION_MM_PER_HOUR = 15;
+
+export interface WaterBalanceDay {
+  date: string;
+  et0: number;
+  cropEt: number;
+  effectiveRain: number;
+  irrigation: number;
+  depletion: number; // mm below field capacity at the end of the day
+}
+
+export interface ZoneWaterBalance {
+  cropCoefficient: number;
+  capacityMm: number; // total water the root zone can hold for the plant
+  readilyAvailableMm: number; // depletion the plant copes with before it's stressed
+  depletionMm: number; // as of the start of today
+  depletionPercent: number; // of capacityMm
+  todayCropEt: number; // what the zone is forecast to lose today
+  days: WaterBalanceDay[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function getCropCoefficient(zone: Zone): number {
+  // A zone's own water needs override its preset's coefficient, as they override the preset's water needs
+  const base = zone.water_needs
+    ? WATER_NEEDS_COEFFICIENTS[zone.water_needs]
+    : getPlantPreset(zone.plant_preset)?.cropCoefficient ?? DEFAULT_CROP_COEFFICIENT;
+  return Math.round(base * (zone.sun_exposure ? SUN_FACTORS[zone.sun_exposure] : 1) * 100) / 100;
+}
+
+export function getEffectiveRain(rain: number): number {
+  return rain < MIN_EFFECTIVE_RAIN_MM ? 0 : rain * EFFECTIVE_RAIN_FRACTION;
+}
+
+// Irrigation (mm) per Melbourne date from the zone's runs. Runs still going count up to now.
+function irrigationByDate(events: WateringEvent[], now: Date): Map<string, number> {
+  const byDate = new Map<string, number>();
+  for (const event of events) {
+    const seconds = event.duration_seconds ?? Math.max(0, (now.getTime() - new Date(event.started_at).getTime()) / 1000);
+    const date = getMelbourneTime(new Date(event.started_at)).date;
+    byDate.set(date, (byDate.get(date) || 0) + (seconds / 3600) * IRRIGATION_MM_PER_HOUR);
+  }
+  return byDate;
+}
+
+// Run the balance over the weather's past days for one zone, given its runs in that window
+export function computeWaterBalance(
+  zone: Zone,
+  evapotranspiration: WeatherData["evapotranspiration"],
+  events: WateringEvent[],
+  now: Date = new Date()
+): ZoneWaterBalance {
+  const cropCoefficient = getCropCoefficient(zone);
+  const capacityMm = zone.soil_type ? SOIL_WATER_CAPACITY[zone.soil_type] : DEFAULT_SOIL_WATER_CAPACITY;
+  const irrigation = irrigationByDate(events, now);
+
+  let depletion = 0;
+  const days = evapotranspiration.daily.map((day) => {
+    const cropEt = day.et0 * cropCoefficient;
+    const effectiveRain = getEffectiveRain(day.precipitation);
+    const irrigated = irrigation.get(day.date) || 0;
+    depletion = Math.min(capacityMm, Math.max(0, depletion + cropEt - effectiveRain - irrigated));
+    return {
+      date: day.date,
+      et0: day.et0,
+      cropEt: round1(cropEt),
+      effectiveRain: round1(effectiveRain),
+      irrigation: round1(irrigated),
+      depletion: round1(depletion),
+    };
+  });
+
+  return {
+    cropCoefficient,
+    capacityMm,
+    readilyAvailableMm: round1(capacityMm * DEPLETION_FRACTION),
+    depletionMm: round1(depletion),
+    depletionPercent: Math.round((depletion / capacityMm) * 100),
+    todayCropEt: round1(evapotranspiration.today * cropCoefficient),
+    days,
+  };
+}
+
+// Water balances for the given zones, keyed by zone ID
+export async function getZoneWaterBalances(
+  zones: Zone[],
+  weather: WeatherData
+): Promise<Record<string, ZoneWaterBalance>> {
+  const firstDay = weather.evapotranspiration.daily[0];
+  if (!firstDay || zones.length === 0) {
+    return {};
+  }
+
+  // A day's runs are looked up by Melbourne date, so fetch from a day early to be safe
+  const from = new Date(new Date(firstDay.date).getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const events = await getWateringEventsBetween(from, new Date().toISOString());
+
+  return Object.fromEntries(
+    zones.map((zone) => [
+      zone.id,
+      computeWaterBalance(
+        zone,
+        weather.evapotranspiration,
+        events.filter((event) => event.zone_id === zone.id)
+      ),
+    ])
+  );
+}
@@ -0,0 +1,200 @@
+import type { ActivePolicy } from "@/lib/policies";
+import { getRainSkipReason } from "@/lib/schedules";
+import type { ZoneWaterBalance } from "@/lib/water-balance";
+import type { WeatherData } from "@/lib/weather";
+
+// The auto-water rules in code. The same rules are spelled out in the Gemini prompt; here they
+// decide on their own (DECISION_MODE=rules, or when Gemini is unavailable) and act as a guardrail
+// that vetoes AI decisions breaking a hard rule. Frequency caps, durations and moisture bands
+// come from the zone's seasonal policy (policies.ts).
+
+// Days since the last run before watering again, and before topping up adequate soil
+const MIN_GAP_DAYS = 2;
+const ADEQUATE_GAP_DAYS = 3;
+
+export type DecisionMode = "ai" | "rules";
+
+export interface WateringDecision {
+  shouldWater: boolean;
+  durationMinutes: number;
+  reason: string;
+  confidence: "high" | "medium" | "low";
+}
+
+export interface DecisionInputs {
+  moisture: number;
+  lastWateredDaysAgo: number | null;
+  wateringsThisWeek: number;
+  weather: WeatherData | null;
+  waterBalance: ZoneWaterBalance | null; // null without weather data
+  policy: ActivePolicy;
+}
+
+// DECISION_MODE=rules skips Gemini entirely; anything else asks the AI
+export function getDecisionMode(): DecisionMode {
+  return process.env.DECISION_MODE === "rules" ? "rules" : "ai";
+}
+
+const skip = (reason: string): WateringDecision => ({
+  shouldWater: false,
+  durationMinutes: 0,
+  reason,
+  confidence: "high",
+});
+
+const water = (durationMinutes: number, reason: string): WateringDecision => ({
+  shouldWater: true,
+  durationMinutes,
+  reason,
+  confidence: "high",
+});
+
+// Reasons no run may start now, whatever decided it. Critically dry soil overrides the
+// frequency rules but not the moisture ceiling or rain.
+function hardRuleViolation(inputs: DecisionInputs): string | null {
+  const { moisture, lastWateredDaysAgo, wateringsThisWeek, weather, policy } = inputs;
+
+  if (moisture > policy.adequate_moisture) {
+    return `Soil moisture ${moisture}% is above ${policy.adequate_moisture}%`;
+  }
+
+  const rainReason = getRainSkipReason(weather);
+  if (rainReason) {
+    return `Rain: ${rainReason}`;
+  }
+
+  if (moisture < policy.critical_moisture) {
+    return null;
+  }
+
+  if (policy.max_waterings_per_week === 0) {
+    return `The ${policy.label} policy allows no waterings`;
+  }
+
+  if (wateringsThisWeek >= policy.max_waterings_per_week) {
+    return `Already watered ${wateringsThisWeek} times this week (max ${policy.max_waterings_per_week})`;
+  }
+
+  if (lastWateredDaysAgo !== null && lastWateredDaysAgo < MIN_GAP_DAYS) {
+    return `Watered ${lastWateredDaysAgo === 0 ? "today" : "yesterday"} (min gap ${MIN_GAP_DAYS} days)`;
+  }
+
+  return null;
+}
+
+// Decide from the rules alone
+export function decideByRules(inputs: DecisionInputs): WateringDecision {
+  const { moisture, lastWateredDaysAgo, waterBalance, policy } = inputs;
+
+  const violation = hardRuleViolation(inputs);
+  if (violation) {
+    return skip(violation);
+  }
+
+  if (moisture < policy.critical_moisture) {
+    return water(
+      policy.max_duration_minutes,
+      `Soil moisture ${moisture}% is critically dry (below ${policy.critical_moisture}%)`
+    );
+  }
+
+  // Dry soil gets a run halfway between the policy's shortest and longest
+  if (moisture < policy.dry_moisture) {
+    return water(
+      Math.round((policy.min_duration_minutes + policy.max_duration_minutes) / 2),
+      `Soil moisture ${moisture}% is dry (below ${policy.dry_moisture}%)`
+    );
+  }
+
+  // Adequate soil is topped up once the water balance says the plants are drawing on their
+  // reserve, or, without one, after a few days
+  if (waterBalance) {
+    if (waterBalance.depletionMm >= waterBalance.readilyAvailableMm) {
+      return water(
+        policy.min_duration_minutes,
+        `Soil moisture ${moisture}% is adequate but the water balance is ${waterBalance.depletionMm}mm depleted (stress at ${waterBalance.readilyAvailableMm}mm)`
+      );
+    }
+    return skip(
+      `Soil moisture ${moisture}% is adequate and the water balance is only ${waterBalance.depletionMm}mm depleted (stress at ${waterBalance.readilyAvailableMm}mm)`
+    );
+  }
+
+  if (lastWateredDaysAgo === null || lastWateredDaysAgo >= ADEQUATE_GAP_DAYS) {
+    return water(
+      policy.min_duration_minutes,
+      `Soil moisture ${moisture}% is adequate but the last watering was ${
+        lastWateredDaysAgo === null ? "unknown" : `${lastWateredDaysAgo} days ago`
+      }`
+    );
+  }
+
+  return skip(`Soil moisture ${moisture}% is adequate and the zone was watered ${lastWateredDaysAgo} days ago`);
+}
+
+const CONFIDENCE_LEVELS: WateringDecision["confidence"][] = ["high", "medium", "low"];
+
+// Validate a model reply (raw JSON text) as a watering decision. The duration must already be
+// within 0 and the policy's longest run; a run under its minimum is raised by clampDuration.
+export function parseWateringDecision(
+  text: string,
+  policy: ActivePolicy
+): { value?: WateringDecision; error?: string } {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { error: "Response is not valid JSON" };
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Response must be a JSON object" };
+  }
+
+  const { shouldWater, durationMinutes, reason, confidence } = body as Record<string, unknown>;
+  if (typeof shouldWater !== "boolean") {
+    return { error: "shouldWater must be a boolean" };
+  }
+  if (typeof durationMinutes !== "number" || !Number.isFinite(durationMinutes)) {
+    return { error: "durationMinutes must be a number" };
+  }
+  if (durationMinutes < 0 || durationMinutes > policy.max_duration_minutes) {
+    return { error: `durationMinutes must be between 0 and ${policy.max_duration_minutes}` };
+  }
+  if (shouldWater && durationMinutes === 0) {
+    return { error: "durationMinutes must be above 0 when shouldWater is true" };
+  }
+  if (typeof reason !== "string" || reason.trim() === "") {
+    return { error: "reason must be a non-empty string" };
+  }
+  if (typeof confidence !== "string" || !CONFIDENCE_LEVELS.includes(confidence as WateringDecision["confidence"])) {
+    return { error: `confidence must be one of ${CONFIDENCE_LEVELS.join(", ")}` };
+  }
+
+  return {
+    value: {
+      shouldWater,
+      durationMinutes: shouldWater ? Math.round(durationMinutes) : 0,
+      reason: reason.trim(),
+      confidence: confidence as WateringDecision["confidence"],
+    },
+  };
+}
+
+// Keep a decision's duration within the policy's limits
+export function clampDuration(decision: WateringDecision, policy: ActivePolicy): WateringDecision {
+  if (!decision.shouldWater) {
+    return decision;
+  }
+  return {
+    ...decision,
+    durationMinutes: Math.min(
+      policy.max_duration_minutes,
+      Math.max(policy.min_duration_minutes, decision.durationMinutes)
+    ),
+  };
+}
+
+// Guardrail for AI decisions: the hard rule a decision to water breaks, or null if it may stand
+export function getVetoReason(decision: WateringDecision, inputs: DecisionInputs): string | null {
+  return decision.shouldWater ? hardRuleViolation(inputs) : null;
+}
@@ -0,0 +1,247 @@
+import { getDeviceStatus, isDeviceOn, turnOnDeviceFor, turnOffDevice } from "@/lib/devices";
+import { DEFAULT_RESTRICTIONS, getRestrictionViolation } from "@/lib/restrictions";
+import { getMelbourneTime } from "@/lib/time";
+import { fetchWeatherData, type WeatherData } from "@/lib/weather";
+import {
+  captureWeatherSnapshot,
+  startScheduledWatering,
+  logWateringEnd,
+  getActiveWateringEvents,
+  getWateringEventsBetween,
+  getWaterRestrictions,
+  getZones,
+  hasActiveWatering,
+  type Zone,
+  type WateringEvent,
+  type WateringTrigger,
+  type WaterRestrictionsInput,
+} from "@/lib/storage";
+
+// Shared start/stop pipeline for every way a zone gets watered (manual, scheduled, automated).
+// Every start is checked against the water restrictions first. The tap's own countdown DP is
+// the primary shutoff; the water-check cron only reconciles.
+
+// Taps can take a moment to report their new state after a command
+const STATUS_GRACE_MS = 2 * 60 * 1000;
+
+// Limits for runs started from the dashboard
+export const DEFAULT_MANUAL_DURATION = 15;
+export const MAX_MANUAL_DURATION = 120;
+
+export interface StartWateringResult {
+  success: boolean;
+  eventId?: string | null;
+  weatherSnapshotId?: string | null;
+  scheduledEndAt?: string;
+  countdownSet?: boolean;
+  restricted?: boolean; // refused by the water restrictions (error says why)
+  busy?: boolean; // the zone already has an open run
+  error?: string;
+}
+
+export interface StopWateringResult {
+  success: boolean;
+  closed: number;
+  error?: string;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  closed: number;
+  stopped: number;
+  errors: string[];
+}
+
+// Store the conditions a run or decision happened under in weather_snapshots.
+// Returns the snapshot ID, or null without weather data or when it can't be stored.
+export async function recordWeatherSnapshot(weather: WeatherData | null): Promise<string | null> {
+  if (!weather) {
+    return null;
+  }
+  return captureWeatherSnapshot({ ...weather.current, recentRainfall: weather.recentRainfall });
+}
+
+// The household's restriction ruleset, or the default until one is saved. Throws when the
+// ruleset can't be read.
+export async function getActiveRestrictions(): Promise<WaterRestrictionsInput> {
+  return (await getWaterRestrictions()) ?? DEFAULT_RESTRICTIONS;
+}
+
+// Minutes a run has taken so far, or is booked to take if still open
+function runMinutes(event: WateringEvent, now: Date): number {
+  if (event.duration_seconds != null) return event.duration_seconds / 60;
+  const end = event.scheduled_end_at ? new Date(event.scheduled_end_at).getTime() : now.getTime();
+  return Math.max(0, end - new Date(event.started_at).getTime()) / 60000;
+}
+
+// Minutes the zone has run (or is booked to run) on the Melbourne date of `at`
+async function getMinutesWateredOn(zoneId: string, at: Date): Promise<number> {
+  const date = getMelbourneTime(at).date;
+  const from = new Date(at.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const events = await getWateringEventsBetween(from, at.toISOString(), zoneId);
+  return events
+    .filter((event) => getMelbourneTime(new Date(event.started_at)).date === date)
+    .reduce((total, event) => total + runMinutes(event, at), 0);
+}
+
+// Why the restrictions forbid running the zone for `durationMinutes` now, or null if allowed
+export async function getRestrictionRefusal(
+  zone: Zone,
+  durationMinutes: number,
+  at: Date = new Date()
+): Promise<string | null> {
+  const restrictions = await getActiveRestrictions();
+  const minutesToday = restrictions.max_minutes_per_day !== null ? await getMinutesWateredOn(zone.id, at) : 0;
+  return getRestrictionViolation(restrictions, at, durationMinutes, minutesToday);
+}
+
+// Callers that already captured the weather for this run (the crons, once per tick) pass its
+// snapshot ID; otherwise the current weather is fetched and captured here.
+export async function startWatering(
+  zone: Zone,
+  durationMinutes: number,
+  trigger: WateringTrigger,
+  actor: string | null = null,
+  weatherSnapshotId?: string | null
+): Promise<StartWateringResult> {
+  // A second start would reset the tap's countdown and log a second event, and the water-check
+  // cron would then stop the tap at the first run's end
+  if (await hasActiveWatering(zone.id)) {
+    return { success: false, busy: true, error: `${zone.name} is already watering` };
+  }
+
+  // Fail closed: a restricted garden mustn't water freely because storage is down
+  let refusal: string | null;
+  try {
+    refusal = await getRestrictionRefusal(zone, durationMinutes);
+  } catch (error) {
+    console.error("Failed to check water restrictions:", error);
+    return { success: false, error: "Couldn't check the water restrictions, so the water wasn't turned on" };
+  }
+  if (refusal) {
+    return { success: false, restricted: true, error: refusal };
+  }
+
+  const turnOnResult = await turnOnDeviceFor(zone.device_id, durationMinutes);
+  if (!turnOnResult.success) {
+    return { success: false, error: turnOnResult.error || "Failed to turn on water" };
+  }
+
+  const snapshotId =
+    weatherSnapshotId !== undefined ? weatherSnapshotId : await recordWeatherSnapshot(await fetchWeatherData());
+  const eventId = await startScheduledWatering(zone.id, durationMinutes, trigger, actor, snapshotId);
+
+  // A run with no event would be invisible to the history, the daily limit and the water-check
+  // cron, so don't leave the tap on without one
+  if (!eventId) {
+    const offResult = await turnOffDevice(zone.device_id);
+    return {
+      success: false,
+      error: offResult.success
+        ? "Failed to record the watering event, so the water was turned off again"
+        : `Failed to record the watering event, and turning the water off failed: ${offResult.error}`,
+    };
+  }
+
+  return {
+    success: true,
+    eventId,
+    weatherSnapshotId: snapshotId,
+    scheduledEndAt: new Date(Date.now() + durationMinutes * 60 * 1000).toISOString(),
+    countdownSet: turnOnResult.countdownSet,
+  };
+}
+
+// Turn the tap off now and close every open event for the zone, whatever started it
+export async function stopWatering(zone: Zone): Promise<StopWateringResult> {
+  const offResult = await turnOffDevice(zone.device_id);
+  if (!offResult.success) {
+    return { success: false, closed: 0, error: offResult.error || "Failed to turn off water" };
+  }
+
+  const events = await getActiveWateringEvents(zone.id);
+  let closed = 0;
+  for (const event of events) {
+    if (await logWateringEnd(event.id)) closed++;
+  }
+
+  return { success: true, closed };
+}
+
+// Compare every open watering event with its tap's actual state:
+// - tap already off (countdown fired, or turned off in SmartLife) -> log the end
+// - tap still on past its scheduled end -> turn it off and log the end
+export async function reconcileWatering(log: (message: string) => void): Promise<ReconcileResult> {
+  const result: ReconcileResult = { checked: 0, closed: 0, stopped: 0, errors: [] };
+
+  const events = await getActiveWateringEvents();
+  if (events.length === 0) {
+    return result;
+  }
+
+  // Include archived zones so a run started before archiving is still stopped
+  const zones = await getZones({ includeArchived: true });
+  const now = Date.now();
+
+  for (const event of events) {
+    result.checked++;
+
+    const zone = zones.find((z) => z.id === event.zone_id);
+    if (!zone) {
+      const errorMsg = `No zone configured for event ${event.id} (${event.zone_id})`;
+      log(errorMsg);
+      result.errors.push(errorMsg);
+      continue;
+    }
+
+    if (now - new Date(event.started_at).getTime() < STATUS_GRACE_MS) {
+      continue;
+    }
+
+    const scheduledEnd = event.scheduled_end_at ? new Date(event.scheduled_end_at).getTime() : null;
+    const overdue = scheduledEnd !== null && now >= scheduledEnd;
+
+    const { device, error } = await getDeviceStatus(zone.device_id);
+
+    if (error || !device) {
+      // Can't see the tap - if it should be off by now, send the off command anyway
+      if (overdue) {
+        log(`${zone.name}: tap status unavailable (${error}), sending off command for overdue event ${event.id}`);
+        const offResult = await turnOffDevice(zone.device_id);
+        if (offResult.success) {
+          await logWateringEnd(event.id);
+          result.stopped++;
+          continue;
+        }
+      }
+      const errorMsg = `Could not check tap for event ${event.id}: ${error}`;
+      log(errorMsg);
+      result.errors.push(errorMsg);
+      continue;
+    }
+
+    if (!isDeviceOn(device)) {
+      // The tap stopped itself; if that happened at the scheduled end, record that time
+      const endedAt = scheduledEnd !== null && overdue ? new Date(scheduledEnd) : new Date(now);
+      await logWateringEnd(event.id, endedAt.toISOString());
+      log(`${zone.name}: tap already off, closed event ${event.id} at ${endedAt.toISOString()}`);
+      result.closed++;
+      continue;
+    }
+
+    if (overdue) {
+      log(`${zone.name}: tap still on past scheduled end (${event.scheduled_end_at}), turning off`);
+      const offResult = await turnOffDevice(zone.device_id);
+      if (!offResult.success) {
+        const errorMsg = `Failed to turn off water for event ${event.id}: ${offResult.error}`;
+        log(errorMsg);
+        result.errors.push(errorMsg);
+        continue;
+      }
+      await logWateringEnd(event.id);
+      result.stopped++;
+    }
+  }
+
+  return result;
+}
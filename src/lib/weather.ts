@@ -0,0 +1,311 @@
+import { getMelbourneTime } from "@/lib/time";
+
+// Open-Meteo weather for the property, shared by /api/weather, the crons and the chat assistant
+
+// Default coordinates for Mount Eliza, Victoria, Australia
+// Can be overridden with env vars
+const LATITUDE = process.env.LOCATION_LATITUDE || "-38.4534";
+const LONGITUDE = process.env.LOCATION_LONGITUDE || "145.0933";
+
+interface OpenMeteoResponse {
+  utc_offset_seconds: number; // times are local to the location (timezone=auto)
+  current: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    precipitation: number;
+    weather_code: number;
+    wind_speed_10m: number;
+  };
+  hourly: {
+    time: string[];
+    precipitation: number[];
+    precipitation_probability: number[];
+  };
+  daily: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    precipitation_sum: number[];
+    precipitation_probability_max: number[];
+    et0_fao_evapotranspiration: number[];
+  };
+}
+
+export interface WeatherData {
+  current: {
+    temperature: number;
+    humidity: number;
+    precipitation: number;
+    weatherCode: number;
+    weatherDescription: string;
+    windSpeed: number;
+  };
+  recentRainfall: {
+    last24h: number;
+    last7days: number;
+  };
+  // Rain forecast from now until this time tomorrow, from the hourly forecast
+  upcomingRainfall: {
+    next24h: number; // mm
+    probability: number; // highest hourly chance, %
+  };
+  forecast: Array<{
+    date: string;
+    dayName: string;
+    weatherCode: number;
+    weatherDescription: string;
+    tempMax: number;
+    tempMin: number;
+    precipitationSum: number;
+    precipitationProbability: number;
+    et0: number; // FAO-56 reference evapotranspiration, mm
+  }>;
+  // FAO-56 reference evapotranspiration (ET0, mm): what a well-watered reference grass loses to
+  // evaporation and transpiration. water-balance.ts scales it per zone.
+  evapotranspiration: {
+    today: number; // forecast for the whole of today
+    last7days: number;
+    daily: Array<{ date: string; et0: number; precipitation: number }>; // the 7 days before today, oldest first
+  };
+  wateringRecommendation: {
+    shouldWater: boolean;
+    reason: string;
+    urgency: "none" | "low" | "medium" | "high";
+  };
+}
+
+function getWeatherDescription(code: number): string {
+  const descriptions: Record<number, string> = {
+    0: "Clear sky",
+    1: "Mainly clear",
+    2: "Partly cloudy",
+    3: "Overcast",
+    45: "Foggy",
+    48: "Depositing rime fog",
+    51: "Light drizzle",
+    53: "Moderate drizzle",
+    55: "Dense drizzle",
+    61: "Slight rain",
+    63: "Moderate rain",
+    65: "Heavy rain",
+    66: "Light freezing rain",
+    67: "Heavy freezing rain",
+    71: "Slight snow",
+    73: "Moderate snow",
+    75: "Heavy snow",
+    77: "Snow grains",
+    80: "Slight rain showers",
+    81: "Moderate rain showers",
+    82: "Violent rain showers",
+    85: "Slight snow showers",
+    86: "Heavy snow showers",
+    95: "Thunderstorm",
+    96: "Thunderstorm with slight hail",
+    99: "Thunderstorm with heavy hail",
+  };
+  return descriptions[code] || "Unknown";
+}
+
+function getDayName(dateStr: string): string {
+  const date = new Date(dateStr);
+  const today = new Date();
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === tomorrow.toDateString()) return "Tomorrow";
+
+  return date.toLocaleDateString("en-AU", { weekday: "short" });
+}
+
+function calculateWateringRecommendation(
+  recentRainfall: number,
+  recentEt0: number,
+  forecastRain: number[],
+  precipProbability: number[]
+): WeatherData["wateringRecommendation"] {
+  const next3DaysRain = forecastRain.slice(0, 3).reduce((a, b) => a + b, 0);
+  const next3DaysProbability = Math.max(...precipProbability.slice(0, 3));
+  // Water lost to evapotranspiration over the last week that rain didn't replace
+  const deficit = recentEt0 - recentRainfall;
+
+  // If recent rain kept up with evaporation, no need to water
+  if (recentRainfall > 10 && deficit <= 0) {
+    return {
+      shouldWater: false,
+      reason: `${recentRainfall.toFixed(1)}mm of rain in the last 7 days, more than the ${recentEt0.toFixed(1)}mm lost to evaporation - soil should be moist`,
+      urgency: "none",
+    };
+  }
+
+  // If rain expected soon with high probability
+  if (next3DaysProbability > 70 && next3DaysRain > 5) {
+    return {
+      shouldWater: false,
+      reason: `Rain forecast: ${next3DaysRain.toFixed(1)}mm expected in next 3 days (${next3DaysProbability}% chance)`,
+      urgency: "none",
+    };
+  }
+
+  // If some rain expected
+  if (next3DaysProbability > 50 && next3DaysRain > 2) {
+    return {
+      shouldWater: false,
+      reason: `Possible rain: ${next3DaysRain.toFixed(1)}mm expected (${next3DaysProbability}% chance) - consider waiting`,
+      urgency: "low",
+    };
+  }
+
+  // Evaporation well ahead of rain and none expected
+  if (deficit > 20 && next3DaysRain < 2) {
+    return {
+      shouldWater: true,
+      reason: `${deficit.toFixed(1)}mm more lost to evaporation than fell as rain in the last 7 days, and a dry forecast - watering recommended`,
+      urgency: "high",
+    };
+  }
+
+  // Moderate recommendation
+  if (deficit > 10) {
+    return {
+      shouldWater: true,
+      reason: `Only ${recentRainfall.toFixed(1)}mm of rain against ${recentEt0.toFixed(1)}mm of evaporation in the last 7 days - watering suggested`,
+      urgency: "medium",
+    };
+  }
+
+  return {
+    shouldWater: false,
+    reason: "Conditions look adequate - monitor soil moisture",
+    urgency: "low",
+  };
+}
+
+export async function getWeatherData(): Promise<WeatherData> {
+  // Fetch current weather + 7 day forecast + past 7 days
+  const params = new URLSearchParams({
+    latitude: LATITUDE,
+    longitude: LONGITUDE,
+    current: "temperature_2m,relative_humidity_2m,precipitation,weather_code,wind_speed_10m",
+    hourly: "precipitation,precipitation_probability",
+    daily:
+      "weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max,et0_fao_evapotranspiration",
+    past_days: "7",
+    forecast_days: "7",
+    timezone: "auto",
+  });
+
+  const response = await fetch(
+    `https://api.open-meteo.com/v1/forecast?${params}`,
+    { next: { revalidate: 1800 } } // Cache for 30 minutes
+  );
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch weather data");
+  }
+
+  const data: OpenMeteoResponse = await response.json();
+
+  // Calculate recent rainfall (last 7 days) and upcoming rain (next 24 hours) from hourly data.
+  // Hourly times have no offset ("2026-01-15T06:00", local to the location), so apply it here.
+  const now = new Date();
+  const last24hStart = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const last7daysStart = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const next24hEnd = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  const offsetMs = (data.utc_offset_seconds ?? 0) * 1000;
+
+  let last24h = 0;
+  let last7days = 0;
+  let next24h = 0;
+  let next24hProbability = 0;
+
+  data.hourly.time.forEach((time, i) => {
+    const timeDate = new Date(new Date(`${time}Z`).getTime() - offsetMs);
+    if (timeDate >= last7daysStart && timeDate <= now) {
+      last7days += data.hourly.precipitation[i] || 0;
+      if (timeDate >= last24hStart) {
+        last24h += data.hourly.precipitation[i] || 0;
+      }
+    } else if (timeDate > now && timeDate <= next24hEnd) {
+      next24h += data.hourly.precipitation[i] || 0;
+      next24hProbability = Math.max(next24hProbability, data.hourly.precipitation_probability[i] || 0);
+    }
+  });
+
+  // Get future forecast (from today onwards). Daily dates are the garden's, not UTC's - in the
+  // UTC morning Melbourne is already on the next day.
+  const todayStr = getMelbourneTime(now).date;
+  const todayIndex = data.daily.time.findIndex((t) => t >= todayStr);
+  const futureDays = data.daily.time.slice(todayIndex, todayIndex + 7);
+
+  const forecast = futureDays.map((date, i) => {
+    const idx = todayIndex + i;
+    return {
+      date,
+      dayName: getDayName(date),
+      weatherCode: data.daily.weather_code[idx],
+      weatherDescription: getWeatherDescription(data.daily.weather_code[idx]),
+      tempMax: data.daily.temperature_2m_max[idx],
+      tempMin: data.daily.temperature_2m_min[idx],
+      precipitationSum: data.daily.precipitation_sum[idx],
+      precipitationProbability: data.daily.precipitation_probability_max[idx],
+      et0: data.daily.et0_fao_evapotranspiration[idx] ?? 0,
+    };
+  });
+
+  // Daily ET0 and rain for the past week (past_days=7 puts them before today)
+  const pastDays = data.daily.time.slice(Math.max(0, todayIndex - 7), todayIndex).map((date, i) => {
+    const idx = Math.max(0, todayIndex - 7) + i;
+    return {
+      date,
+      et0: data.daily.et0_fao_evapotranspiration[idx] ?? 0,
+      precipitation: data.daily.precipitation_sum[idx] ?? 0,
+    };
+  });
+  const et0Last7days = pastDays.reduce((sum, day) => sum + day.et0, 0);
+
+  const weatherData: WeatherData = {
+    current: {
+      temperature: data.current.temperature_2m,
+      humidity: data.current.relative_humidity_2m,
+      precipitation: data.current.precipitation,
+      weatherCode: data.current.weather_code,
+      weatherDescription: getWeatherDescription(data.current.weather_code),
+      windSpeed: data.current.wind_speed_10m,
+    },
+    recentRainfall: {
+      last24h: Math.round(last24h * 10) / 10,
+      last7days: Math.round(last7days * 10) / 10,
+    },
+    upcomingRainfall: {
+      next24h: Math.round(next24h * 10) / 10,
+      probability: next24hProbability,
+    },
+    forecast,
+    evapotranspiration: {
+      today: forecast[0]?.et0 ?? 0,
+      last7days: Math.round(et0Last7days * 10) / 10,
+      daily: pastDays,
+    },
+    wateringRecommendation: calculateWateringRecommendation(
+      last7days,
+      et0Last7days,
+      forecast.map((f) => f.precipitationSum),
+      forecast.map((f) => f.precipitationProbability)
+    ),
+  };
+
+  return weatherData;
+}
+
+// Same as getWeatherData, but returns null instead of throwing (for callers that can run without weather)
+export async function fetchWeatherData(): Promise<WeatherData | null> {
+  try {
+    return await getWeatherData();
+  } catch (error) {
+    console.error("Failed to fetch weather:", error);
+    return null;
+  }
+}
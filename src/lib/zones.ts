@@ -0,0 +1,108 @@
+import type { ZoneInput } from "@/lib/storage";
+import { PLANT_PRESETS, SOIL_TYPE_LABELS, SUN_EXPOSURE_LABELS, WATER_NEEDS_LABELS } from "@/lib/plants";
+
+// Turn a zone name into an ID like "back-garden-beds"
+export function slugifyZoneId(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function optionalString(field: string, value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== "string") throw new Error(`${field} must be a string`);
+  const trimmed = value.trim();
+  return trimmed === "" ? null : trimmed;
+}
+
+// An optional string that must be one of the allowed keys
+function optionalChoice(field: string, value: unknown, allowed: Record<string, unknown>): string | null | undefined {
+  const parsed = optionalString(field, value);
+  if (parsed && !Object.hasOwn(allowed, parsed)) {
+    throw new Error(`${field} must be one of ${Object.keys(allowed).join(", ")}`);
+  }
+  return parsed;
+}
+
+// Validate a zone create/update request body. With `partial` set, only the
+// fields present in the body are validated (used for PATCH).
+export function parseZoneInput(
+  body: unknown,
+  partial: boolean
+): { value?: ZoneInput; error?: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const value: ZoneInput = {};
+
+  try {
+    for (const field of ["id", "name", "device_id", "description", "sensor_device_id", "plant_type"] as const) {
+      const parsed = optionalString(field, input[field]);
+      if (parsed !== undefined) value[field] = parsed as string;
+    }
+
+    const choiceFields = [
+      ["plant_preset", PLANT_PRESETS],
+      ["water_needs", WATER_NEEDS_LABELS],
+      ["soil_type", SOIL_TYPE_LABELS],
+      ["sun_exposure", SUN_EXPOSURE_LABELS],
+    ] as const;
+    for (const [field, allowed] of choiceFields) {
+      const parsed = optionalChoice(field, input[field], allowed);
+      if (parsed !== undefined) (value as Record<string, unknown>)[field] = parsed;
+    }
+
+    if (input.plant_date !== undefined && input.plant_date !== null && input.plant_date !== "") {
+      if (typeof input.plant_date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(input.plant_date)) {
+        throw new Error("plant_date must be a date in YYYY-MM-DD format");
+      }
+      value.plant_date = input.plant_date;
+    } else if (input.plant_date !== undefined) {
+      value.plant_date = null;
+    }
+
+    if (input.map_polygon !== undefined && input.map_polygon !== null) {
+      const polygon = input.map_polygon;
+      const isValid =
+        Array.isArray(polygon) &&
+        polygon.length >= 3 &&
+        polygon.every(
+          (point) =>
+            Array.isArray(point) &&
+            point.length === 2 &&
+            point.every((n) => typeof n === "number" && n >= 0 && n <= 100)
+        );
+      if (!isValid) {
+        throw new Error("map_polygon must be at least 3 [x, y] points between 0 and 100");
+      }
+      value.map_polygon = polygon as Array<[number, number]>;
+    } else if (input.map_polygon === null) {
+      value.map_polygon = null;
+    }
+
+    if (input.archived !== undefined) {
+      if (typeof input.archived !== "boolean") throw new Error("archived must be a boolean");
+      value.archived_at = input.archived ? new Date().toISOString() : null;
+    }
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+
+  if (!partial) {
+    if (!value.name) return { error: "name is required" };
+    if (!value.device_id) return { error: "device_id is required" };
+    if (!value.id) value.id = slugifyZoneId(value.name);
+    if (!value.id) return { error: "Could not derive a zone ID from the name" };
+  } else {
+    if (value.id !== undefined) return { error: "Zone ID cannot be changed" };
+    if (value.name === null) return { error: "name cannot be empty" };
+    if (value.device_id === null) return { error: "device_id cannot be empty" };
+  }
+
+  return { value };
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser, canAccess } from "@/lib/auth";
+
+// Every API route needs a signed session cookie, except login/logout/session
+// and the cron endpoints, which check their own CRON_SECRET bearer token.
+const PUBLIC_API_PREFIXES = ["/api/auth/", "/api/cron/"];
+
+export async function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (PUBLIC_API_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
+  let user;
+  try {
+    user = await getSessionUser(request);
+  } catch (error) {
+    console.error("Session check failed:", error);
+    return NextResponse.json({ error: "Couldn't check your session" }, { status: 500 });
+  }
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canAccess(user.role, request.method, pathname)) {
+    return NextResponse.json(
+      { error: `Your role (${user.role}) can't do this` },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/history/route";
+import { createFileRepository } from "@/lib/file-storage";
+import { createZone, getStorage, logWateringEnd, setStorage, startScheduledWatering } from "@/lib/storage";
+
+// 11:00 on 15 Jan 2026 in Melbourne (AEDT, UTC+11)
+const NOW = new Date("2026-01-15T00:00:00Z");
+
+async function fetchHistory(query = "") {
+  const response = await GET(new Request(`http://localhost/api/history${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+async function addRun(startedAt: string) {
+  vi.setSystemTime(new Date(startedAt));
+  const eventId = await startScheduledWatering("front", 10, "manual");
+  await logWateringEnd(eventId!, new Date(new Date(startedAt).getTime() + 10 * 60 * 1000).toISOString());
+}
+
+describe("api/history", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setStorage(createFileRepository());
+    await createZone({ id: "front", name: "Front Garden", device_id: "sim-tap-1" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setStorage(null);
+  });
+
+  it("keeps the requested limit between 1 and 200", async () => {
+    vi.setSystemTime(NOW);
+    const getWateringHistory = vi.spyOn(getStorage(), "getWateringHistory");
+
+    for (const query of ["", "?limit=abc", "?limit=0", "?limit=-5", "?limit=20", "?limit=100000"]) {
+      expect((await fetchHistory(query)).status).toBe(200);
+    }
+
+    expect(getWateringHistory.mock.calls.map(([limit]) => limit)).toEqual([50, 50, 1, 1, 20, 200]);
+  });
+
+  it("only reads soil readings for runs from the last 30 days", async () => {
+    await addRun("2025-10-01T00:00:00Z");
+    await addRun("2026-01-10T00:00:00Z");
+    vi.setSystemTime(NOW);
+    const getSoilReadingsBetween = vi.spyOn(getStorage(), "getSoilReadingsBetween");
+
+    const { body } = await fetchHistory();
+
+    expect(getSoilReadingsBetween).toHaveBeenCalledTimes(1);
+    expect(getSoilReadingsBetween.mock.calls[0][1]).toBe("2026-01-09T22:00:00.000Z");
+    expect(body.events).toHaveLength(2);
+    expect(body.events[0].effectiveness?.status).toBe("no_readings");
+    expect(body.events[1].effectiveness).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/login/route";
+import { hashPin } from "@/lib/auth";
+import { createFileRepository } from "@/lib/file-storage";
+import { clearLoginAttempts, getClientIp } from "@/lib/login-throttle";
+import { createUser, setStorage } from "@/lib/storage";
+
+const OWNER_PIN = "123456";
+
+async function login(body: Record<string, unknown>, ip = "203.0.113.7") {
+  const response = await POST(
+    new Request("http://localhost/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Real-IP": ip },
+      body: JSON.stringify(body),
+    })
+  );
+  return {
+    status: response.status,
+    body: await response.json(),
+    cookie: response.headers.get("set-cookie"),
+    retryAfter: response.headers.get("retry-after"),
+  };
+}
+
+describe("auth/login", () => {
+  beforeEach(() => {
+    vi.stubEnv("SESSION_SECRET", "test-secret");
+    vi.stubEnv("APP_PIN_HASH", hashPin(OWNER_PIN));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setStorage(createFileRepository());
+    clearLoginAttempts();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setStorage(null);
+  });
+
+  it("logs in with the owner PIN while there are no household users", async () => {
+    const { status, body, cookie } = await login({ pin: OWNER_PIN });
+
+    expect(status).toBe(200);
+    expect(body.user).toMatchObject({ id: "owner", role: "owner" });
+    expect(cookie).toContain("watering_session=");
+  });
+
+  it("refuses the owner PIN once household users exist", async () => {
+    await createUser({ name: "Sam", role: "owner", pin_hash: hashPin("654321") });
+
+    expect((await login({ name: "Sam", pin: OWNER_PIN })).status).toBe(401);
+    expect((await login({ name: "Sam", pin: "654321" })).body.user).toMatchObject({ name: "Sam" });
+  });
+
+  it("locks a name out after 5 wrong PINs, even with the right one, until the lockout ends", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await createUser({ name: "Sam", role: "owner", pin_hash: hashPin("654321") });
+
+    for (let i = 0; i < 5; i++) {
+      expect((await login({ name: "Sam", pin: "000000" }, `198.51.100.${i}`)).status).toBe(401);
+    }
+
+    const locked = await login({ name: "sam", pin: "654321" }, "198.51.100.99");
+    expect(locked.status).toBe(429);
+    expect(locked.retryAfter).toBe("900");
+    expect(locked.cookie).toBeNull();
+
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+    expect((await login({ name: "Sam", pin: "654321" })).status).toBe(200);
+  });
+
+  it("locks out an IP that tries many names", async () => {
+    await createUser({ name: "Sam", role: "owner", pin_hash: hashPin("654321") });
+
+    for (let i = 0; i < 20; i++) {
+      await login({ name: `guess-${i}`, pin: "000000" });
+    }
+
+    expect((await login({ name: "Sam", pin: "654321" })).status).toBe(429);
+    expect((await login({ name: "Sam", pin: "654321" }, "192.0.2.1")).status).toBe(200);
+  });
+
+  it("locks out the owner PIN after 5 wrong tries whatever name is sent", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await login({ name: `name-${i}`, pin: "000000" }, `198.51.100.${i}`)).status).toBe(401);
+    }
+
+    expect((await login({ name: "someone-else", pin: OWNER_PIN }, "198.51.100.99")).status).toBe(429);
+  });
+
+  it("takes the IP from the proxy, not from what the client put in X-Forwarded-For", () => {
+    const request = (headers: Record<string, string>) => new Request("http://localhost", { headers });
+
+    expect(getClientIp(request({ "X-Real-IP": "203.0.113.7", "X-Forwarded-For": "10.0.0.1" }))).toBe("203.0.113.7");
+    expect(getClientIp(request({ "X-Forwarded-For": "10.0.0.1, 203.0.113.7" }))).toBe("203.0.113.7");
+    expect(getClientIp(request({}))).toBe("unknown");
+  });
+
+  it("fails rather than falling back to the owner PIN when users can't be read", async () => {
+    setStorage({
+      ...createFileRepository(),
+      getUsers: async () => {
+        throw new Error("Failed to fetch users: connection refused");
+      },
+    });
+
+    const { status, cookie } = await login({ pin: OWNER_PIN });
+
+    expect(status).toBe(500);
+    expect(cookie).toBeNull();
+  });
+});
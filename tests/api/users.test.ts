@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/users/route";
+import { DELETE } from "@/app/api/users/[userId]/route";
+import { hashPin } from "@/lib/auth";
+import { createFileRepository } from "@/lib/file-storage";
+import { createUser, getUsers, setStorage, type StorageRepository } from "@/lib/storage";
+
+let repository: StorageRepository;
+
+async function addUser(body: Record<string, unknown>) {
+  const response = await POST(
+    new Request("http://localhost/api/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+async function removeUser(userId: string) {
+  const response = await DELETE(
+    new NextRequest(`http://localhost/api/users/${userId}`, { method: "DELETE" }),
+    { params: Promise.resolve({ userId }) }
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe("api/users", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    repository = createFileRepository();
+    setStorage(repository);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setStorage(null);
+  });
+
+  it("refuses a first user who isn't an owner", async () => {
+    const { status, body } = await addUser({ name: "Sam", pin: "246810", role: "gardener" });
+
+    expect(status).toBe(409);
+    expect(body.error).toBe("The first user must be an owner");
+    expect(await getUsers()).toHaveLength(0);
+  });
+
+  it("adds gardeners once there is an owner", async () => {
+    expect((await addUser({ name: "Alex", pin: "135790", role: "owner" })).status).toBe(201);
+    expect((await addUser({ name: "Sam", pin: "246810", role: "gardener" })).status).toBe(201);
+  });
+
+  it("answers a storage error on delete with a JSON 500", async () => {
+    const user = await createUser({ name: "Alex", pin_hash: hashPin("135790"), role: "owner" });
+    vi.spyOn(repository, "getUsers").mockRejectedValue(new Error("Failed to fetch users: timeout"));
+
+    const { status, body } = await removeUser(user!.id);
+
+    expect(status).toBe(500);
+    expect(body.error).toBe("Failed to fetch users: timeout");
+  });
+});
@@ -0,0 +1,472 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/cron/auto-water/route";
+import { setDeviceProvider } from "@/lib/devices";
+import { createDeviceSimulator, type DeviceSimulator } from "@/lib/device-simulator";
+import { createFileRepository } from "@/lib/file-storage";
+import { DEFAULT_POLICIES } from "@/lib/policies";
+import { RESTRICTION_PRESETS } from "@/lib/restrictions";
+import {
+  createRainDelay,
+  createWateringPolicy,
+  createZone,
+  getAiDecisions,
+  getStorage,
+  getSoilReadings,
+  getWateringHistory,
+  logWateringEnd,
+  saveWaterRestrictions,
+  setStorage,
+  startScheduledWatering,
+  updateZone,
+} from "@/lib/storage";
+import { fetchWeatherData, type WeatherData } from "@/lib/weather";
+import { gemini } from "../helpers/fake-gemini";
+
+vi.mock("@google/generative-ai", () => import("../helpers/fake-gemini"));
+vi.mock("@/lib/weather", () => ({ fetchWeatherData: vi.fn(async () => null) }));
+// Cron auth and rate limiting aren't under test here
+vi.mock("@/lib/cron", () => ({ authorizeCronRequest: () => null }));
+
+// 11:00 and 23:30 on 15 Jan 2026 in Melbourne (AEDT, UTC+11)
+const MORNING = new Date("2026-01-15T00:00:00Z");
+const LATE_NIGHT = new Date("2026-01-15T12:30:00Z");
+// 10:00 on 15 Jul 2026 in Melbourne (AEST, UTC+10)
+const WINTER_MORNING = new Date("2026-07-15T00:00:00Z");
+
+const HOT_DRY_WEATHER: WeatherData = {
+  current: {
+    temperature: 31,
+    humidity: 25,
+    precipitation: 0,
+    weatherCode: 0,
+    weatherDescription: "Clear sky",
+    windSpeed: 20,
+  },
+  recentRainfall: { last24h: 0, last7days: 1.5 },
+  upcomingRainfall: { next24h: 0, probability: 0 },
+  forecast: [],
+  evapotranspiration: {
+    today: 7,
+    last7days: 42,
+    daily: ["09", "10", "11", "12", "13", "14"].map((day) => ({ date: `2026-01-${day}`, et0: 7, precipitation: 0 })),
+  },
+  wateringRecommendation: { shouldWater: true, reason: "Dry", urgency: "high" },
+};
+
+let simulator: DeviceSimulator;
+
+async function setUpGarden(initialMoisture: number) {
+  simulator = createDeviceSimulator({ zones: 1, initialMoisture });
+  setDeviceProvider(simulator);
+  await createZone({ id: "front", name: "Front Garden", device_id: "sim-tap-1", sensor_device_id: "sim-soil-1" });
+}
+
+async function runAutoWater() {
+  const response = await GET(new Request("http://localhost/api/cron/auto-water"));
+  return { status: response.status, body: await response.json() };
+}
+
+async function tapStatus() {
+  const { device } = await simulator.getDeviceStatus("sim-tap-1");
+  return Object.fromEntries(device!.status.map((s) => [s.code, s.value]));
+}
+
+describe("cron/auto-water", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(MORNING);
+    vi.stubEnv("GEMINI_API_KEY", "test-key");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setStorage(createFileRepository());
+    gemini.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setDeviceProvider(null);
+    setStorage(null);
+  });
+
+  it("skips outside watering hours without asking the AI", async () => {
+    await setUpGarden(10);
+    vi.setSystemTime(LATE_NIGHT);
+
+    const { status, body } = await runAutoWater();
+
+    expect(status).toBe(200);
+    expect(body.action).toBe("skipped");
+    expect(body.currentHour).toBe(23);
+    expect(gemini.generateContent).not.toHaveBeenCalled();
+    expect((await tapStatus()).switch).toBe(false);
+  });
+
+  it("skips without asking the AI while the water restrictions forbid watering", async () => {
+    await setUpGarden(10);
+    await saveWaterRestrictions({ stage: "stage_4", ...RESTRICTION_PRESETS.stage_4 });
+
+    const { body } = await runAutoWater();
+
+    expect(body.action).toBe("skipped");
+    expect(body.reason).toBe("Water restrictions (Stage 4): watering systems may not be used");
+    expect(gemini.generateContent).not.toHaveBeenCalled();
+  });
+
+  it("logs a decision to water as refused when the run would break the daily limit", async () => {
+    vi.stubEnv("DECISION_MODE", "rules");
+    await setUpGarden(15);
+    await saveWaterRestrictions({ stage: "permanent", ...RESTRICTION_PRESETS.none, max_minutes_per_day: 30 });
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0]).toMatchObject({ success: true, action: "skipped" });
+    expect(body.results[0].reason).toContain("the zone has 30 of its 30 minutes left today");
+    expect((await tapStatus()).switch).toBe(false);
+    const [decision] = await getAiDecisions();
+    expect(decision).toMatchObject({ should_water: true, duration_minutes: 60, action: "none" });
+    expect(decision.error).toContain("Water restrictions (Permanent Water Use Rules)");
+  });
+
+  it("skips every zone during a rain delay without asking the AI", async () => {
+    await setUpGarden(10);
+    await createRainDelay({ zone_id: null, ends_at: "2026-01-18T00:00:00Z", reason: "Storm", created_by: "Sam" });
+
+    const { body } = await runAutoWater();
+
+    expect(body.action).toBe("skipped");
+    expect(body.reason).toBe("Rain delay until Sun, 18 Jan, 11:00 am (Storm)");
+    expect(gemini.generateContent).not.toHaveBeenCalled();
+    expect((await tapStatus()).switch).toBe(false);
+  });
+
+  it("doesn't water when the rain delays can't be read", async () => {
+    vi.stubEnv("DECISION_MODE", "rules");
+    await setUpGarden(10);
+    vi.spyOn(getStorage(), "getRainDelays").mockRejectedValue(new Error("Failed to fetch rain delays: timeout"));
+
+    const { status, body } = await runAutoWater();
+
+    expect(status).toBe(500);
+    expect(body).toMatchObject({ success: false, action: "skipped" });
+    expect(body.reason).toContain("Couldn't check rain delays");
+    expect((await tapStatus()).switch).toBe(false);
+  });
+
+  it("skips only the delayed zone, and not once the delay is over", async () => {
+    vi.stubEnv("DECISION_MODE", "rules");
+    await setUpGarden(15);
+    await createRainDelay({ zone_id: "front", ends_at: "2026-01-16T00:00:00Z", reason: null, created_by: null });
+
+    const delayed = await runAutoWater();
+    expect(delayed.body.results[0]).toMatchObject({ success: true, action: "skipped" });
+    expect(delayed.body.results[0].reason).toBe("Rain delay until Fri, 16 Jan, 11:00 am");
+    expect(await getAiDecisions()).toHaveLength(0);
+
+    vi.setSystemTime(new Date("2026-01-16T00:30:00Z"));
+    const after = await runAutoWater();
+    expect(after.body.results[0].action).toBe("started");
+  });
+
+  it("still auto-waters the original zone after the upgrade links its hard-coded soil sensor", async () => {
+    vi.stubEnv("DECISION_MODE", "rules");
+    const sql = readFileSync(path.join(__dirname, "..", "..", "migrations", "0014_original_zone_sensor.sql"), "utf8");
+    const [, sensorId, zoneId, tapId] =
+      /UPDATE zones SET sensor_device_id = '(\w+)'\s+WHERE id = '([\w-]+)' AND device_id = '(\w+)'/.exec(sql)!;
+
+    // The real Tuya IDs from before the upgrade, answered by the simulator's first tap and sensor
+    simulator = createDeviceSimulator({ zones: 1, initialMoisture: 15 });
+    const simulatedId = (deviceId: string) =>
+      ({ [tapId]: "sim-tap-1", [sensorId]: "sim-soil-1" })[deviceId] ?? deviceId;
+    setDeviceProvider({
+      ...simulator,
+      getDeviceStatus: (deviceId) => simulator.getDeviceStatus(simulatedId(deviceId)),
+      sendDeviceCommand: (deviceId, commands) => simulator.sendDeviceCommand(simulatedId(deviceId), commands),
+    });
+    // The zone as the upgrade leaves it: the baseline row plus the backfilled sensor
+    await createZone({ id: zoneId, name: "Front Garden", device_id: tapId });
+    await updateZone(zoneId, { sensor_device_id: sensorId });
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0]).toMatchObject({ zoneId: "zone-1", action: "started" });
+    expect((await tapStatus()).switch).toBe(true);
+  });
+
+  it("skips a zone that is already being watered", async () => {
+    await setUpGarden(10);
+    vi.setSystemTime(new Date(MORNING.getTime() - 5 * 60 * 1000));
+    await startScheduledWatering("front", 30, "manual");
+    vi.setSystemTime(MORNING);
+
+    const { status, body } = await runAutoWater();
+
+    expect(status).toBe(200);
+    expect(body.results[0]).toMatchObject({ action: "skipped", reason: "Watering already in progress" });
+    expect(gemini.generateContent).not.toHaveBeenCalled();
+    expect(await getWateringHistory()).toHaveLength(1);
+  });
+
+  it("reports an error when the soil sensor is offline", async () => {
+    await setUpGarden(10);
+    setDeviceProvider({
+      ...simulator,
+      getDeviceStatus: async (deviceId) =>
+        deviceId === "sim-soil-1"
+          ? { device: null, error: "2001: device is offline" }
+          : simulator.getDeviceStatus(deviceId),
+    });
+
+    const { status, body } = await runAutoWater();
+
+    expect(status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(body.results[0]).toMatchObject({
+      action: "error",
+      error: "Failed to read soil sensor",
+      details: "2001: device is offline",
+    });
+    expect(gemini.generateContent).not.toHaveBeenCalled();
+    expect(await getWateringHistory()).toHaveLength(0);
+  });
+
+  it("retries once, then falls back to the rules engine when the AI reply isn't JSON", async () => {
+    await setUpGarden(22);
+    gemini.reply("The soil looks dry, I would water the garden today.");
+
+    const { status, body } = await runAutoWater();
+
+    expect(status).toBe(200);
+    expect(body.results[0].action).toBe("started");
+    expect(body.results[0].aiDecision).toMatchObject({
+      shouldWater: true,
+      durationMinutes: 45,
+      confidence: "low",
+    });
+    expect(gemini.generateContent).toHaveBeenCalledTimes(2);
+    expect(gemini.generateContent.mock.calls[1][0]).toContain("Your previous response was rejected: Response is not valid JSON");
+    expect(body.results[0].aiDecision.reason).toContain("AI output failed validation, using rules");
+    expect(await tapStatus()).toEqual({ switch: true, countdown_1: 45 * 60 });
+    const readings = await getSoilReadings("front");
+    expect(readings).toHaveLength(1);
+    expect(readings[0].moisture_percent).toBe(22);
+  });
+
+  it("falls back without watering when the AI call fails and the soil is moist", async () => {
+    await setUpGarden(45);
+    gemini.fail(new Error("503 Service Unavailable"));
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0].action).toBe("none");
+    expect(body.results[0].aiDecision).toMatchObject({ shouldWater: false, confidence: "low" });
+    expect((await tapStatus()).switch).toBe(false);
+  });
+
+  it("logs the decision with its inputs, the raw model output and the outcome", async () => {
+    await setUpGarden(22);
+    gemini.reply("The soil looks dry, I would water the garden today.");
+
+    const { body } = await runAutoWater();
+
+    const [decision] = await getAiDecisions();
+    expect(decision).toMatchObject({
+      id: body.results[0].decisionId,
+      zone_id: "front",
+      moisture_percent: 22,
+      soil_temperature: 18,
+      waterings_this_week: 0,
+      raw_response: "The soil looks dry, I would water the garden today.",
+      should_water: true,
+      duration_minutes: 45,
+      fallback_used: true,
+      mode: "ai",
+      veto_reason: null,
+      validation_error: "Attempt 1: Response is not valid JSON; Attempt 2: Response is not valid JSON",
+      action: "started",
+      watering_event_id: body.results[0].eventId,
+      zones: { name: "Front Garden" },
+    });
+  });
+
+  it("logs decisions not to water", async () => {
+    await setUpGarden(55);
+    gemini.reply(JSON.stringify({ shouldWater: false, durationMinutes: 0, reason: "RULE 3", confidence: "high" }));
+
+    await runAutoWater();
+
+    const [decision] = await getAiDecisions();
+    expect(decision).toMatchObject({ action: "none", should_water: false, fallback_used: false, reason: "RULE 3" });
+  });
+
+  it("uses a valid retry and records the rejected reply", async () => {
+    await setUpGarden(18);
+    gemini.replyOnce(JSON.stringify({ shouldWater: true, durationMinutes: 45, reason: "RULE 2", confidence: "very" }));
+    gemini.replyOnce(JSON.stringify({ shouldWater: true, durationMinutes: 45, reason: "RULE 2", confidence: "high" }));
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0].aiDecision).toMatchObject({ shouldWater: true, durationMinutes: 45, confidence: "high" });
+    expect(await tapStatus()).toEqual({ switch: true, countdown_1: 45 * 60 });
+    const [decision] = await getAiDecisions();
+    expect(decision).toMatchObject({
+      fallback_used: false,
+      validation_error: "Attempt 1: confidence must be one of high, medium, low",
+    });
+  });
+
+  it("never starts the tap with an out-of-range duration", async () => {
+    await setUpGarden(45);
+    gemini.reply(JSON.stringify({ shouldWater: true, durationMinutes: 600, reason: "RULE 2", confidence: "high" }));
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0].action).toBe("none");
+    expect(body.results[0].aiDecision).toMatchObject({ shouldWater: false, confidence: "low" });
+    expect((await tapStatus()).switch).toBe(false);
+    const [decision] = await getAiDecisions();
+    expect(decision.validation_error).toContain("durationMinutes must be between 0 and 60");
+  });
+
+  it("describes the zone's plant profile in the prompt", async () => {
+    await setUpGarden(35);
+    await updateZone("front", { plant_type: "Leighton Green", plant_date: "2025-12-13", plant_preset: "leighton-green" });
+    gemini.reply(JSON.stringify({ shouldWater: false, durationMinutes: 0, reason: "RULE 3", confidence: "high" }));
+
+    await runAutoWater();
+
+    const prompt = gemini.generateContent.mock.calls[0][0];
+    expect(prompt).toContain("- Plant: Leighton Green (Cupressocyparis leylandii)");
+    expect(prompt).toContain("- Planted: 13/12/2025 (5 weeks ago)");
+    expect(prompt).toContain("- Establishment stage: Newly planted");
+    expect(prompt).toContain("- Water needs: Medium");
+  });
+
+  it("vetoes an AI decision to water that breaks the weekly cap", async () => {
+    await setUpGarden(25);
+    for (const daysAgo of [6, 4, 2]) {
+      vi.setSystemTime(new Date(MORNING.getTime() - daysAgo * 24 * 60 * 60 * 1000));
+      const eventId = await startScheduledWatering("front", 30, "automated");
+      await logWateringEnd(eventId!, new Date(Date.now() + 30 * 60 * 1000).toISOString());
+    }
+    vi.setSystemTime(MORNING);
+    gemini.reply(JSON.stringify({ shouldWater: true, durationMinutes: 40, reason: "Looks dry", confidence: "medium" }));
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0].action).toBe("none");
+    expect(body.results[0].aiDecision.reason).toContain("Vetoed by rules");
+    expect((await tapStatus()).switch).toBe(false);
+    const [decision] = await getAiDecisions();
+    expect(decision).toMatchObject({
+      action: "none",
+      should_water: false,
+      veto_reason: "Already watered 3 times this week (max 3)",
+    });
+  });
+
+  it("decides with the rules alone in rules mode", async () => {
+    vi.stubEnv("DECISION_MODE", "rules");
+    await setUpGarden(15);
+
+    const { body } = await runAutoWater();
+
+    expect(gemini.generateContent).not.toHaveBeenCalled();
+    expect(body.results[0].aiDecision).toMatchObject({ shouldWater: true, durationMinutes: 60, confidence: "high" });
+    expect(await tapStatus()).toEqual({ switch: true, countdown_1: 60 * 60 });
+    const [decision] = await getAiDecisions();
+    expect(decision).toMatchObject({ mode: "rules", raw_response: null, fallback_used: false });
+  });
+
+  it("applies the season's default policy", async () => {
+    vi.stubEnv("DECISION_MODE", "rules");
+    vi.setSystemTime(WINTER_MORNING);
+    await setUpGarden(22);
+
+    const { body } = await runAutoWater();
+
+    // Dry by the winter bands (15/25/35%), halfway between its 30 and 40 minute runs
+    expect(body.results[0].aiDecision).toMatchObject({ shouldWater: true, durationMinutes: 35 });
+    expect(body.logs.join("\n")).toContain("Policy: Winter (default)");
+  });
+
+  it("gives the AI the limits of the zone's own policy", async () => {
+    await setUpGarden(18);
+    await createWateringPolicy({
+      zone_id: "front",
+      season: "custom",
+      start_date: "01-01",
+      end_date: "01-31",
+      ...DEFAULT_POLICIES.summer,
+      max_waterings_per_week: 4,
+      max_duration_minutes: 40,
+    });
+    gemini.reply(JSON.stringify({ shouldWater: true, durationMinutes: 50, reason: "RULE 2", confidence: "high" }));
+
+    const { body } = await runAutoWater();
+
+    const prompt = gemini.generateContent.mock.calls[0][0];
+    expect(prompt).toContain("- Active policy: Custom (1 Jan - 31 Jan)");
+    expect(prompt).toContain("Water at most 4 times per week");
+    expect(prompt).toContain("RULE 2 - DURATION: If watering, MUST be between 30-40 minutes.");
+    expect(body.results[0].aiDecision).toMatchObject({ shouldWater: true, durationMinutes: 40, confidence: "low" });
+    const [decision] = await getAiDecisions();
+    expect(decision.validation_error).toContain("durationMinutes must be between 0 and 40");
+    // The rules fallback waters critically dry soil for the policy's longest run
+    expect(await tapStatus()).toEqual({ switch: true, countdown_1: 40 * 60 });
+  });
+
+  it("links the run to a snapshot of the weather it was decided under", async () => {
+    await setUpGarden(15);
+    vi.mocked(fetchWeatherData).mockResolvedValueOnce(HOT_DRY_WEATHER);
+    gemini.reply(JSON.stringify({ shouldWater: true, durationMinutes: 40, reason: "RULE 1", confidence: "high" }));
+
+    const { body } = await runAutoWater();
+
+    expect(body.weatherSnapshotId).toEqual(expect.any(String));
+    const [event] = await getWateringHistory();
+    expect(event.weather_snapshot_id).toBe(body.weatherSnapshotId);
+    expect(event.weather_snapshots).toMatchObject({
+      temperature: 31,
+      weather_description: "Clear sky",
+      rainfall_last_7days: 1.5,
+    });
+  });
+
+  it("gives the AI the zone's water balance", async () => {
+    await setUpGarden(35);
+    vi.mocked(fetchWeatherData).mockResolvedValueOnce(HOT_DRY_WEATHER);
+    gemini.reply(JSON.stringify({ shouldWater: true, durationMinutes: 30, reason: "Balance", confidence: "high" }));
+
+    await runAutoWater();
+
+    // 6 days at 7mm x the default 0.6 coefficient, capped at loam's 55mm
+    const prompt = gemini.generateContent.mock.calls[0][0];
+    expect(prompt).toContain("- Reference evapotranspiration (ET0): 42mm over the last 7 days, 7mm forecast today");
+    expect(prompt).toContain("- Estimated root-zone depletion: 25.2mm of 55mm available (46%)");
+    expect(prompt).toContain("- Stress point: 27.5mm depletion");
+  });
+
+  it.each([
+    { suggested: 10, expected: 30 },
+    { suggested: 45, expected: 45 },
+  ])("clamps a $suggested minute AI suggestion to $expected minutes", async ({ suggested, expected }) => {
+    await setUpGarden(18);
+    gemini.reply(JSON.stringify({ shouldWater: true, durationMinutes: suggested, reason: "RULE 2", confidence: "high" }));
+
+    const { body } = await runAutoWater();
+
+    expect(body.results[0].aiDecision.durationMinutes).toBe(expected);
+    expect(await tapStatus()).toEqual({ switch: true, countdown_1: expected * 60 });
+    const events = await getWateringHistory();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      trigger: "automated",
+      scheduled_end_at: new Date(MORNING.getTime() + expected * 60 * 1000).toISOString(),
+    });
+  });
+});
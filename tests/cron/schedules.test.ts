@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/cron/schedules/route";
+import { setDeviceProvider } from "@/lib/devices";
+import { createDeviceSimulator, type DeviceSimulator } from "@/lib/device-simulator";
+import { createFileRepository } from "@/lib/file-storage";
+import { RESTRICTION_PRESETS } from "@/lib/restrictions";
+import {
+  createRainDelay,
+  createSchedule,
+  createZone,
+  getSchedule,
+  getStorage,
+  saveWaterRestrictions,
+  setStorage,
+  startScheduledWatering,
+  type Schedule,
+} from "@/lib/storage";
+import { fetchWeatherData, type WeatherData } from "@/lib/weather";
+
+vi.mock("@/lib/weather", () => ({ fetchWeatherData: vi.fn(async () => null) }));
+// Cron auth and rate limiting aren't under test here
+vi.mock("@/lib/cron", () => ({ authorizeCronRequest: () => null }));
+
+// 11:05 on Thursday 15 Jan 2026 in Melbourne (AEDT, UTC+11)
+const NOW = new Date("2026-01-15T00:05:00Z");
+
+const RAINY_WEATHER: WeatherData = {
+  current: {
+    temperature: 17,
+    humidity: 90,
+    precipitation: 2,
+    weatherCode: 61,
+    weatherDescription: "Slight rain",
+    windSpeed: 15,
+  },
+  recentRainfall: { last24h: 12, last7days: 30 },
+  upcomingRainfall: { next24h: 6, probability: 85 },
+  forecast: [],
+  evapotranspiration: { today: 2, last7days: 14, daily: [] },
+  wateringRecommendation: { shouldWater: false, reason: "Rain", urgency: "low" },
+};
+
+let simulator: DeviceSimulator;
+let schedule: Schedule;
+
+async function setUpSchedule(overrides: Partial<Schedule> = {}) {
+  simulator = createDeviceSimulator({ zones: 1, initialMoisture: 20 });
+  setDeviceProvider(simulator);
+  await createZone({ id: "front", name: "Front Garden", device_id: "sim-tap-1", sensor_device_id: "sim-soil-1" });
+  schedule = (await createSchedule({
+    zone_id: "front",
+    days_of_week: [4],
+    start_time: "11:00",
+    duration_minutes: 20,
+    ...overrides,
+  }))!;
+}
+
+async function runSchedules() {
+  const response = await GET(new Request("http://localhost/api/cron/schedules"));
+  return { status: response.status, body: await response.json() };
+}
+
+async function tapIsOn() {
+  const { device } = await simulator.getDeviceStatus("sim-tap-1");
+  return device!.status.find((s) => s.code === "switch")?.value === true;
+}
+
+async function lastRunAt() {
+  return (await getSchedule(schedule.id))?.last_run_at ?? null;
+}
+
+describe("cron/schedules", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setStorage(createFileRepository());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setDeviceProvider(null);
+    setStorage(null);
+  });
+
+  it("starts a due schedule once and marks it as run", async () => {
+    await setUpSchedule();
+
+    const first = await runSchedules();
+    expect(first.status).toBe(200);
+    expect(first.body.results[0]).toMatchObject({ success: true, action: "started" });
+    expect(await tapIsOn()).toBe(true);
+    expect(await lastRunAt()).toBe(NOW.toISOString());
+
+    vi.setSystemTime(new Date("2026-01-15T00:10:00Z"));
+    const second = await runSchedules();
+    expect(second.body).toMatchObject({ action: "none", results: [] });
+  });
+
+  it("does nothing on days the schedule doesn't run", async () => {
+    await setUpSchedule({ days_of_week: [5] });
+
+    const { body } = await runSchedules();
+
+    expect(body).toMatchObject({ success: true, action: "none", results: [] });
+    expect(await tapIsOn()).toBe(false);
+  });
+
+  it("skips a zone under a rain delay and marks the schedule as run", async () => {
+    await setUpSchedule();
+    await createRainDelay({ zone_id: "front", ends_at: "2026-01-16T00:00:00Z", reason: null, created_by: "Sam" });
+
+    const { body } = await runSchedules();
+
+    expect(body.results[0]).toMatchObject({ action: "skipped", reason: "Rain delay until Fri, 16 Jan, 11:00 am" });
+    expect(await tapIsOn()).toBe(false);
+    expect(await lastRunAt()).toBe(NOW.toISOString());
+  });
+
+  it("skips for rain only when the schedule asks to", async () => {
+    await setUpSchedule({ skip_if_rain: true });
+    vi.mocked(fetchWeatherData).mockResolvedValueOnce(RAINY_WEATHER);
+
+    const { body } = await runSchedules();
+
+    expect(body.results[0]).toMatchObject({ action: "skipped", reason: "Rain: 12mm of rain in the last 24 hours" });
+    expect(await tapIsOn()).toBe(false);
+    expect(await lastRunAt()).toBe(NOW.toISOString());
+  });
+
+  it("runs in the rain when skip_if_rain is off", async () => {
+    await setUpSchedule({ skip_if_rain: false });
+    vi.mocked(fetchWeatherData).mockResolvedValueOnce(RAINY_WEATHER);
+
+    const { body } = await runSchedules();
+
+    expect(body.results[0].action).toBe("started");
+    expect(await tapIsOn()).toBe(true);
+  });
+
+  it("marks a run refused by the water restrictions as run", async () => {
+    await setUpSchedule();
+    await saveWaterRestrictions({ stage: "stage_4", ...RESTRICTION_PRESETS.stage_4 });
+
+    const { status, body } = await runSchedules();
+
+    expect(status).toBe(200);
+    expect(body.results[0]).toMatchObject({ success: true, action: "skipped" });
+    expect(body.results[0].reason).toContain("Water restrictions (Stage 4)");
+    expect(await tapIsOn()).toBe(false);
+    expect(await lastRunAt()).toBe(NOW.toISOString());
+  });
+
+  it("leaves a busy zone's schedule unmarked so it retries on the next tick", async () => {
+    await setUpSchedule();
+    await startScheduledWatering("front", 30, "manual");
+
+    const { body } = await runSchedules();
+
+    expect(body.results[0]).toMatchObject({ action: "skipped", reason: "Watering already in progress" });
+    expect(await lastRunAt()).toBeNull();
+  });
+
+  it("doesn't water or mark anything when the rain delays can't be read", async () => {
+    await setUpSchedule();
+    vi.spyOn(getStorage(), "getRainDelays").mockRejectedValue(new Error("Failed to fetch rain delays: timeout"));
+
+    const { status, body } = await runSchedules();
+
+    expect(status).toBe(500);
+    expect(body).toMatchObject({ success: false, action: "skipped", results: [] });
+    expect(body.reason).toContain("Couldn't check rain delays");
+    expect(await tapIsOn()).toBe(false);
+    expect(await lastRunAt()).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/cron/sensor-ingest/route";
+import { setDeviceProvider } from "@/lib/devices";
+import { createDeviceSimulator, type DeviceSimulator } from "@/lib/device-simulator";
+import { createFileRepository } from "@/lib/file-storage";
+import { createZone, getSoilReadings, setStorage } from "@/lib/storage";
+
+// Cron auth and rate limiting aren't under test here
+vi.mock("@/lib/cron", () => ({ authorizeCronRequest: () => null }));
+
+const START = new Date("2026-01-15T00:00:00Z");
+const MINUTE = 60 * 1000;
+
+let simulator: DeviceSimulator;
+
+async function runSensorIngest() {
+  const response = await GET(new Request("http://localhost/api/cron/sensor-ingest"));
+  return { status: response.status, body: await response.json() };
+}
+
+describe("cron/sensor-ingest", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setStorage(createFileRepository());
+    simulator = createDeviceSimulator({ zones: 2, initialMoisture: 30 });
+    setDeviceProvider(simulator);
+    await createZone({ id: "front", name: "Front Garden", device_id: "sim-tap-1", sensor_device_id: "sim-soil-1" });
+    await createZone({ id: "back", name: "Back Garden", device_id: "sim-tap-2", sensor_device_id: "sim-soil-2" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setDeviceProvider(null);
+    setStorage(null);
+  });
+
+  it("records moisture, temperature and battery for every sensor-linked zone", async () => {
+    await createZone({ id: "pots", name: "Pots", device_id: "sim-tap-3" });
+
+    const { status, body } = await runSensorIngest();
+
+    expect(status).toBe(200);
+    expect(body.results.map((r: { zoneId: string }) => r.zoneId)).toEqual(["front", "back"]);
+    const [reading] = await getSoilReadings("front");
+    expect(reading).toMatchObject({ moisture_percent: 30, temperature: 18, battery: 100 });
+  });
+
+  it("skips a report identical to the last stored reading", async () => {
+    await runSensorIngest();
+    vi.setSystemTime(new Date(START.getTime() + 15 * MINUTE));
+
+    const { body } = await runSensorIngest();
+
+    expect(body).toMatchObject({ success: true, action: "none" });
+    expect(body.results[0].action).toBe("unchanged");
+    expect(await getSoilReadings("front")).toHaveLength(1);
+  });
+
+  it("records a changed reading and an hourly heartbeat for an unchanged one", async () => {
+    await runSensorIngest();
+    await simulator.sendDeviceCommand("sim-tap-1", [{ code: "switch", value: true }]);
+    vi.setSystemTime(new Date(START.getTime() + 15 * MINUTE));
+    await simulator.sendDeviceCommand("sim-tap-1", [{ code: "switch", value: false }]);
+
+    await runSensorIngest();
+    expect(await getSoilReadings("front")).toHaveLength(2);
+    expect(await getSoilReadings("back")).toHaveLength(1);
+
+    vi.setSystemTime(new Date(START.getTime() + 60 * MINUTE));
+    await runSensorIngest();
+    expect(await getSoilReadings("back")).toHaveLength(2);
+  });
+
+  it("reports an offline sensor and still records the other zones", async () => {
+    setDeviceProvider({
+      ...simulator,
+      getDeviceStatus: async (deviceId) =>
+        deviceId === "sim-soil-1"
+          ? { device: null, error: "2001: device is offline" }
+          : simulator.getDeviceStatus(deviceId),
+    });
+
+    const { status, body } = await runSensorIngest();
+
+    expect(status).toBe(500);
+    expect(body.results[0]).toMatchObject({ action: "error", error: "2001: device is offline" });
+    expect(body.results[1].action).toBe("recorded");
+    expect(await getSoilReadings("back")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/cron/water-check/route";
+import { setDeviceProvider } from "@/lib/devices";
+import { createDeviceSimulator, type DeviceSimulator } from "@/lib/device-simulator";
+import { createFileRepository } from "@/lib/file-storage";
+import { createZone, getWateringHistory, setStorage, startScheduledWatering } from "@/lib/storage";
+
+// Cron auth and rate limiting aren't under test here
+vi.mock("@/lib/cron", () => ({ authorizeCronRequest: () => null }));
+
+const START = new Date("2026-01-15T00:00:00Z");
+const MINUTE = 60 * 1000;
+
+let simulator: DeviceSimulator;
+
+// A 30 minute run that started at START, with the tap turned on the way startWatering does it
+async function startRun(options: { countdown: boolean }) {
+  await simulator.sendDeviceCommand("sim-tap-1", [
+    { code: "switch", value: true },
+    ...(options.countdown ? [{ code: "countdown_1", value: 30 * 60 }] : []),
+  ]);
+  return startScheduledWatering("front", 30, "automated");
+}
+
+async function getEvent(eventId: string | null) {
+  const events = await getWateringHistory();
+  return events.find((event) => event.id === eventId)!;
+}
+
+async function runWaterCheck() {
+  const response = await GET(new Request("http://localhost/api/cron/water-check"));
+  return { status: response.status, body: await response.json() };
+}
+
+async function isTapOn() {
+  const { device } = await simulator.getDeviceStatus("sim-tap-1");
+  return device!.status.find((s) => s.code === "switch")?.value === true;
+}
+
+describe("cron/water-check", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    setStorage(createFileRepository());
+    simulator = createDeviceSimulator({ zones: 1 });
+    setDeviceProvider(simulator);
+    await createZone({ id: "front", name: "Front Garden", device_id: "sim-tap-1", sensor_device_id: "sim-soil-1" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setDeviceProvider(null);
+    setStorage(null);
+  });
+
+  it("does nothing when no watering is active", async () => {
+    const { body } = await runWaterCheck();
+
+    expect(body).toMatchObject({ success: true, action: "none" });
+  });
+
+  it("turns off a tap still running past its scheduled end", async () => {
+    const eventId = await startRun({ countdown: false });
+    vi.setSystemTime(new Date(START.getTime() + 35 * MINUTE));
+
+    const { body } = await runWaterCheck();
+
+    expect(body).toMatchObject({ success: true, action: "stopped", stoppedCount: 1 });
+    expect(await isTapOn()).toBe(false);
+    expect((await getEvent(eventId)).ended_at).toBe(new Date(START.getTime() + 35 * MINUTE).toISOString());
+  });
+
+  it("closes an event at its scheduled end when the tap's countdown already stopped it", async () => {
+    const eventId = await startRun({ countdown: true });
+    vi.setSystemTime(new Date(START.getTime() + 45 * MINUTE));
+
+    const { body } = await runWaterCheck();
+
+    expect(body).toMatchObject({ success: true, action: "closed", closedCount: 1 });
+    const event = await getEvent(eventId);
+    expect(event.ended_at).toBe(event.scheduled_end_at);
+    expect(event.duration_seconds).toBe(30 * 60);
+  });
+
+  it("leaves a run alone until its scheduled end", async () => {
+    const eventId = await startRun({ countdown: false });
+    vi.setSystemTime(new Date(START.getTime() + 10 * MINUTE));
+
+    const { body } = await runWaterCheck();
+
+    expect(body).toMatchObject({ success: true, action: "none", checkedCount: 1 });
+    expect(await isTapOn()).toBe(true);
+    expect((await getEvent(eventId)).ended_at).toBeUndefined();
+  });
+
+  it("sends the off command for an overdue event even when the tap's status can't be read", async () => {
+    const eventId = await startRun({ countdown: false });
+    setDeviceProvider({
+      ...simulator,
+      getDeviceStatus: async () => ({ device: null, error: "2001: device is offline" }),
+    });
+    vi.setSystemTime(new Date(START.getTime() + 40 * MINUTE));
+
+    const { body } = await runWaterCheck();
+
+    expect(body).toMatchObject({ action: "stopped", stoppedCount: 1 });
+    expect(await isTapOn()).toBe(false);
+    expect((await getEvent(eventId)).ended_at).toBeDefined();
+  });
+
+  it("reports events whose zone no longer exists", async () => {
+    const eventId = await startScheduledWatering("removed", 30, "automated");
+
+    const { body } = await runWaterCheck();
+
+    expect(body.success).toBe(false);
+    expect(body.errors[0]).toContain("No zone configured");
+    expect((await getEvent(eventId)).ended_at).toBeUndefined();
+  });
+});
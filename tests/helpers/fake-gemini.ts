@@ -0,0 +1,41 @@
+import { vi } from "vitest";
+
+// Stand-in for @google/generative-ai. Test files swap it in with
+// vi.mock("@google/generative-ai", () => import("./helpers/fake-gemini")),
+// then script each model reply with gemini.reply() or gemini.fail(), or a single
+// call's reply with gemini.replyOnce().
+
+const generateContent = vi.fn<(prompt: string) => Promise<{ response: { text: () => string } }>>();
+
+export const gemini = {
+  generateContent,
+  reply(text: string) {
+    generateContent.mockResolvedValue({ response: { text: () => text } });
+  },
+  replyOnce(text: string) {
+    generateContent.mockResolvedValueOnce({ response: { text: () => text } });
+  },
+  fail(error: Error) {
+    generateContent.mockRejectedValue(error);
+  },
+  reset() {
+    generateContent.mockReset();
+  },
+};
+
+export enum SchemaType {
+  STRING = "string",
+  NUMBER = "number",
+  INTEGER = "integer",
+  BOOLEAN = "boolean",
+  ARRAY = "array",
+  OBJECT = "object",
+}
+
+export class GoogleGenerativeAI {
+  constructor(public apiKey: string) {}
+
+  getGenerativeModel() {
+    return { generateContent: (prompt: string) => generateContent(prompt) };
+  }
+}
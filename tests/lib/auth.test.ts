@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BOOTSTRAP_OWNER,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  createSessionToken,
+  getSessionUser,
+  type SessionUser,
+} from "@/lib/auth";
+import { createFileRepository } from "@/lib/file-storage";
+import { createUser, deleteUser, setStorage, updateUser } from "@/lib/storage";
+
+function requestWith(user: SessionUser) {
+  const token = createSessionToken(user, SESSION_MAX_AGE_SECONDS);
+  return { cookies: { get: (name: string) => (name === SESSION_COOKIE ? { value: token } : undefined) } };
+}
+
+describe("getSessionUser", () => {
+  beforeEach(() => {
+    vi.stubEnv("SESSION_SECRET", "test-secret");
+    setStorage(createFileRepository());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setStorage(null);
+  });
+
+  async function addUser(name: string, role: SessionUser["role"]): Promise<SessionUser> {
+    const user = await createUser({ name, role, pin_hash: "scrypt:00:00" });
+    return { id: user!.id, name: user!.name, role: user!.role };
+  }
+
+  it("accepts a session while the user exists with the same role", async () => {
+    const sam = await addUser("Sam", "gardener");
+    expect(await getSessionUser(requestWith(sam))).toEqual(sam);
+  });
+
+  it("rejects a deleted user's session", async () => {
+    await addUser("Alex", "owner");
+    const sam = await addUser("Sam", "owner");
+    await deleteUser(sam.id);
+
+    expect(await getSessionUser(requestWith(sam))).toBeNull();
+  });
+
+  it("rejects a session after the user's role changes", async () => {
+    const sam = await addUser("Sam", "owner");
+    await updateUser(sam.id, { role: "viewer" });
+
+    expect(await getSessionUser(requestWith(sam))).toBeNull();
+  });
+
+  it("ends the bootstrap owner's sessions once a household user exists", async () => {
+    expect(await getSessionUser(requestWith(BOOTSTRAP_OWNER))).toEqual(BOOTSTRAP_OWNER);
+
+    await addUser("Sam", "owner");
+    expect(await getSessionUser(requestWith(BOOTSTRAP_OWNER))).toBeNull();
+  });
+
+  it("rejects a tampered token", async () => {
+    const sam = await addUser("Sam", "viewer");
+    const request = requestWith(sam);
+    const [, signature] = request.cookies.get(SESSION_COOKIE)!.value.split(".");
+    const forged = Buffer.from(JSON.stringify({ ...sam, role: "owner", exp: Date.now() + 60000 })).toString("base64url");
+
+    expect(
+      await getSessionUser({ cookies: { get: () => ({ value: `${forged}.${signature}` }) } })
+    ).toBeNull();
+  });
+});
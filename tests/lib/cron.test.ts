@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { authorizeCronRequest, clearCronRuns } from "@/lib/cron";
+
+const SECRET = "cron-test-secret";
+
+function cronRequest(authorization?: string) {
+  return new Request("http://localhost/api/cron/auto-water", {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+describe("authorizeCronRequest", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-15T00:00:00Z"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    clearCronRuns();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("refuses every request when CRON_SECRET is unset", async () => {
+    vi.stubEnv("CRON_SECRET", "");
+
+    const denied = authorizeCronRequest(cronRequest(`Bearer ${SECRET}`), "auto-water");
+
+    expect(denied?.status).toBe(503);
+    expect(await denied?.json()).toEqual({ error: "Cron not configured" });
+  });
+
+  it("refuses a missing or wrong bearer token", () => {
+    vi.stubEnv("CRON_SECRET", SECRET);
+
+    expect(authorizeCronRequest(cronRequest(), "auto-water")?.status).toBe(401);
+    expect(authorizeCronRequest(cronRequest("Bearer wrong-secret"), "auto-water")?.status).toBe(401);
+    expect(authorizeCronRequest(cronRequest(SECRET), "auto-water")?.status).toBe(401);
+    expect(authorizeCronRequest(cronRequest(`Bearer ${SECRET}`), "auto-water")).toBeNull();
+  });
+
+  it("lets CRON_DEV_MODE run without a secret outside production only", () => {
+    vi.stubEnv("CRON_SECRET", "");
+    vi.stubEnv("CRON_DEV_MODE", "true");
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(authorizeCronRequest(cronRequest(), "water-check")?.status).toBe(503);
+
+    vi.stubEnv("NODE_ENV", "development");
+    expect(authorizeCronRequest(cronRequest(), "water-check")).toBeNull();
+  });
+
+  it("rate limits each job separately until its interval has passed", () => {
+    vi.stubEnv("CRON_SECRET", SECRET);
+    const authorize = (job: "auto-water" | "schedules") => authorizeCronRequest(cronRequest(`Bearer ${SECRET}`), job);
+
+    expect(authorize("auto-water")).toBeNull();
+    expect(authorize("schedules")).toBeNull();
+
+    vi.setSystemTime(new Date("2026-01-15T00:09:00Z"));
+    const limited = authorize("auto-water");
+    expect(limited?.status).toBe(429);
+    expect(limited?.headers.get("Retry-After")).toBe("60");
+    expect(authorize("schedules")).toBeNull();
+
+    vi.setSystemTime(new Date("2026-01-15T00:10:00Z"));
+    expect(authorize("auto-water")).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  getDeviceStatus,
+  isDeviceOn,
+  parseSoilSensorStatus,
+  setDeviceProvider,
+  turnOffDevice,
+  turnOnDeviceFor,
+  type DeviceProvider,
+  type DeviceStatusValue,
+} from "@/lib/devices";
+
+// A multi-outlet valve that only has switch_1 (no plain "switch" DP)
+function createSwitch1Tap() {
+  const status = new Map<string, DeviceStatusValue>([
+    ["switch_1", false],
+    ["countdown_1", 0],
+  ]);
+  const sent: string[] = [];
+
+  const provider: DeviceProvider = {
+    name: "fake",
+    async getDeviceStatus(deviceId) {
+      return {
+        device: {
+          id: deviceId,
+          name: "Valve",
+          online: true,
+          status: [...status].map(([code, value]) => ({ code, value })),
+        },
+      };
+    },
+    async sendDeviceCommand(_deviceId, commands) {
+      for (const command of commands) {
+        if (!status.has(command.code)) {
+          return { success: false, error: `Unknown DP ${command.code}` };
+        }
+        status.set(command.code, command.value);
+        sent.push(command.code);
+      }
+      return { success: true };
+    },
+    async listDevices() {
+      return { devices: [] };
+    },
+  };
+
+  return { provider, status, sent };
+}
+
+describe("switch_1 taps", () => {
+  let tap: ReturnType<typeof createSwitch1Tap>;
+
+  beforeEach(() => {
+    tap = createSwitch1Tap();
+    setDeviceProvider(tap.provider);
+  });
+
+  afterEach(() => {
+    setDeviceProvider(null);
+  });
+
+  it("turns the tap on and off with its switch_1 DP", async () => {
+    const on = await turnOnDeviceFor("valve", 10);
+    expect(on).toEqual({ success: true, countdownSet: true });
+    expect(tap.status.get("switch_1")).toBe(true);
+    expect(tap.status.get("countdown_1")).toBe(600);
+
+    const { device } = await getDeviceStatus("valve");
+    expect(isDeviceOn(device!)).toBe(true);
+
+    expect(await turnOffDevice("valve")).toEqual({ success: true });
+    expect(tap.status.get("switch_1")).toBe(false);
+    expect(tap.sent).not.toContain("switch");
+  });
+
+  it("looks up the switch DP before turning off a tap it hasn't seen yet", async () => {
+    tap.status.set("switch_1", true);
+
+    expect(await turnOffDevice("valve")).toEqual({ success: true });
+    expect(tap.status.get("switch_1")).toBe(false);
+  });
+});
+
+describe("parseSoilSensorStatus", () => {
+  const sensor = (status: Array<{ code: string; value: DeviceStatusValue }>) => ({
+    id: "soil",
+    name: "Soil sensor",
+    online: true,
+    status,
+  });
+
+  it("reads a percentage battery", () => {
+    const reading = parseSoilSensorStatus(
+      sensor([
+        { code: "humidity", value: 42 },
+        { code: "temp_current", value: 215 },
+        { code: "battery_percentage", value: 80 },
+      ])
+    );
+    expect(reading).toEqual({ moisture: 42, temperature: 21.5, battery: 80 });
+  });
+
+  it("maps a battery_state enum to a rough level instead of NaN", () => {
+    expect(parseSoilSensorStatus(sensor([{ code: "battery_state", value: "low" }])).battery).toBe(10);
+    expect(parseSoilSensorStatus(sensor([{ code: "battery_state", value: "middle" }])).battery).toBe(50);
+    expect(parseSoilSensorStatus(sensor([{ code: "battery_state", value: "high" }])).battery).toBe(100);
+    expect(parseSoilSensorStatus(sensor([{ code: "battery_state", value: "charging" }])).battery).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { analyzeWateringEffectiveness, summarizeEffectivenessByZone } from "@/lib/effectiveness";
+import type { SoilReading, WateringEvent } from "@/lib/storage";
+
+// Minutes after 06:00 UTC on 15 Jan 2026
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 15, 6, minutes)).toISOString();
+
+function run(id: string, startMinute: number, endMinute?: number): WateringEvent {
+  return {
+    id,
+    zone_id: "front",
+    started_at: at(startMinute),
+    ended_at: endMinute !== undefined ? at(endMinute) : undefined,
+    duration_seconds: endMinute !== undefined ? (endMinute - startMinute) * 60 : undefined,
+    trigger: "automated",
+    created_at: at(startMinute),
+  };
+}
+
+function readings(...points: Array<[number, number]>): SoilReading[] {
+  return points.map(([minute, moisture]) => ({
+    id: String(minute),
+    zone_id: "front",
+    moisture_percent: moisture,
+    captured_at: at(minute),
+  }));
+}
+
+describe("analyzeWateringEffectiveness", () => {
+  it("measures gain, time to peak and drying rate around a run", () => {
+    const result = analyzeWateringEffectiveness(
+      run("a", 0, 30),
+      readings([-200, 10], [-15, 22], [15, 30], [45, 41], [75, 38], [45 + 6 * 60, 35])
+    );
+
+    expect(result).toEqual({
+      status: "analysed",
+      baselineMoisture: 22,
+      peakMoisture: 41,
+      moistureGain: 19,
+      timeToPeakMinutes: 45,
+      decayPerDay: 24,
+    });
+  });
+
+  it("leaves the drying rate out until there's a long enough trend", () => {
+    const result = analyzeWateringEffectiveness(run("a", 0, 30), readings([-15, 22], [45, 41], [90, 40]));
+
+    expect(result.moistureGain).toBe(19);
+    expect(result.decayPerDay).toBeNull();
+  });
+
+  it("doesn't credit the next run's water to this one", () => {
+    const result = analyzeWateringEffectiveness(
+      run("a", 0, 30),
+      readings([-15, 22], [45, 30], [125, 50]),
+      at(120)
+    );
+
+    expect(result.peakMoisture).toBe(30);
+  });
+
+  it("reports runs without readings before and after it", () => {
+    expect(analyzeWateringEffectiveness(run("a", 0, 30), readings([45, 41])).status).toBe("no_readings");
+    expect(analyzeWateringEffectiveness(run("a", 0, 30), readings([-15, 22]))).toMatchObject({
+      status: "no_readings",
+      baselineMoisture: 22,
+    });
+    expect(analyzeWateringEffectiveness(run("a", 0), readings([-15, 22], [20, 30])).status).toBe("in_progress");
+  });
+});
+
+describe("summarizeEffectivenessByZone", () => {
+  it("averages analysed runs per zone", () => {
+    const events = [run("a", 0, 30), run("b", 600, 660), run("c", 1200)];
+    const base = { status: "analysed" as const, baselineMoisture: 20, peakMoisture: 40, decayPerDay: null };
+
+    const summary = summarizeEffectivenessByZone(events, {
+      a: { ...base, moistureGain: 15, timeToPeakMinutes: 40 },
+      b: { ...base, moistureGain: 24, timeToPeakMinutes: 80 },
+      c: { ...base, status: "in_progress", moistureGain: null, timeToPeakMinutes: null },
+    });
+
+    expect(summary).toEqual({
+      front: {
+        runs: 2,
+        averageGain: 19.5,
+        averageGainPerMinute: 0.45,
+        averageTimeToPeakMinutes: 60,
+        averageDecayPerDay: null,
+      },
+    });
+  });
+});
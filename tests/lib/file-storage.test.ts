@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFileRepository } from "@/lib/file-storage";
+
+describe("file storage", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "garden-storage-"));
+    file = path.join(dir, "data", "garden.json");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps zones and watering history across restarts", async () => {
+    const first = createFileRepository(file);
+    await first.createZone({ id: "front", name: "Front Garden", device_id: "tap-1" });
+    const eventId = await first.startScheduledWatering("front", 30, "manual", "Sam");
+
+    const second = createFileRepository(file);
+    expect(await second.getZone("front")).toMatchObject({ name: "Front Garden" });
+    expect(await second.hasActiveWatering("front")).toBe(true);
+
+    await second.logWateringEnd(eventId!, new Date(Date.now() + 20 * 60 * 1000).toISOString());
+
+    const [event] = await createFileRepository(file).getWateringHistory(10);
+    expect(event).toMatchObject({ actor: "Sam", duration_seconds: 20 * 60, zones: { name: "Front Garden" } });
+  });
+
+  it("sees another process's changes and keeps them when writing its own", async () => {
+    // e.g. the proxy bundle and the API routes, each with their own copy
+    const proxy = createFileRepository(file);
+    const api = createFileRepository(file);
+    expect(await proxy.getUsers()).toEqual([]);
+
+    const sam = await api.createUser({ name: "Sam", role: "owner", pin_hash: "scrypt:a:b" });
+    expect(await proxy.getUser(sam!.id)).toMatchObject({ name: "Sam" });
+
+    await proxy.createZone({ id: "front", name: "Front Garden", device_id: "tap-1" });
+    await api.createZone({ id: "back", name: "Back Garden", device_id: "tap-2" });
+
+    const reopened = createFileRepository(file);
+    expect((await reopened.getZones()).map((zone) => zone.id)).toEqual(["front", "back"]);
+    expect(await reopened.getUsers()).toHaveLength(1);
+  });
+
+  it("closes runs whose scheduled end passed before the cutoff at that end", async () => {
+    const repository = createFileRepository(file);
+    const eventId = await repository.startScheduledWatering("front", 30, "automated", null);
+
+    expect(await repository.closeWateringEventsEndedBefore(new Date().toISOString())).toBe(0);
+    expect(await repository.closeWateringEventsEndedBefore(new Date(Date.now() + 60 * 60 * 1000).toISOString())).toBe(1);
+
+    const [event] = await repository.getWateringHistory(1);
+    expect(event.id).toBe(eventId);
+    expect(event.ended_at).toBe(event.scheduled_end_at);
+  });
+
+  it("returns runs that overlap a time range, including open ones", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const repository = createFileRepository();
+    const at = (hour: number) => new Date(Date.UTC(2026, 0, 15, hour)).toISOString();
+
+    vi.setSystemTime(new Date(at(1)));
+    const before = await repository.startScheduledWatering("front", 30, "automated", null);
+    await repository.logWateringEnd(before!, at(2));
+    vi.setSystemTime(new Date(at(5)));
+    const spanning = await repository.startScheduledWatering("front", 30, "automated", null);
+    await repository.logWateringEnd(spanning!, at(7));
+    vi.setSystemTime(new Date(at(8)));
+    const open = await repository.startScheduledWatering("front", 30, "manual", null);
+    await repository.startScheduledWatering("back", 30, "manual", null);
+
+    const events = await repository.getWateringEventsBetween(at(6), at(9), "front");
+    expect(events.map((event) => event.id)).toEqual([spanning, open]);
+  });
+
+  it("refuses to start over when the file is corrupt", async () => {
+    const corrupt = path.join(dir, "corrupt.json");
+    writeFileSync(corrupt, "{ not json");
+
+    await expect(createFileRepository(corrupt).getZones()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { describePlantProfile, formatPlantAge, getEstablishmentStage, getWaterNeeds } from "@/lib/plants";
+import type { Zone } from "@/lib/storage";
+import { parseZoneInput } from "@/lib/zones";
+
+const NOW = new Date("2026-06-15T00:00:00Z");
+
+function zone(overrides: Partial<Zone>): Zone {
+  return { id: "front", device_id: "tap-1", name: "Front Hedges", created_at: "2025-12-01T00:00:00Z", ...overrides };
+}
+
+describe("getEstablishmentStage", () => {
+  it.each([
+    { plant_date: "2026-06-01", plant_preset: "leighton-green", expected: "newly_planted" },
+    { plant_date: "2025-12-13", plant_preset: "leighton-green", expected: "establishing" },
+    { plant_date: "2025-12-13", plant_preset: "kikuyu", expected: "established" },
+    { plant_date: "2025-03-01", plant_preset: null, expected: "established" },
+    { plant_date: null, plant_preset: "kikuyu", expected: null },
+  ])("puts a $plant_preset planted $plant_date at $expected", ({ expected, ...profile }) => {
+    expect(getEstablishmentStage(profile, NOW)).toBe(expected);
+  });
+});
+
+describe("getWaterNeeds", () => {
+  it("prefers the zone's own water needs over its preset's", () => {
+    expect(getWaterNeeds({ plant_preset: "citrus" })).toBe("high");
+    expect(getWaterNeeds({ plant_preset: "citrus", water_needs: "medium" })).toBe("medium");
+    expect(getWaterNeeds({ plant_preset: null })).toBeNull();
+  });
+});
+
+describe("formatPlantAge", () => {
+  it.each([
+    [1, "1 day"],
+    [20, "3 weeks"],
+    [184, "6 months"],
+    [800, "2 years"],
+  ])("formats %i days as %s", (days, expected) => {
+    expect(formatPlantAge(days)).toBe(expected);
+  });
+});
+
+describe("describePlantProfile", () => {
+  it("describes a preset plant from its planting date", () => {
+    const lines = describePlantProfile(
+      zone({
+        plant_type: "Leighton Green",
+        plant_date: "2025-12-13",
+        plant_preset: "leighton-green",
+        soil_type: "clay_loam",
+        sun_exposure: "full_sun",
+      }),
+      NOW
+    );
+
+    expect(lines).toEqual([
+      "Plant: Leighton Green (Cupressocyparis leylandii)",
+      "Planted: 13/12/2025 (6 months ago)",
+      "Establishment stage: Establishing",
+      "Water needs: Medium",
+      "Soil: Clay loam",
+      "Sun: Full sun",
+      expect.stringMatching(/^Care notes: Fast-growing evergreen/),
+    ]);
+  });
+
+  it("leaves out what isn't known about a custom plant", () => {
+    expect(describePlantProfile(zone({ plant_type: "Roses" }), NOW)).toEqual(["Plant: Roses", "Planted: Unknown"]);
+  });
+});
+
+describe("parseZoneInput plant profile", () => {
+  it("accepts known presets and choices", () => {
+    expect(
+      parseZoneInput({ plant_preset: "lomandra", water_needs: "low", soil_type: "sand", sun_exposure: "" }, true)
+    ).toEqual({ value: { plant_preset: "lomandra", water_needs: "low", soil_type: "sand", sun_exposure: null } });
+  });
+
+  it.each([
+    [{ plant_preset: "bamboo" }, "plant_preset must be one of"],
+    [{ water_needs: "lots" }, "water_needs must be one of low, medium, high"],
+    [{ sun_exposure: 5 }, "sun_exposure must be a string"],
+  ])("rejects %o", (body, error) => {
+    expect(parseZoneInput(body, true).error).toContain(error);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_POLICIES, getActivePolicy, getSeason, parseWateringPolicyInput } from "@/lib/policies";
+import type { WateringPolicy } from "@/lib/storage";
+
+// Midday in Melbourne on the given date
+const on = (date: string) => new Date(`${date}T02:00:00Z`);
+
+function policy(overrides: Partial<WateringPolicy>): WateringPolicy {
+  return {
+    id: "policy-1",
+    zone_id: "front",
+    season: "summer",
+    start_date: null,
+    end_date: null,
+    ...DEFAULT_POLICIES.summer,
+    created_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const validBody = {
+  zone_id: "front",
+  season: "winter",
+  ...DEFAULT_POLICIES.winter,
+};
+
+describe("getSeason", () => {
+  it.each([
+    ["2026-01-15", "summer"],
+    ["2026-03-01", "autumn"],
+    ["2026-06-30", "winter"],
+    ["2026-11-30", "spring"],
+    ["2026-12-01", "summer"],
+  ])("puts %s in %s", (date, season) => {
+    expect(getSeason(on(date))).toBe(season);
+  });
+
+  it("goes by the Melbourne calendar", () => {
+    // 31 Aug 15:00 UTC is already 1 Sep in Melbourne
+    expect(getSeason(new Date("2026-08-31T15:00:00Z"))).toBe("spring");
+  });
+});
+
+describe("getActivePolicy", () => {
+  it("falls back to the built-in default for the season", () => {
+    expect(getActivePolicy([], on("2026-07-10"))).toEqual({
+      ...DEFAULT_POLICIES.winter,
+      season: "winter",
+      policyId: null,
+      label: "Winter (default)",
+    });
+  });
+
+  it("uses the zone's own policy for the season", () => {
+    const winter = policy({ id: "w", season: "winter", max_waterings_per_week: 0 });
+    expect(getActivePolicy([policy({}), winter], on("2026-07-10"))).toMatchObject({
+      policyId: "w",
+      label: "Winter",
+      max_waterings_per_week: 0,
+    });
+  });
+
+  it("prefers a custom range covering today, including ranges that wrap the new year", () => {
+    const heatwave = policy({ id: "c", season: "custom", start_date: "12-20", end_date: "01-10", max_duration_minutes: 90 });
+    expect(getActivePolicy([policy({}), heatwave], on("2026-01-05"))).toMatchObject({
+      policyId: "c",
+      season: "custom",
+      label: "Custom (20 Dec - 10 Jan)",
+      max_duration_minutes: 90,
+    });
+    expect(getActivePolicy([policy({}), heatwave], on("2026-01-11")).policyId).toBe("policy-1");
+  });
+});
+
+describe("parseWateringPolicyInput", () => {
+  it("accepts a complete policy", () => {
+    expect(parseWateringPolicyInput(validBody, false)).toEqual({
+      value: { ...validBody, start_date: null, end_date: null },
+    });
+  });
+
+  it("clears dates for a named season", () => {
+    expect(parseWateringPolicyInput({ season: "autumn", start_date: "03-01" }, true).value).toEqual({
+      season: "autumn",
+      start_date: null,
+      end_date: null,
+    });
+  });
+
+  it.each([
+    [{ season: "monsoon" }, "season must be one of summer, autumn, winter, spring, custom"],
+    [{ season: "custom" }, "start_date and end_date are required"],
+    [{ season: "custom", start_date: "02-30", end_date: "03-10" }, "start_date must be a date in MM-DD format"],
+    [{ max_waterings_per_week: 8 }, "max_waterings_per_week must be a whole number from 0 to 7"],
+    [{ min_duration_minutes: 50, max_duration_minutes: 40 }, "can't be more than max_duration_minutes"],
+    [{ dry_moisture: 40, adequate_moisture: 40 }, "Moisture thresholds must rise"],
+    [{ zone_id: undefined }, "zone_id is required"],
+  ])("rejects %o", (changes, error) => {
+    expect(parseWateringPolicyInput({ ...validBody, ...changes }, false).error).toContain(error);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { describeRainDelay, getRainDelayFor, parseRainDelayInput } from "@/lib/rain-delay";
+import type { RainDelay } from "@/lib/storage";
+
+// 11:00 on 15 Jan 2026 in Melbourne (AEDT, UTC+11)
+const NOW = new Date("2026-01-15T00:00:00Z");
+
+function delay(overrides: Partial<RainDelay>): RainDelay {
+  return {
+    id: "delay-1",
+    zone_id: null,
+    ends_at: "2026-01-18T03:30:00Z",
+    reason: null,
+    created_by: "Sam",
+    created_at: "2026-01-15T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("getRainDelayFor", () => {
+  it("applies a delay for every zone to each zone", () => {
+    const all = delay({});
+    expect(getRainDelayFor([all], "front", NOW)).toBe(all);
+    expect(getRainDelayFor([all], null, NOW)).toBe(all);
+  });
+
+  it("applies a zone's delay to that zone only", () => {
+    const back = delay({ zone_id: "back" });
+    expect(getRainDelayFor([back], "back", NOW)).toBe(back);
+    expect(getRainDelayFor([back], "front", NOW)).toBeNull();
+    expect(getRainDelayFor([back], null, NOW)).toBeNull();
+  });
+
+  it("ignores delays that have ended and prefers the one ending last", () => {
+    const ended = delay({ id: "ended", ends_at: "2026-01-14T23:00:00Z" });
+    const short = delay({ id: "short", ends_at: "2026-01-16T00:00:00Z" });
+    const long = delay({ id: "long", zone_id: "front", ends_at: "2026-01-20T00:00:00Z" });
+    expect(getRainDelayFor([ended], "front", NOW)).toBeNull();
+    expect(getRainDelayFor([short, long, ended], "front", NOW)?.id).toBe("long");
+  });
+});
+
+describe("describeRainDelay", () => {
+  it("gives the end in Melbourne time and the reason", () => {
+    expect(describeRainDelay(delay({ reason: "Storm" }))).toBe("Rain delay until Sun, 18 Jan, 2:30 pm (Storm)");
+  });
+});
+
+describe("parseRainDelayInput", () => {
+  it("accepts a delay for every zone", () => {
+    expect(parseRainDelayInput({ days: 3, reason: "  Storm " })).toEqual({
+      value: { zone_id: null, days: 3, reason: "Storm" },
+    });
+  });
+
+  it.each([
+    [{ days: 0 }, "days must be a whole number from 1 to 14"],
+    [{ days: 1.5 }, "days must be a whole number from 1 to 14"],
+    [{ days: 2, zone_id: "" }, "zone_id must be a zone ID"],
+    [{ days: 2, reason: 5 }, "reason must be text"],
+  ])("rejects %o", (body, error) => {
+    expect(parseRainDelayInput(body).error).toContain(error);
+  });
+});
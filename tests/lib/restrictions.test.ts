@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RESTRICTIONS,
+  RESTRICTION_PRESETS,
+  getRestrictionViolation,
+  parseWaterRestrictionsInput,
+} from "@/lib/restrictions";
+import type { WaterRestrictionsInput } from "@/lib/storage";
+
+// Melbourne time on Thursday 15 Jan 2026 (AEDT, UTC+11)
+const at = (time: string) => new Date(`2026-01-15T${time}:00+11:00`);
+
+const stage = (name: WaterRestrictionsInput["stage"]): WaterRestrictionsInput => ({
+  stage: name,
+  ...RESTRICTION_PRESETS[name],
+});
+
+describe("getRestrictionViolation", () => {
+  it("allows any time by default, including runs past midnight", () => {
+    expect(getRestrictionViolation(DEFAULT_RESTRICTIONS, at("06:00"), 30)).toBeNull();
+    expect(getRestrictionViolation(DEFAULT_RESTRICTIONS, at("23:30"), 60)).toBeNull();
+    expect(getRestrictionViolation(DEFAULT_RESTRICTIONS, at("03:00"), 120)).toBeNull();
+  });
+
+  it("refuses a run that would finish after the window closes", () => {
+    const evenings = { ...DEFAULT_RESTRICTIONS, allowed_windows: [{ start: "06:00", end: "22:00" }] };
+    expect(getRestrictionViolation(evenings, at("21:30"), 60)).toBe(
+      "Water restrictions (No restrictions): a 60 minute run from 21:30 is outside the allowed times (06:00-22:00)"
+    );
+    expect(getRestrictionViolation(evenings, at("23:30"), 0)).toContain("23:30 is outside the allowed times");
+  });
+
+  it("handles windows that run past midnight", () => {
+    const permanent = stage("permanent");
+    expect(getRestrictionViolation(permanent, at("19:00"), 60)).toBeNull();
+    expect(getRestrictionViolation(permanent, at("02:00"), 60)).toBeNull();
+    expect(getRestrictionViolation(permanent, at("09:30"), 60)).toContain("outside the allowed times (18:00-10:00)");
+    expect(getRestrictionViolation(permanent, at("12:00"), 0)).not.toBeNull();
+  });
+
+  it("checks odd/even dates and allowed days", () => {
+    // The 15th is odd
+    expect(getRestrictionViolation(stage("stage_1"), at("21:00"), 30)).toBeNull();
+    expect(getRestrictionViolation({ ...stage("stage_1"), odd_even: "even" }, at("21:00"), 30)).toContain(
+      "watering on even-numbered dates only"
+    );
+    expect(getRestrictionViolation(stage("stage_3"), at("06:30"), 30)).toBe(
+      "Water restrictions (Stage 3): no watering on Thursdays"
+    );
+  });
+
+  it("counts what the zone has already run against the daily limit", () => {
+    const stage2 = stage("stage_2");
+    expect(getRestrictionViolation(stage2, at("06:00"), 40, 20)).toBeNull();
+    expect(getRestrictionViolation(stage2, at("06:00"), 45, 20)).toContain(
+      "the zone has 40 of its 60 minutes left today"
+    );
+  });
+
+  it("allows no watering at all under Stage 4", () => {
+    expect(getRestrictionViolation(stage("stage_4"), at("12:00"), 10)).toBe(
+      "Water restrictions (Stage 4): watering systems may not be used"
+    );
+  });
+});
+
+describe("parseWaterRestrictionsInput", () => {
+  it("accepts a complete ruleset", () => {
+    const body = { ...stage("stage_3"), allowed_days: [6, 3, 3] };
+    expect(parseWaterRestrictionsInput(body)).toEqual({ value: stage("stage_3") });
+  });
+
+  it.each([
+    [{ stage: "stage_5" }, "stage must be one of none, permanent, stage_1"],
+    [{ allowed_windows: [{ start: "6:00", end: "08:00" }] }, "allowed_windows must be a list"],
+    [{ allowed_days: [] }, "allowed_days must be a non-empty list"],
+    [{ allowed_days: [7] }, "allowed_days must be a non-empty list"],
+    [{ odd_even: "weekends" }, "odd_even must be odd, even or null"],
+    [{ max_minutes_per_day: 0 }, "max_minutes_per_day must be a whole number from 1 to 1440"],
+  ])("rejects %o", (changes, error) => {
+    expect(parseWaterRestrictionsInput({ ...DEFAULT_RESTRICTIONS, ...changes }).error).toContain(error);
+  });
+});
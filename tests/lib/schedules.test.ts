@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { getRainSkipReason, isScheduleDue, parseScheduleInput } from "@/lib/schedules";
+import type { Schedule } from "@/lib/storage";
+import { getMelbourneTime } from "@/lib/time";
+import type { WeatherData } from "@/lib/weather";
+
+// Thursday 15 Jan 2026 in Melbourne (AEDT, UTC+11)
+const at = (iso: string) => getMelbourneTime(new Date(iso));
+
+function schedule(overrides: Partial<Schedule>): Schedule {
+  return {
+    id: "schedule-1",
+    zone_id: "front",
+    days_of_week: [4],
+    start_time: "11:00",
+    duration_minutes: 20,
+    enabled: true,
+    skip_if_rain: false,
+    last_run_at: null,
+    created_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function weather(last24h: number, next24h: number, probability: number): WeatherData {
+  return {
+    current: { temperature: 20, humidity: 60, precipitation: 0, weatherCode: 0, weatherDescription: "Clear sky", windSpeed: 10 },
+    recentRainfall: { last24h, last7days: last24h },
+    upcomingRainfall: { next24h, probability },
+    forecast: [],
+    evapotranspiration: { today: 4, last7days: 28, daily: [] },
+    wateringRecommendation: { shouldWater: false, reason: "", urgency: "low" },
+  };
+}
+
+describe("isScheduleDue", () => {
+  it("is due from the start time until the window closes", () => {
+    const thursday11 = schedule({});
+    expect(isScheduleDue(thursday11, at("2026-01-14T23:59:00Z"))).toBe(false);
+    expect(isScheduleDue(thursday11, at("2026-01-15T00:00:00Z"))).toBe(true);
+    expect(isScheduleDue(thursday11, at("2026-01-15T00:14:00Z"))).toBe(true);
+    expect(isScheduleDue(thursday11, at("2026-01-15T00:15:00Z"))).toBe(false);
+  });
+
+  it("uses the Melbourne day of the week, not the UTC one", () => {
+    // 00:10 Friday in Melbourne is still Thursday in UTC
+    const friday = schedule({ days_of_week: [5], start_time: "00:05" });
+    expect(isScheduleDue(friday, at("2026-01-15T13:10:00Z"))).toBe(true);
+    expect(isScheduleDue(schedule({ start_time: "00:05" }), at("2026-01-15T13:10:00Z"))).toBe(false);
+  });
+
+  it("runs once per Melbourne day", () => {
+    const now = at("2026-01-15T13:10:00Z");
+    const friday = schedule({ days_of_week: [5], start_time: "00:05" });
+    // Earlier the same UTC day, but Thursday in Melbourne
+    expect(isScheduleDue({ ...friday, last_run_at: "2026-01-15T00:00:00Z" }, now)).toBe(true);
+    expect(isScheduleDue({ ...friday, last_run_at: "2026-01-15T13:05:00Z" }, now)).toBe(false);
+  });
+
+  it("is never due while disabled", () => {
+    expect(isScheduleDue(schedule({ enabled: false }), at("2026-01-15T00:00:00Z"))).toBe(false);
+  });
+});
+
+describe("getRainSkipReason", () => {
+  it("skips after recent rain or when heavy rain is likely", () => {
+    expect(getRainSkipReason(weather(6, 0, 0))).toBe("6mm of rain in the last 24 hours");
+    expect(getRainSkipReason(weather(0, 8, 80))).toBe("8mm of rain forecast in the next 24 hours (80% chance)");
+  });
+
+  it("runs when rain is light, unlikely or unknown", () => {
+    expect(getRainSkipReason(weather(2, 8, 40))).toBeNull();
+    expect(getRainSkipReason(weather(0, 3, 90))).toBeNull();
+    expect(getRainSkipReason(null)).toBeNull();
+  });
+});
+
+describe("parseScheduleInput", () => {
+  const valid = { zone_id: " front ", days_of_week: [5, 1, 1], start_time: "06:30", duration_minutes: 15 };
+
+  it("accepts a full schedule and tidies the days", () => {
+    expect(parseScheduleInput(valid, false)).toEqual({
+      value: { zone_id: "front", days_of_week: [1, 5], start_time: "06:30", duration_minutes: 15 },
+    });
+  });
+
+  it("requires every field when creating but not when updating", () => {
+    expect(parseScheduleInput({ ...valid, start_time: undefined }, false).error).toBe("start_time is required");
+    expect(parseScheduleInput({ enabled: false }, true)).toEqual({ value: { enabled: false } });
+  });
+
+  it("rejects bad values", () => {
+    expect(parseScheduleInput(null, true).error).toBe("Request body must be a JSON object");
+    expect(parseScheduleInput({ days_of_week: [] }, true).error).toMatch(/^days_of_week/);
+    expect(parseScheduleInput({ days_of_week: [7] }, true).error).toMatch(/^days_of_week/);
+    expect(parseScheduleInput({ start_time: "24:00" }, true).error).toBe("start_time must be a time in HH:MM format");
+    expect(parseScheduleInput({ start_time: "6:30" }, true).error).toBe("start_time must be a time in HH:MM format");
+    expect(parseScheduleInput({ duration_minutes: 0 }, true).error).toMatch(/^duration_minutes/);
+    expect(parseScheduleInput({ duration_minutes: 2.5 }, true).error).toMatch(/^duration_minutes/);
+    expect(parseScheduleInput({ skip_if_rain: "yes" }, true).error).toBe("skip_if_rain must be a boolean");
+  });
+});
@@ -0,0 +1,49 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { EXPECTED_COLUMNS, SCHEMA_VERSION } from "@/lib/schema";
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "..", "migrations");
+const migrationFiles = readdirSync(MIGRATIONS_DIR).filter((file) => /^\d{4}_.+\.sql$/.test(file)).sort();
+
+// Replay the CREATE TABLE / ADD COLUMN statements to get the columns the migrations produce
+function migratedColumns(): Record<string, string[]> {
+  const tables: Record<string, string[]> = {};
+
+  for (const file of migrationFiles) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, file), "utf8").replace(/--.*$/gm, "");
+
+    for (const [, table, body] of sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*?)\n\);/g)) {
+      tables[table] = body
+        .split("\n")
+        .map((line) => line.trim().split(/\s+/)[0])
+        .filter((name) => /^[a-z_0-9]+$/.test(name));
+    }
+
+    for (const [, table, column] of sql.matchAll(/ALTER TABLE (\w+) ADD COLUMN IF NOT EXISTS (\w+)/g)) {
+      tables[table] = [...(tables[table] || []), column];
+    }
+  }
+
+  return tables;
+}
+
+describe("schema", () => {
+  it("expects the version of the newest migration", () => {
+    expect(migrationFiles.at(-1)?.slice(0, 4)).toBe(SCHEMA_VERSION);
+  });
+
+  it("has migration versions numbered without gaps", () => {
+    migrationFiles.forEach((file, i) => {
+      expect(file.slice(0, 4)).toBe(String(i + 1).padStart(4, "0"));
+    });
+  });
+
+  it("expects exactly the columns the migrations create", () => {
+    const migrated = migratedColumns();
+    const sorted = (tables: Record<string, string[]>) =>
+      Object.fromEntries(Object.entries(tables).map(([table, columns]) => [table, [...columns].sort()]));
+
+    expect(sorted(migrated)).toEqual(sorted(EXPECTED_COLUMNS));
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { bucketSoilReadings, parseSoilHistoryQuery } from "@/lib/sensors";
+import type { SoilReading } from "@/lib/storage";
+
+const NOW = new Date("2026-01-15T00:00:00Z");
+
+function reading(capturedAt: string, moisture: number, temperature?: number): SoilReading {
+  return { id: capturedAt, zone_id: "front", moisture_percent: moisture, temperature, captured_at: capturedAt };
+}
+
+describe("parseSoilHistoryQuery", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("defaults to the last 24 hours in 30 minute buckets", () => {
+    expect(parseSoilHistoryQuery(new URLSearchParams())).toEqual({
+      value: {
+        range: "24h",
+        bucket: "30m",
+        from: "2026-01-14T00:00:00.000Z",
+        to: NOW.toISOString(),
+      },
+    });
+  });
+
+  it("uses the range's own default bucket", () => {
+    expect(parseSoilHistoryQuery(new URLSearchParams("range=30d")).value?.bucket).toBe("6h");
+  });
+
+  it.each([
+    ["range=1y", "range must be one of"],
+    ["bucket=5m", "bucket must be one of"],
+    ["range=30d&bucket=15m", "too small"],
+  ])("rejects %s", (query, error) => {
+    expect(parseSoilHistoryQuery(new URLSearchParams(query)).error).toContain(error);
+  });
+});
+
+describe("bucketSoilReadings", () => {
+  it("averages readings into epoch-aligned buckets and skips empty ones", () => {
+    const points = bucketSoilReadings(
+      [
+        reading("2026-01-15T00:05:00Z", 30, 18),
+        reading("2026-01-15T00:20:00Z", 33),
+        reading("2026-01-15T00:40:00Z", 40, 19),
+        reading("2026-01-15T02:10:00Z", 38, 20.5),
+      ],
+      "30m"
+    );
+
+    expect(points).toEqual([
+      { time: "2026-01-15T00:00:00.000Z", moisture: 31.5, temperature: 18, readings: 2 },
+      { time: "2026-01-15T00:30:00.000Z", moisture: 40, temperature: 19, readings: 1 },
+      { time: "2026-01-15T02:00:00.000Z", moisture: 38, temperature: 20.5, readings: 1 },
+    ]);
+  });
+
+  it("leaves temperature empty for a bucket without any", () => {
+    const [point] = bucketSoilReadings([reading("2026-01-15T00:05:00Z", 30)], "1h");
+
+    expect(point.temperature).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getStorage, setStorage } from "@/lib/storage";
+
+// Supabase env vars aren't set under test, so only the file store and the errors are reachable
+describe("getStorage", () => {
+  beforeEach(() => {
+    setStorage(null);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("STORAGE_FILE", "/nonexistent/garden.json");
+  });
+
+  afterEach(() => {
+    setStorage(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("falls back to the file store with a warning in development", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("STORAGE_BACKEND", "");
+
+    expect(getStorage()).toBeDefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Supabase is not configured"));
+  });
+
+  it("refuses to start in production when no backend is configured", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("STORAGE_BACKEND", "");
+
+    expect(() => getStorage()).toThrow("No storage configured");
+  });
+
+  it("uses the file store in production when STORAGE_BACKEND=file", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("STORAGE_BACKEND", "file");
+
+    expect(getStorage()).toBeDefined();
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown backend instead of guessing", () => {
+    vi.stubEnv("STORAGE_BACKEND", "postgres");
+
+    expect(() => getStorage()).toThrow('Unknown STORAGE_BACKEND "postgres"');
+  });
+
+  it("won't use Supabase when its env vars are missing", () => {
+    vi.stubEnv("STORAGE_BACKEND", "supabase");
+
+    expect(() => getStorage()).toThrow("STORAGE_BACKEND=supabase");
+  });
+});
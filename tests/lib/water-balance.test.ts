@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { computeWaterBalance, getCropCoefficient, getEffectiveRain } from "@/lib/water-balance";
+import type { WateringEvent, Zone } from "@/lib/storage";
+
+const NOW = new Date("2026-01-15T00:00:00Z");
+
+function zone(overrides: Partial<Zone> = {}): Zone {
+  return { id: "front", device_id: "tap-1", name: "Front Hedges", created_at: "2025-12-01T00:00:00Z", ...overrides };
+}
+
+// Past days as [et0, rain], ending the day before NOW
+function evapotranspiration(...days: Array<[number, number]>) {
+  return {
+    today: 5,
+    last7days: days.reduce((sum, [et0]) => sum + et0, 0),
+    daily: days.map(([et0, precipitation], i) => ({ date: `2026-01-${String(8 + i).padStart(2, "0")}`, et0, precipitation })),
+  };
+}
+
+// A finished run starting at 07:00 Melbourne time (20:00 UTC the day before) on the given day
+function run(day: number, minutes: number): WateringEvent {
+  const startedAt = new Date(Date.UTC(2026, 0, day - 1, 20)).toISOString();
+  return {
+    id: String(day),
+    zone_id: "front",
+    started_at: startedAt,
+    ended_at: new Date(new Date(startedAt).getTime() + minutes * 60000).toISOString(),
+    duration_seconds: minutes * 60,
+    trigger: "automated",
+    created_at: startedAt,
+  };
+}
+
+describe("getCropCoefficient", () => {
+  it.each([
+    [{}, 0.6],
+    [{ plant_preset: "citrus" }, 0.7],
+    [{ plant_preset: "citrus", water_needs: "low" as const }, 0.4],
+    [{ plant_preset: "sir-walter-buffalo", sun_exposure: "part_shade" as const }, 0.56],
+  ])("uses %o -> %f", (profile, expected) => {
+    expect(getCropCoefficient(zone(profile))).toBe(expected);
+  });
+});
+
+describe("getEffectiveRain", () => {
+  it("ignores light rain and discounts the rest", () => {
+    expect(getEffectiveRain(1.5)).toBe(0);
+    expect(getEffectiveRain(10)).toBe(8);
+  });
+});
+
+describe("computeWaterBalance", () => {
+  it("depletes the root zone by crop evapotranspiration and refills it with rain", () => {
+    const balance = computeWaterBalance(zone(), evapotranspiration([5, 0], [5, 0], [5, 10], [6, 0]), [], NOW);
+
+    expect(balance.days.map((day) => day.depletion)).toEqual([3, 6, 1, 4.6]);
+    expect(balance).toMatchObject({
+      cropCoefficient: 0.6,
+      capacityMm: 55,
+      readilyAvailableMm: 27.5,
+      depletionMm: 4.6,
+      depletionPercent: 8,
+      todayCropEt: 3,
+    });
+  });
+
+  it("credits watering runs on their Melbourne date", () => {
+    const balance = computeWaterBalance(zone(), evapotranspiration([10, 0], [10, 0], [10, 0]), [run(9, 40)], NOW);
+
+    // 40 minutes at 15mm/h = 10mm on the 9th
+    expect(balance.days.map((day) => day.irrigation)).toEqual([0, 10, 0]);
+    expect(balance.depletionMm).toBe(8);
+  });
+
+  it("never depletes past what the soil can hold", () => {
+    const balance = computeWaterBalance(
+      zone({ soil_type: "sand", plant_preset: "vegetable-garden" }),
+      evapotranspiration([8, 0], [8, 0], [8, 0], [8, 0]),
+      [],
+      NOW
+    );
+
+    expect(balance.depletionMm).toBe(25);
+    expect(balance.depletionPercent).toBe(100);
+  });
+});
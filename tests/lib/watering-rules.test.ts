@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_POLICIES, type ActivePolicy } from "@/lib/policies";
+import {
+  clampDuration,
+  decideByRules,
+  getVetoReason,
+  parseWateringDecision,
+  type DecisionInputs,
+} from "@/lib/watering-rules";
+import type { ZoneWaterBalance } from "@/lib/water-balance";
+import type { WeatherData } from "@/lib/weather";
+
+function weather(last24h: number, forecastMm = 0, forecastChance = 0): WeatherData {
+  return {
+    current: {
+      temperature: 24,
+      humidity: 50,
+      precipitation: 0,
+      weatherCode: 0,
+      weatherDescription: "Clear sky",
+      windSpeed: 10,
+    },
+    recentRainfall: { last24h, last7days: last24h },
+    upcomingRainfall: { next24h: forecastMm, probability: forecastChance },
+    forecast: [
+      {
+        date: "2026-01-15",
+        dayName: "Thursday",
+        weatherCode: 61,
+        weatherDescription: "Slight rain",
+        tempMax: 26,
+        tempMin: 15,
+        precipitationSum: forecastMm,
+        precipitationProbability: forecastChance,
+        et0: 4,
+      },
+    ],
+    evapotranspiration: { today: 4, last7days: 28, daily: [] },
+    wateringRecommendation: { shouldWater: true, reason: "", urgency: "low" },
+  };
+}
+
+const SUMMER: ActivePolicy = { ...DEFAULT_POLICIES.summer, season: "summer", policyId: null, label: "Summer (default)" };
+const WINTER: ActivePolicy = { ...DEFAULT_POLICIES.winter, season: "winter", policyId: null, label: "Winter (default)" };
+
+function inputs(overrides: Partial<DecisionInputs>): DecisionInputs {
+  return {
+    moisture: 25,
+    lastWateredDaysAgo: 4,
+    wateringsThisWeek: 1,
+    weather: null,
+    waterBalance: null,
+    policy: SUMMER,
+    ...overrides,
+  };
+}
+
+const wantsWater = { shouldWater: true, durationMinutes: 40, reason: "Looks dry", confidence: "medium" as const };
+
+describe("decideByRules", () => {
+  it.each([
+    { moisture: 15, lastWateredDaysAgo: 4, expected: 60 },
+    { moisture: 25, lastWateredDaysAgo: 4, expected: 45 },
+    { moisture: 35, lastWateredDaysAgo: 3, expected: 30 },
+    { moisture: 35, lastWateredDaysAgo: null, expected: 30 },
+  ])("waters $moisture% soil last watered $lastWateredDaysAgo days ago for $expected min", (input) => {
+    expect(decideByRules(inputs(input))).toMatchObject({
+      shouldWater: true,
+      durationMinutes: input.expected,
+      confidence: "high",
+    });
+  });
+
+  it.each([
+    { moisture: 45 },
+    { moisture: 35, lastWateredDaysAgo: 2 },
+    { moisture: 25, wateringsThisWeek: 3 },
+    { moisture: 25, lastWateredDaysAgo: 1 },
+    { moisture: 25, weather: weather(6) },
+    { moisture: 25, weather: weather(0, 8, 80) },
+  ])("skips %o", (input) => {
+    expect(decideByRules(inputs(input))).toMatchObject({ shouldWater: false, durationMinutes: 0 });
+  });
+
+  it("skips for rain due overnight even when today's forecast is dry", () => {
+    const overnightRain = { ...weather(0), upcomingRainfall: { next24h: 9, probability: 85 } };
+
+    expect(decideByRules(inputs({ moisture: 25, weather: overnightRain }))).toMatchObject({
+      shouldWater: false,
+      reason: "Rain: 9mm of rain forecast in the next 24 hours (85% chance)",
+    });
+  });
+
+  it("tops up adequate soil by the water balance when there is one", () => {
+    const balance = (depletionMm: number): ZoneWaterBalance => ({
+      cropCoefficient: 0.6,
+      capacityMm: 55,
+      readilyAvailableMm: 27.5,
+      depletionMm,
+      depletionPercent: Math.round((depletionMm / 55) * 100),
+      todayCropEt: 3,
+      days: [],
+    });
+
+    expect(decideByRules(inputs({ moisture: 35, lastWateredDaysAgo: 2, waterBalance: balance(30) }))).toMatchObject({
+      shouldWater: true,
+      durationMinutes: 30,
+    });
+    expect(decideByRules(inputs({ moisture: 35, lastWateredDaysAgo: 6, waterBalance: balance(12) })).reason).toContain(
+      "only 12mm depleted"
+    );
+  });
+
+  it("waters critically dry soil despite the frequency rules", () => {
+    expect(decideByRules(inputs({ moisture: 15, lastWateredDaysAgo: 0, wateringsThisWeek: 4 })).shouldWater).toBe(true);
+  });
+
+  it("applies the policy's moisture bands, durations and weekly cap", () => {
+    expect(decideByRules(inputs({ moisture: 22, wateringsThisWeek: 0, policy: WINTER }))).toMatchObject({
+      shouldWater: true,
+      durationMinutes: 35,
+    });
+    expect(decideByRules(inputs({ moisture: 14, policy: WINTER }))).toMatchObject({ shouldWater: true, durationMinutes: 40 });
+    expect(decideByRules(inputs({ moisture: 37, policy: WINTER })).reason).toContain("above 35%");
+    expect(decideByRules(inputs({ moisture: 22, wateringsThisWeek: 1, policy: WINTER })).reason).toContain("(max 1)");
+  });
+
+  it("never waters under a policy allowing no runs, unless the soil is critically dry", () => {
+    const paused = { ...WINTER, max_waterings_per_week: 0, label: "Custom (1 Jun - 31 Aug)" };
+    expect(decideByRules(inputs({ moisture: 22, wateringsThisWeek: 0, policy: paused })).reason).toBe(
+      "The Custom (1 Jun - 31 Aug) policy allows no waterings"
+    );
+    expect(decideByRules(inputs({ moisture: 10, wateringsThisWeek: 0, policy: paused })).shouldWater).toBe(true);
+  });
+});
+
+describe("getVetoReason", () => {
+  it("lets a decision that breaks no hard rule stand", () => {
+    expect(getVetoReason(wantsWater, inputs({}))).toBeNull();
+  });
+
+  it("never vetoes a decision not to water", () => {
+    expect(getVetoReason({ ...wantsWater, shouldWater: false }, inputs({ moisture: 60 }))).toBeNull();
+  });
+
+  it.each([
+    [{ moisture: 42 }, "above 40%"],
+    [{ weather: weather(5) }, "Rain: 5mm of rain in the last 24 hours"],
+    [{ weather: weather(0, 6, 90) }, "Rain: 6mm of rain forecast in the next 24 hours"],
+    [{ wateringsThisWeek: 3 }, "Already watered 3 times this week"],
+    [{ lastWateredDaysAgo: 1 }, "Watered yesterday"],
+  ])("vetoes watering with %o", (input, reason) => {
+    expect(getVetoReason(wantsWater, inputs(input))).toContain(reason);
+  });
+
+  it("lets critically dry soil override the frequency rules but not rain", () => {
+    expect(getVetoReason(wantsWater, inputs({ moisture: 15, wateringsThisWeek: 3 }))).toBeNull();
+    expect(getVetoReason(wantsWater, inputs({ moisture: 15, weather: weather(10) }))).toContain("Rain");
+  });
+});
+
+describe("parseWateringDecision", () => {
+  it("accepts a valid reply, rounding the duration", () => {
+    expect(parseWateringDecision(JSON.stringify({ ...wantsWater, durationMinutes: 40.4, reason: " Looks dry " }), SUMMER)).toEqual({
+      value: { ...wantsWater, durationMinutes: 40, reason: "Looks dry" },
+    });
+  });
+
+  it("zeroes the duration of a decision not to water", () => {
+    expect(parseWateringDecision(JSON.stringify({ ...wantsWater, shouldWater: false }), SUMMER).value?.durationMinutes).toBe(0);
+  });
+
+  it.each([
+    ["```json\n{}\n```", "not valid JSON"],
+    ["[]", "must be a JSON object"],
+    [JSON.stringify({ ...wantsWater, shouldWater: "yes" }), "shouldWater must be a boolean"],
+    [JSON.stringify({ ...wantsWater, durationMinutes: "40" }), "durationMinutes must be a number"],
+    [JSON.stringify({ ...wantsWater, durationMinutes: 90 }), "between 0 and 60"],
+    [JSON.stringify({ ...wantsWater, durationMinutes: -5 }), "between 0 and 60"],
+    [JSON.stringify({ ...wantsWater, durationMinutes: 0 }), "above 0 when shouldWater is true"],
+    [JSON.stringify({ ...wantsWater, reason: "" }), "reason must be a non-empty string"],
+    [JSON.stringify({ ...wantsWater, confidence: "certain" }), "confidence must be one of high, medium, low"],
+  ])("rejects %s", (text, error) => {
+    expect(parseWateringDecision(text, SUMMER).error).toContain(error);
+  });
+
+  it("checks the duration against the policy's longest run", () => {
+    expect(parseWateringDecision(JSON.stringify({ ...wantsWater, durationMinutes: 45 }), WINTER).error).toContain(
+      "between 0 and 40"
+    );
+  });
+});
+
+describe("clampDuration", () => {
+  it("keeps runs within the policy's durations", () => {
+    expect(clampDuration({ ...wantsWater, durationMinutes: 90 }, SUMMER).durationMinutes).toBe(60);
+    expect(clampDuration({ ...wantsWater, durationMinutes: 10 }, SUMMER).durationMinutes).toBe(30);
+    expect(clampDuration({ ...wantsWater, durationMinutes: 45 }, WINTER).durationMinutes).toBe(40);
+    expect(clampDuration({ ...wantsWater, shouldWater: false, durationMinutes: 0 }, SUMMER).durationMinutes).toBe(0);
+  });
+});
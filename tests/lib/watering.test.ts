@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setDeviceProvider } from "@/lib/devices";
+import { createDeviceSimulator, type DeviceSimulator } from "@/lib/device-simulator";
+import { createFileRepository } from "@/lib/file-storage";
+import { RESTRICTION_PRESETS } from "@/lib/restrictions";
+import { createZone, getWateringHistory, setStorage, type StorageRepository, type Zone } from "@/lib/storage";
+import { startWatering } from "@/lib/watering";
+
+let simulator: DeviceSimulator;
+let repository: StorageRepository;
+let zone: Zone;
+
+async function isTapOn() {
+  const { device } = await simulator.getDeviceStatus("sim-tap-1");
+  return device!.status.find((s) => s.code === "switch")?.value === true;
+}
+
+describe("startWatering", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    repository = createFileRepository();
+    setStorage(repository);
+    simulator = createDeviceSimulator({ zones: 1 });
+    setDeviceProvider(simulator);
+    zone = (await createZone({ id: "front", name: "Front Garden", device_id: "sim-tap-1" }))!;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setDeviceProvider(null);
+    setStorage(null);
+  });
+
+  it("turns the tap on and records the run", async () => {
+    const result = await startWatering(zone, 10, "manual", "Sam", null);
+
+    expect(result.success).toBe(true);
+    expect(result.eventId).toBeTruthy();
+    expect(await isTapOn()).toBe(true);
+    expect(await getWateringHistory()).toHaveLength(1);
+  });
+
+  it("turns the tap back off and fails when the event can't be recorded", async () => {
+    vi.spyOn(repository, "startScheduledWatering").mockResolvedValue(null);
+
+    const result = await startWatering(zone, 10, "manual", "Sam", null);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Failed to record the watering event");
+    expect(await isTapOn()).toBe(false);
+    expect(await getWateringHistory()).toHaveLength(0);
+  });
+
+  it("refuses to start when the water restrictions can't be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(repository, "getWaterRestrictions").mockRejectedValue(new Error("storage down"));
+
+    const result = await startWatering(zone, 10, "manual", "Sam", null);
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining("water restrictions") });
+    expect(await isTapOn()).toBe(false);
+  });
+
+  it("refuses to start when today's usage can't be read under a daily limit", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await repository.saveWaterRestrictions({ ...RESTRICTION_PRESETS.none, stage: "none", max_minutes_per_day: 30 });
+    vi.spyOn(repository, "getWateringEventsBetween").mockRejectedValue(new Error("storage down"));
+
+    const result = await startWatering(zone, 10, "manual", "Sam", null);
+
+    expect(result.success).toBe(false);
+    expect(await isTapOn()).toBe(false);
+  });
+
+  it("won't start a zone that is already watering", async () => {
+    await startWatering(zone, 30, "manual", "Sam", null);
+
+    const second = await startWatering(zone, 10, "manual", "Alex", null);
+
+    expect(second).toMatchObject({ success: false, busy: true, error: "Front Garden is already watering" });
+    expect(await getWateringHistory()).toHaveLength(1);
+    const { device } = await simulator.getDeviceStatus("sim-tap-1");
+    expect(device!.status.find((s) => s.code === "countdown_1")?.value).toBe(30 * 60);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getWeatherData } from "@/lib/weather";
+
+// 8am on Fri 16 Jan in Melbourne (AEDT, UTC+11) - still the 15th in UTC
+const NOW = new Date("2026-01-15T21:00:00Z");
+
+// 7 past days, today and 6 days ahead, as Open-Meteo returns them for past_days=7
+const DAYS = Array.from({ length: 14 }, (_, i) => `2026-01-${String(9 + i).padStart(2, "0")}`);
+
+function openMeteoResponse() {
+  return {
+    utc_offset_seconds: 11 * 60 * 60,
+    current: { time: "2026-01-16T08:00", temperature_2m: 20, relative_humidity_2m: 60, precipitation: 0, weather_code: 3, wind_speed_10m: 12 },
+    hourly: {
+      // Local times: 2mm fell at 6am today, 6mm is due at noon and 9mm the day after tomorrow
+      time: ["2026-01-16T06:00", "2026-01-16T12:00", "2026-01-18T12:00"],
+      precipitation: [2, 6, 9],
+      precipitation_probability: [100, 80, 90],
+    },
+    daily: {
+      time: DAYS,
+      weather_code: DAYS.map(() => 3),
+      temperature_2m_max: DAYS.map(() => 25),
+      temperature_2m_min: DAYS.map(() => 14),
+      precipitation_sum: DAYS.map(() => 0),
+      precipitation_probability_max: DAYS.map(() => 10),
+      // Day N of the month has ET0 N/10, so each day is recognisable
+      et0_fao_evapotranspiration: DAYS.map((date) => Number(date.slice(8)) / 10),
+    },
+  };
+}
+
+describe("getWeatherData", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(openMeteoResponse()))));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("starts the forecast on Melbourne's today, not UTC's", async () => {
+    const weather = await getWeatherData();
+
+    expect(weather.forecast[0].date).toBe("2026-01-16");
+    expect(weather.evapotranspiration.today).toBe(1.6);
+    expect(weather.evapotranspiration.daily.map((day) => day.date)).toEqual(DAYS.slice(0, 7));
+  });
+
+  it("splits hourly rain into the last and next 24 hours in local time", async () => {
+    const weather = await getWeatherData();
+
+    expect(weather.recentRainfall.last24h).toBe(2);
+    expect(weather.upcomingRainfall).toEqual({ next24h: 6, probability: 80 });
+  });
+});